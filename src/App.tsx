@@ -7,6 +7,11 @@ import ConverterPage from './Pages/ConverterPage/ConverterPage';
 import HierarchyPage from './Pages/HierarchyPage/HierarchyPage';
 import DecomposePage from './Pages/DecomposPage/DecomposePage';
 import ShortestPathsPage from './Pages/ShortestPathsPage/ShortestPathsPage';
+import NetworkPlanningPage from './Pages/NetworkPlanningPage/NetworkPlanningPage';
+import SpanningTreePage from './Pages/SpanningTreePage/SpanningTreePage';
+import MaxFlowPage from './Pages/MaxFlowPage/MaxFlowPage';
+import CentralityPage from './Pages/CentralityPage/CentralityPage';
+import ComparePage from './Pages/ComparePage/ComparePage';
 
 interface IRouteConfig {
     path: string,
@@ -39,6 +44,31 @@ const routes: IRouteConfig[] = [
         path: 'LR_4',
         label: 'Кратчайшие пути',
         component: <ShortestPathsPage />
+    },
+    {
+        path: 'LR_5',
+        label: 'Сетевое планирование',
+        component: <NetworkPlanningPage />
+    },
+    {
+        path: 'LR_6',
+        label: 'Остовное дерево',
+        component: <SpanningTreePage />
+    },
+    {
+        path: 'LR_7',
+        label: 'Максимальный поток',
+        component: <MaxFlowPage />
+    },
+    {
+        path: 'LR_8',
+        label: 'Центральность',
+        component: <CentralityPage />
+    },
+    {
+        path: 'compare',
+        label: 'Сравнение моделей',
+        component: <ComparePage />
     }
 ]
 
@@ -0,0 +1,156 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import type { Graph } from "../../Utils/Graph";
+import type { ActivityEstimate, ActivityRow } from "../../Types/GraphData.types";
+import { buildActivityNetwork } from "../../Utils/ActivityNetwork";
+import { Button, Card, InputNumber, Popconfirm, Space, Switch, Table, Typography, type TableColumnProps } from "antd";
+import { DeleteOutlined, MinusOutlined, PlusOutlined } from "@ant-design/icons";
+
+const { Title } = Typography;
+
+interface IActivity extends ActivityRow {
+    key: number;
+}
+
+type ActivityField = Exclude<keyof IActivity, 'key'>;
+
+interface IActivityListInputProps {
+    onActivitiesChange: (graph: Graph, estimates: (ActivityEstimate | undefined)[]) => void,
+}
+
+const emptyActivity = (key: number): IActivity => ({
+    key,
+    from: null,
+    to: null,
+    duration: null,
+    optimistic: null,
+    mostLikely: null,
+    pessimistic: null,
+});
+
+const initialActivities: IActivity[] = [
+    [1, 2, 3], [1, 3, 5], [2, 4, 4], [3, 4, 3], [3, 5, 2], [4, 5, 2]
+].map(([from, to, duration], key) => ({ ...emptyActivity(key), from, to, duration }));
+
+const ActivityListInput: React.FC<IActivityListInputProps> = ({ onActivitiesChange }) => {
+    const [activities, setActivities] = useState<IActivity[]>(initialActivities);
+    const [pertEnabled, setPertEnabled] = useState<boolean>(false);
+
+    const handleAddActivity = useCallback(() => {
+        setActivities(prev => [...prev, emptyActivity(Math.max(-1, ...prev.map(a => a.key)) + 1)]);
+    }, [])
+
+    const handleRemoveActivity = useCallback((key: number) => {
+        setActivities(prev => prev.filter(activity => activity.key !== key));
+    }, [])
+
+    const handleChangeActivity = useCallback((key: number, field: ActivityField, value: number | null) => {
+        setActivities(prev => prev.map(activity => activity.key === key ? { ...activity, [field]: value } : activity));
+    }, [])
+
+    const { graph, estimates, invalidRows } = useMemo(
+        () => buildActivityNetwork(activities, pertEnabled),
+        [activities, pertEnabled]
+    );
+
+    useEffect(() => onActivitiesChange(graph, estimates), [graph, estimates, onActivitiesChange]);
+
+    // Номера событий — целые числа: дробный номер не может стать вершиной графа
+    const numberColumn = useCallback((title: string, field: ActivityField, min?: number, precision?: number) => ({
+        title,
+        dataIndex: field,
+        key: field,
+        width: 110,
+        render: (value: number | null, record: IActivity, index: number) => (
+            <InputNumber
+                min={min}
+                precision={precision}
+                status={precision === 0 && invalidRows.includes(index) ? 'error' : undefined}
+                value={value}
+                style={{ width: '100%' }}
+                onChange={newValue => handleChangeActivity(record.key, field, newValue)}
+            />
+        )
+    }), [handleChangeActivity, invalidRows]);
+
+    const columns = useMemo<TableColumnProps<IActivity>[]>(() => [
+        {
+            title: 'Работа',
+            key: 'index',
+            width: 80,
+            render: (_: unknown, __: unknown, index: number) => `A${index + 1}`
+        },
+        numberColumn('Начальное событие', 'from', 1, 0),
+        numberColumn('Конечное событие', 'to', 1, 0),
+        numberColumn(pertEnabled ? 'Длительность (без оценок)' : 'Длительность', 'duration', 0),
+        ...(pertEnabled ? [
+            numberColumn('Оптимистичная (a)', 'optimistic', 0),
+            numberColumn('Вероятная (m)', 'mostLikely', 0),
+            numberColumn('Пессимистичная (b)', 'pessimistic', 0),
+        ] : []),
+        {
+            title: '',
+            key: 'remove',
+            width: 50,
+            render: (_: unknown, record: IActivity) => (
+                <Button
+                    size="small"
+                    icon={<MinusOutlined />}
+                    danger
+                    onClick={() => handleRemoveActivity(record.key)}
+                />
+            )
+        }
+    ], [pertEnabled, numberColumn, handleRemoveActivity]);
+
+    const cardExtra = (
+        <Space>
+            <Switch
+                checked={pertEnabled}
+                onChange={setPertEnabled}
+                checkedChildren="PERT"
+                unCheckedChildren="PERT"
+            />
+            <Popconfirm
+                title="Очистить список работ?"
+                placement="topRight"
+                okText='Да'
+                cancelText='Нет'
+                onConfirm={() => setActivities([emptyActivity(0)])}
+            >
+                <Button
+                    size='small'
+                    icon={<DeleteOutlined />}
+                    danger
+                >
+                    Очистить
+                </Button>
+            </Popconfirm>
+        </Space>
+    )
+
+    return (
+        <Card
+            title={<Title level={4}>Введите работы сетевого графика</Title>}
+            extra={cardExtra}
+        >
+            <Table
+                columns={columns}
+                dataSource={activities}
+                size="small"
+                bordered
+                pagination={false}
+                scroll={{ x: 'max-content' }}
+            />
+            <Button
+                style={{ marginTop: 16 }}
+                type="primary"
+                icon={<PlusOutlined />}
+                onClick={handleAddActivity}
+            >
+                Добавить работу
+            </Button>
+        </Card>
+    )
+}
+
+export default ActivityListInput;
@@ -1,7 +1,22 @@
 import React, { useCallback, useEffect, useMemo, useState } from "react"
-import { Graph } from "../../Utils/Graph";
-import { Button, Card, Collapse, Dropdown, Flex, InputNumber, message, Popconfirm, Space, Table, Typography, type MenuProps, type TableColumnProps } from "antd";
-import { DeleteOutlined, DownloadOutlined, DownOutlined, UploadOutlined, PlusOutlined, DeleteColumnOutlined } from "@ant-design/icons"
+import { Graph, GraphArgumentError, GraphValidationError } from "../../Utils/Graph";
+import { Button, Card, Collapse, Dropdown, Flex, InputNumber, message, Popconfirm, Space, Switch, Table, Typography, type MenuProps, type TableColumnProps } from "antd";
+import { DeleteOutlined, DownloadOutlined, DownOutlined, UploadOutlined, PlusOutlined, DeleteColumnOutlined, ExperimentOutlined } from "@ant-design/icons"
+import type { DotExportOptions, Vertex, VertexAttributes } from "../../Types/GraphData.types";
+import VertexMetaEditor from "../VertexMetaEditor/VertexMetaEditor";
+import GenerateGraphModal from "../GenerateGraphModal/GenerateGraphModal";
+import { applyVertexMeta, indexedVertexMeta, removeVertexMeta, setVertexMeta } from "../../Utils/VertexMeta";
+import { downloadFile } from "../../Utils/Download";
+import { parseNumberTable } from "../../Utils/Delimited";
+import {
+    graphExportFormats,
+    graphFileExtensions,
+    parseGraphFile,
+    parseSavedGraph,
+    serializeGraph,
+    stringifyGraphDocument,
+    type GraphExportFormat
+} from "../../Utils/SavedGraph";
 
 const { Title, Text } = Typography
 
@@ -20,6 +35,19 @@ const DistanceMatrixInput: React.FC<IDistanceMatrixInput> = ({ initialSize = 3,
     const createEmptyMatrix = useCallback(() => Array.from({ length: initialSize }, () => Array(initialSize).fill(null)), [initialSize])
 
     const [disMatrix, setDisMatrix] = useState<(number | null)[][]>(createEmptyMatrix());
+    const [directed, setDirected] = useState<boolean>(true);
+    const [labels, setLabels] = useState<Record<Vertex, string>>({});
+    const [attributes, setAttributes] = useState<Record<Vertex, VertexAttributes>>({});
+    const [generating, setGenerating] = useState<boolean>(false);
+
+    const graph = useMemo(
+        () => Graph.fromDisMatrix(disMatrix, directed).mutate(draft => applyVertexMeta(draft, labels, attributes)),
+        [disMatrix, directed, labels, attributes]
+    );
+
+    useEffect(() => onGraphChange(graph), [graph, onGraphChange]);
+
+    const vertexLabel = useCallback((vertex: Vertex) => labels[vertex] ?? `V${vertex + 1}`, [labels]);
 
     const handleAddVertex = useCallback(() => {
         setDisMatrix(prev => {
@@ -32,14 +60,75 @@ const DistanceMatrixInput: React.FC<IDistanceMatrixInput> = ({ initialSize = 3,
         setDisMatrix(prev =>
             prev.filter((_, i) => i !== index).map(row => row.filter((_, j) => j !== index))
         )
+        setLabels(prev => removeVertexMeta(prev, index))
+        setAttributes(prev => removeVertexMeta(prev, index))
+    }, [])
+
+    const handleChangeLabel = useCallback((vertex: Vertex, label: string) => {
+        setLabels(prev => setVertexMeta(prev, vertex, label || undefined))
     }, [])
 
+    const handleChangeAttributes = useCallback((vertex: Vertex, values: VertexAttributes) => {
+        setAttributes(prev => setVertexMeta(prev, vertex, Object.keys(values).length > 0 ? values : undefined))
+    }, [])
+
+    const handleClear = useCallback(() => {
+        setDisMatrix(createEmptyMatrix())
+        setLabels({})
+        setAttributes({})
+    }, [createEmptyMatrix])
+
     const handleChangeCell = useCallback((rowId: number, colId: number, value: number | null) => {
         setDisMatrix(prev => {
             const newMatrix = prev.map(r => [...r]);
             newMatrix[rowId][colId] = value;
+            if (!directed) newMatrix[colId][rowId] = value;
             return newMatrix;
         })
+    }, [directed])
+
+    // Блок ячеек из электронной таблицы вставляется начиная с выбранной ячейки; матрица расширяется под размер блока
+    const handlePasteCells = useCallback((rowId: number, colId: number, event: React.ClipboardEvent) => {
+        const text = event.clipboardData.getData('text/plain');
+        if (!/[\t\n]/.test(text.trim())) return;
+        event.preventDefault();
+        event.stopPropagation();
+        let block: (number | null)[][];
+        try {
+            block = parseNumberTable(text);
+        } catch (error) {
+            if (!(error instanceof SyntaxError)) throw error;
+            message.error(error.message);
+            return;
+        }
+        setDisMatrix(prev => {
+            const size = Math.max(prev.length, rowId + block.length, colId + block[0].length);
+            const newMatrix = Array.from({ length: size }, (_, i) => Array.from({ length: size }, (_, j) => prev[i]?.[j] ?? null));
+            block.forEach((row, i) => row.forEach((value, j) => {
+                const [r, c] = [rowId + i, colId + j];
+                if (r === c) return;
+                newMatrix[r][c] = value;
+                if (!directed) newMatrix[c][r] = value;
+            }));
+            return newMatrix;
+        });
+        message.success(`Вставлен блок ${block.length}×${block[0].length}`);
+    }, [directed])
+
+    const handleToggleDirected = useCallback((checked: boolean) => {
+        setDirected(checked);
+        if (checked) return;
+        // В неориентированном графе матрица симметрична: пустые ячейки заполняются из симметричных
+        setDisMatrix(prev => prev.map((row, i) => row.map((value, j) => i < j ? value ?? prev[j][i] : prev[j][i] ?? value)));
+    }, [])
+
+    // Вершины загруженного графа перенумеровываются по порядку: матрица хранит вершины 0, 1, …
+    const applyGraph = useCallback((loaded: Graph) => {
+        setDisMatrix(loaded.asWeightedAdjMatrix);
+        setDirected(loaded.directed);
+        const meta = indexedVertexMeta(loaded);
+        setLabels(meta.labels);
+        setAttributes(meta.attributes);
     }, [])
 
     const handleLoadData = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
@@ -49,40 +138,73 @@ const DistanceMatrixInput: React.FC<IDistanceMatrixInput> = ({ initialSize = 3,
         const reader = new FileReader();
         reader.onload = (e) => {
           try {
-            const content = e.target?.result as string;
-            const data = JSON.parse(content) as number[][];
-            
-            if (data && Array.isArray(data)) {
-              setDisMatrix(data);
-              message.success('Матрица успешно загружена из файла');
-            } else {
-              message.error('Файл не содержит корректных данных матрицы');
-            }
+            // Файлы прежнего формата хранят только матрицу без ориентированности
+            applyGraph(parseSavedGraph(e.target?.result as string, { directed }));
+            message.success('Матрица успешно загружена из файла');
           } catch (error) {
-            message.error('Ошибка при чтении файла');
-            console.error(error);
+            message.error(error instanceof GraphArgumentError || error instanceof GraphValidationError
+              ? <span style={{ whiteSpace: 'pre-line' }}>{error.message}</span>
+              : 'Ошибка при чтении файла');
           }
         };
         reader.readAsText(file);
         event.target.value = '';
-    }, [])
+    }, [applyGraph, directed])
 
     const handleSaveData = useCallback(() => {
-        const json = JSON.stringify(disMatrix, null, 2);
-
-        const blob = new Blob([json], { type: 'application/json' });
-        const url = URL.createObjectURL(blob);
-        
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `graph_matrix_${new Date().toISOString().slice(0, 10)}.json`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
-        
+        const json = stringifyGraphDocument(graph, { createdAt: new Date().toISOString(), source: 'distanceMatrix' });
+        downloadFile(json, `graph_matrix_${new Date().toISOString().slice(0, 10)}.json`, 'application/json');
         message.success('Матрица успешно сохранена в файл'); 
-    }, [disMatrix])
+    }, [graph])
+
+    const handleLoadGraphFile = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+
+        const reader = new FileReader();
+        reader.onload = (e) => {
+            try {
+                applyGraph(parseGraphFile(file.name, e.target?.result as string, 'distance'));
+                message.success(`Матрица успешно загружена из файла ${file.name}`);
+            } catch (error) {
+                message.error(error instanceof GraphArgumentError || error instanceof GraphValidationError
+                    ? <span style={{ whiteSpace: 'pre-line' }}>{error.message}</span>
+                    : 'Ошибка при чтении файла');
+            }
+        };
+        reader.readAsText(file);
+        event.target.value = '';
+    }, [applyGraph])
+
+    const handleSaveDot = useCallback((groups: DotExportOptions['groups']) => {
+        try {
+            downloadFile(graph.toDOT({ groups }), `graph_${new Date().toISOString().slice(0, 10)}.gv`, 'text/vnd.graphviz');
+            message.success('Граф сохранён в файл DOT');
+        } catch (error) {
+            if (!(error instanceof GraphValidationError)) throw error;
+            message.error(error.message);
+        }
+    }, [graph])
+
+    const handleSaveFormat = useCallback((format: GraphExportFormat) => {
+        try {
+            downloadFile(
+                serializeGraph(graph, format, 'distance'),
+                `graph_${new Date().toISOString().slice(0, 10)}.${format}`,
+                graphExportFormats[format].type
+            );
+            message.success(`Граф сохранён в файл ${graphExportFormats[format].label}`);
+        } catch (error) {
+            if (!(error instanceof GraphValidationError)) throw error;
+            message.error(error.message);
+        }
+    }, [graph])
+
+    const handleGenerate = useCallback((generated: Graph) => {
+        applyGraph(generated);
+        setGenerating(false);
+        message.success('Матрица сгенерирована');
+    }, [applyGraph])
 
     const columns = useMemo<TableColumnProps<IDataRow>[]>(() => [
         {
@@ -91,14 +213,14 @@ const DistanceMatrixInput: React.FC<IDistanceMatrixInput> = ({ initialSize = 3,
             key: 'index',
             width: 100,
             fixed: 'left',
-            render: (_: unknown, __: unknown, index: number) => `V${index + 1}`
+            render: (_: unknown, __: unknown, index: number) => vertexLabel(index)
         },
         ...disMatrix.map((_, colIndex) => ({
             title: (
                 <Flex justify="space-between" align="center">
-                    {`V${colIndex + 1}`}
+                    {vertexLabel(colIndex)}
                     <Popconfirm
-                        title={`Удалить вершину V${colIndex + 1}?`}
+                        title={`Удалить вершину ${vertexLabel(colIndex)}?`}
                         okText='Да'
                         cancelText='Нет'
                         disabled={disMatrix.length <= 1}
@@ -125,6 +247,7 @@ const DistanceMatrixInput: React.FC<IDistanceMatrixInput> = ({ initialSize = 3,
                     style={{ width: '100%' }}
                     disabled={rowIndex === colIndex}
                     onChange={value => handleChangeCell(rowIndex, colIndex, value)}
+                    onPaste={event => handlePasteCells(rowIndex, colIndex, event)}
                 />
             ),
         })),
@@ -143,7 +266,7 @@ const DistanceMatrixInput: React.FC<IDistanceMatrixInput> = ({ initialSize = 3,
             fixed: 'right',
             render: () => null,
         }
-    ], [disMatrix, handleAddVertex, handleRemoveVertex, handleChangeCell])
+    ], [disMatrix, vertexLabel, handleAddVertex, handleRemoveVertex, handleChangeCell, handlePasteCells])
 
     const dataSource = useMemo<IDataRow[]>(() =>
         disMatrix.map((row, index) => ({
@@ -187,17 +310,74 @@ const DistanceMatrixInput: React.FC<IDistanceMatrixInput> = ({ initialSize = 3,
                 </Flex>
             ),
             onClick: handleSaveData
+        },
+        {
+            key: 'loadGraphFile',
+            label: (
+                <Flex justify='space-between' gap={10}>
+                    Загрузить из другого формата
+                    <input 
+                        type="file" 
+                        accept={graphFileExtensions.join(',')}
+                        onChange={handleLoadGraphFile}
+                        style={{ 
+                            position: 'absolute',
+                            left: 0,
+                            top: 0,
+                            width: '100%',
+                            height: '100%',
+                            opacity: 0,
+                            cursor: 'pointer'
+                        }}
+                    />
+                    <UploadOutlined />
+                </Flex>
+            )
+        },
+        {
+            key: 'saveDot',
+            label: 'Сохранить DOT',
+            children: [
+                { key: 'dot-none', label: 'Без группировки', onClick: () => handleSaveDot('none') },
+                { key: 'dot-levels', label: 'По иерархическим уровням', onClick: () => handleSaveDot('levels') },
+                { key: 'dot-subsystems', label: 'По подсистемам', onClick: () => handleSaveDot('subsystems') }
+            ]
+        },
+        {
+            key: 'export',
+            label: 'Сохранить в формате',
+            children: (Object.keys(graphExportFormats) as GraphExportFormat[]).map(format => ({
+                key: `export-${format}`,
+                label: graphExportFormats[format].label,
+                onClick: () => handleSaveFormat(format)
+            }))
+        },
+        {
+            key: 'generate',
+            label: (
+                <Flex justify="space-between" gap={10}>
+                    Сгенерировать
+                    <ExperimentOutlined />
+                </Flex>
+            ),
+            onClick: () => setGenerating(true)
         }
-    ], [handleLoadData, handleSaveData])
+    ], [handleLoadData, handleSaveData, handleLoadGraphFile, handleSaveDot, handleSaveFormat])
 
     const cardExtra = useMemo(() => (
         <Space>
+            <Switch
+                checked={directed}
+                onChange={handleToggleDirected}
+                checkedChildren="Ориентированный"
+                unCheckedChildren="Неориентированный"
+            />
             <Popconfirm
                 title='Очистить матрицу расстояний?'
                 placement="topRight"
                 okText='Да'
                 cancelText='Нет'
-                onConfirm={() => setDisMatrix(createEmptyMatrix())}
+                onConfirm={handleClear}
             >
                 <Button
                     size='small'
@@ -216,28 +396,51 @@ const DistanceMatrixInput: React.FC<IDistanceMatrixInput> = ({ initialSize = 3,
                 </Button>
             </Dropdown>
         </Space>
-    ), [createEmptyMatrix, actionItems])
-
-    useEffect(() => {
-        onGraphChange(Graph.fromDisMatrix(disMatrix))
-    }, [disMatrix, onGraphChange])
+    ), [directed, handleToggleDirected, handleClear, actionItems])
 
     return (
         <Card
             title={<Title level={4}>Введите матрицу расстояний</Title>}
             extra={cardExtra}
         >
-            <Table
-                columns={columns}
-                dataSource={dataSource}
-                size="small"
-                bordered
-                pagination={false}
-                scroll={{ x: 'max-content' }}
-            />
+            {/* Щелчок по таблице вне ячеек позволяет вставить всю матрицу с первой ячейки */}
+            <div tabIndex={-1} onPaste={event => handlePasteCells(0, 0, event)}>
+                <Table
+                    columns={columns}
+                    dataSource={dataSource}
+                    size="small"
+                    bordered
+                    pagination={false}
+                    scroll={{ x: 'max-content' }}
+                />
+            </div>
+            <Text type="secondary">
+                Блок ячеек из электронной таблицы можно вставить в любую ячейку матрицы
+            </Text>
             <Collapse
                 ghost
                 style={{ marginTop: 16 }}
+                items={[
+                    {
+                        key: 'meta',
+                        label: 'Названия и атрибуты вершин',
+                        children: (
+                            <VertexMetaEditor
+                                vertices={disMatrix.map((_, index) => index)}
+                                labels={labels}
+                                attributes={attributes}
+                                onLabelChange={handleChangeLabel}
+                                onAttributesChange={handleChangeAttributes}
+                            />
+                        )
+                    }
+                ]}
+            />
+            <GenerateGraphModal
+                open={generating}
+                weighted
+                onGenerate={handleGenerate}
+                onCancel={() => setGenerating(false)}
             />
         </Card>
     )
@@ -0,0 +1,193 @@
+import { Form, InputNumber, message, Modal, Select, Switch } from "antd";
+import { Graph, GraphArgumentError } from "../../Utils/Graph";
+import {
+    completeGraph,
+    cycleGraph,
+    erdosRenyiGraph,
+    gridGraph,
+    pathGraph,
+    randomDag,
+    randomWeightedGraph,
+    starGraph
+} from "../../Utils/GraphGenerators";
+
+type GeneratorKind = 'dag' | 'erdosRenyi' | 'complete' | 'cycle' | 'path' | 'star' | 'grid' | 'weighted';
+
+type Parameter = 'size' | 'levels' | 'probability' | 'rows' | 'columns' | 'minWeight' | 'maxWeight' | 'directed' | 'seed';
+
+interface IGeneratorValues {
+    kind: GeneratorKind;
+    size: number;
+    levels: number;
+    probability: number;
+    rows: number;
+    columns: number;
+    minWeight: number;
+    maxWeight: number;
+    directed: boolean;
+    seed: number;
+}
+
+interface IGenerator {
+    label: string;
+    parameters: Parameter[];
+    weighted?: boolean;
+    generate: (values: IGeneratorValues) => Graph;
+}
+
+const generators: Record<GeneratorKind, IGenerator> = {
+    dag: {
+        label: 'Ациклический граф с уровнями',
+        parameters: ['size', 'levels', 'probability', 'seed'],
+        generate: ({ levels, size, probability, seed }) => randomDag(levels, size, probability, seed),
+    },
+    erdosRenyi: {
+        label: 'Случайный граф G(n, p)',
+        parameters: ['size', 'probability', 'directed', 'seed'],
+        generate: ({ size, probability, directed, seed }) => erdosRenyiGraph(size, probability, directed, seed),
+    },
+    complete: {
+        label: 'Полный граф',
+        parameters: ['size', 'directed'],
+        generate: ({ size, directed }) => completeGraph(size, directed),
+    },
+    cycle: {
+        label: 'Цикл',
+        parameters: ['size', 'directed'],
+        generate: ({ size, directed }) => cycleGraph(size, directed),
+    },
+    path: {
+        label: 'Цепь',
+        parameters: ['size', 'directed'],
+        generate: ({ size, directed }) => pathGraph(size, directed),
+    },
+    star: {
+        label: 'Звезда',
+        parameters: ['size', 'directed'],
+        generate: ({ size, directed }) => starGraph(size, directed),
+    },
+    grid: {
+        label: 'Решётка',
+        parameters: ['rows', 'columns', 'directed'],
+        generate: ({ rows, columns, directed }) => gridGraph(rows, columns, directed),
+    },
+    weighted: {
+        label: 'Случайный взвешенный граф',
+        parameters: ['size', 'probability', 'minWeight', 'maxWeight', 'directed', 'seed'],
+        weighted: true,
+        generate: ({ size, probability, minWeight, maxWeight, directed, seed }) =>
+            randomWeightedGraph(size, probability, minWeight, maxWeight, directed, seed),
+    },
+};
+
+const initialValues: IGeneratorValues = {
+    kind: 'dag',
+    size: 8,
+    levels: 3,
+    probability: 0.3,
+    rows: 3,
+    columns: 3,
+    minWeight: 1,
+    maxWeight: 10,
+    directed: true,
+    seed: 1,
+};
+
+interface IGenerateGraphModalProps {
+    open: boolean;
+    onGenerate: (graph: Graph) => void;
+    onCancel: () => void;
+    weighted?: boolean;
+}
+
+/**
+ * Диалог выбора генератора графа и его параметров.
+ * Взвешенные генераторы доступны только полям ввода, которые умеют хранить веса.
+ */
+const GenerateGraphModal: React.FC<IGenerateGraphModalProps> = ({ open, onGenerate, onCancel, weighted = false }) => {
+    const [form] = Form.useForm<IGeneratorValues>();
+    const kind = Form.useWatch('kind', form) ?? initialValues.kind;
+    const parameters = generators[kind].parameters;
+
+    const handleOk = () => {
+        // Ошибки заполнения полей форма показывает сама, ошибки генерации обрабатываются здесь же,
+        // чтобы обещание не завершалось необработанным отказом
+        form.validateFields()
+            .then(values => onGenerate(generators[values.kind].generate({ ...initialValues, ...values })), () => undefined)
+            .catch(e => message.error(e instanceof GraphArgumentError ? e.message : 'Ошибка генерации графа'));
+    };
+
+    return (
+        <Modal
+            title="Сгенерировать граф"
+            open={open}
+            okText="Сгенерировать"
+            cancelText="Отмена"
+            onOk={handleOk}
+            onCancel={onCancel}
+            forceRender
+        >
+            <Form form={form} layout="vertical" initialValues={initialValues}>
+                <Form.Item name="kind" label="Генератор">
+                    <Select<GeneratorKind>
+                        options={(Object.keys(generators) as GeneratorKind[])
+                            .filter(key => weighted || !generators[key].weighted)
+                            .map(key => ({ value: key, label: generators[key].label }))}
+                    />
+                </Form.Item>
+                {parameters.includes('size') && (
+                    <Form.Item name="size" label="Число вершин" rules={[{ required: true }]}>
+                        <InputNumber min={1} max={50} precision={0} style={{ width: '100%' }} />
+                    </Form.Item>
+                )}
+                {parameters.includes('levels') && (
+                    <Form.Item name="levels" label="Число уровней" rules={[{ required: true }]}>
+                        <InputNumber min={1} max={50} precision={0} style={{ width: '100%' }} />
+                    </Form.Item>
+                )}
+                {parameters.includes('rows') && (
+                    <Form.Item name="rows" label="Число строк" rules={[{ required: true }]}>
+                        <InputNumber min={1} max={10} precision={0} style={{ width: '100%' }} />
+                    </Form.Item>
+                )}
+                {parameters.includes('columns') && (
+                    <Form.Item name="columns" label="Число столбцов" rules={[{ required: true }]}>
+                        <InputNumber min={1} max={10} precision={0} style={{ width: '100%' }} />
+                    </Form.Item>
+                )}
+                {parameters.includes('probability') && (
+                    <Form.Item name="probability" label="Вероятность ребра" rules={[{ required: true }]}>
+                        <InputNumber min={0} max={1} step={0.05} style={{ width: '100%' }} />
+                    </Form.Item>
+                )}
+                {parameters.includes('minWeight') && (
+                    <Form.Item
+                        name="minWeight"
+                        label="Наименьший вес"
+                        tooltip="Отрицательные веса допустимы в ориентированном графе и не образуют циклов отрицательного веса"
+                        rules={[{ required: true }]}
+                    >
+                        <InputNumber min={-100} max={100} precision={0} style={{ width: '100%' }} />
+                    </Form.Item>
+                )}
+                {parameters.includes('maxWeight') && (
+                    <Form.Item name="maxWeight" label="Наибольший вес" rules={[{ required: true }]}>
+                        <InputNumber min={-100} max={100} precision={0} style={{ width: '100%' }} />
+                    </Form.Item>
+                )}
+                {parameters.includes('directed') && (
+                    <Form.Item name="directed" label="Ориентированный" valuePropName="checked">
+                        <Switch />
+                    </Form.Item>
+                )}
+                {parameters.includes('seed') && (
+                    <Form.Item name="seed" label="Зерно генератора" tooltip="Одно и то же зерно даёт один и тот же граф" rules={[{ required: true }]}>
+                        <InputNumber precision={0} style={{ width: '100%' }} />
+                    </Form.Item>
+                )}
+            </Form>
+        </Modal>
+    )
+}
+
+export default GenerateGraphModal;
@@ -9,6 +9,7 @@ const { Text } = Typography;
 interface IFieldManagerProps {
     vertex: Vertex,
     neighbors: Vertex[],
+    labels: Record<Vertex, string>,
     allVertices: Vertex[],
     onNeighborAdd: (vertex: Vertex) => void,
     onNeighborRemove: (vertex: Vertex, neighbor: Vertex) => void,
@@ -20,6 +21,7 @@ const FieldManager: React.FC<IFieldManagerProps> = memo(
     ({
         vertex,
         neighbors,
+        labels,
         allVertices,
         onNeighborAdd,
         onNeighborRemove,
@@ -33,13 +35,14 @@ const FieldManager: React.FC<IFieldManagerProps> = memo(
                 flexWrap: 'wrap',
             }}
         >
-            <Text>{vertex + 1}: &#123;</Text>
+            <Text>{labels[vertex] ?? vertex + 1}: &#123;</Text>
             {
                 neighbors.map((neighbor, id) => (
                     <InputSelector
                         key={`${vertex}-${id}`}
                         value={neighbor}
                         allVertices={allVertices}
+                        labels={labels}
                         onNeighborRemove={() => onNeighborRemove(vertex, neighbor)}
                         onNeighborChange={(newNeighbor) => onNeighborChange(vertex, id, newNeighbor)}
                     />
@@ -57,7 +60,7 @@ const FieldManager: React.FC<IFieldManagerProps> = memo(
             />
             <Text>&#125;</Text>
             <Popconfirm
-                title={`Удалить вершину ${vertex + 1}?`}
+                title={`Удалить вершину ${labels[vertex] ?? vertex + 1}?`}
                 okText='Да'
                 cancelText='Нет'
                 disabled={allVertices.length <= 1}
@@ -1,9 +1,22 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
-import { Graph } from "../../Utils/Graph";
-import type { Vertex } from "../../Types/GraphData.types";
-import { Button, Card, Dropdown, Flex, message, Popconfirm, Space, Splitter, Typography, type MenuProps } from "antd";
-import { DeleteOutlined, DownloadOutlined, DownOutlined, UploadOutlined, PlusOutlined } from "@ant-design/icons"
+import { Graph, GraphArgumentError, GraphValidationError } from "../../Utils/Graph";
+import type { DotExportOptions, Vertex, VertexAttributes } from "../../Types/GraphData.types";
+import { Button, Card, Dropdown, Flex, message, Popconfirm, Space, Splitter, Switch, Typography, type MenuProps } from "antd";
+import { DeleteOutlined, DownloadOutlined, DownOutlined, UploadOutlined, PlusOutlined, ExperimentOutlined } from "@ant-design/icons"
 import FieldManager from "./FieldManager";
+import VertexMetaEditor from "../VertexMetaEditor/VertexMetaEditor";
+import GenerateGraphModal from "../GenerateGraphModal/GenerateGraphModal";
+import { applyVertexMeta, indexedVertexMeta, removeVertexMeta, setVertexMeta } from "../../Utils/VertexMeta";
+import { downloadFile } from "../../Utils/Download";
+import {
+    graphExportFormats,
+    graphFileExtensions,
+    parseGraphFile,
+    parseSavedGraph,
+    serializeGraph,
+    stringifyGraphDocument,
+    type GraphExportFormat
+} from "../../Utils/SavedGraph";
 
 const { Title, Text } = Typography;
 
@@ -18,13 +31,20 @@ const IncListInput: React.FC<IIncListInputProps> = ({ onGraphChange, side = 'lef
         1: [2],
         2: []
     });
+    const [directed, setDirected] = useState<boolean>(true);
+    const [labels, setLabels] = useState<Record<Vertex, string>>({});
+    const [attributes, setAttributes] = useState<Record<Vertex, VertexAttributes>>({});
+    const [generating, setGenerating] = useState<boolean>(false);
 
     const fieldEntries = useMemo(() => 
         Object.entries(incList), 
         [incList]
     );
     
-    const graph = useMemo(() => Graph.fromIncList(incList, side), [incList, side]);
+    const graph = useMemo(
+        () => Graph.fromIncList(incList, side, directed).mutate(draft => applyVertexMeta(draft, labels, attributes)),
+        [incList, side, directed, labels, attributes]
+    );
 
     useEffect(() => onGraphChange(graph), [graph, onGraphChange]);
 
@@ -43,6 +63,16 @@ const IncListInput: React.FC<IIncListInputProps> = ({ onGraphChange, side = 'lef
                     ])
             ) as Record<Vertex, Vertex[]>
         ))
+        setLabels(prev => removeVertexMeta(prev, vertex))
+        setAttributes(prev => removeVertexMeta(prev, vertex))
+    }, [])
+
+    const handleChangeLabel = useCallback((vertex: Vertex, label: string) => {
+        setLabels(prev => setVertexMeta(prev, vertex, label || undefined))
+    }, [])
+
+    const handleChangeAttributes = useCallback((vertex: Vertex, values: VertexAttributes) => {
+        setAttributes(prev => setVertexMeta(prev, vertex, Object.keys(values).length > 0 ? values : undefined))
     }, [])
 
     const handleAddNeighbor = useCallback((vertex: Vertex) => {
@@ -59,8 +89,24 @@ const IncListInput: React.FC<IIncListInputProps> = ({ onGraphChange, side = 'lef
 
     const handleClearIncList = useCallback(() => {
         setIncList({ 0: [] })
+        setLabels({})
+        setAttributes({})
     }, [])
 
+    // Вершины загруженного графа перенумеровываются по порядку: поле ввода хранит вершины 0, 1, …
+    const applyGraph = useCallback((loaded: Graph) => {
+        const indexOf = new Map(loaded.vertices.map((vertex, index) => [vertex, index]));
+        // Список левых инцидентов хранит для каждой вершины её предшественников
+        const list = side === 'left' ? loaded.asRightIncList : loaded.asLeftIncList;
+        setIncList(loaded.vertices.length > 0
+            ? Object.fromEntries(loaded.vertices.map((vertex, index) => [index, list[vertex].map(v => indexOf.get(v)!)]))
+            : { 0: [] });
+        setDirected(loaded.directed);
+        const meta = indexedVertexMeta(loaded);
+        setLabels(meta.labels);
+        setAttributes(meta.attributes);
+    }, [side]);
+
     const handleLoadFromJson = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0];
         if (!file) return;
@@ -68,42 +114,75 @@ const IncListInput: React.FC<IIncListInputProps> = ({ onGraphChange, side = 'lef
         const reader = new FileReader();
         reader.onload = (e) => {
             try {
-                const content = e.target?.result as string;
-                const data = JSON.parse(content) as Record<number, number[]>;
-
-                if (data && typeof data === 'object' && !Array.isArray(data)) {
-                    setIncList(data);
-                    message.success('Множество успешно загружено из файла');
-                } else {
-                    message.error('Файл не содержит корректных данных множества')
-                }
-            } catch (error) { 
-                message.error('Ошибка чтения файла');
-                console.error(error);
+                // Файлы прежнего формата хранят только список инцидентов стороны поля ввода
+                applyGraph(parseSavedGraph(e.target?.result as string, { incListSide: side, directed }));
+                message.success('Множество успешно загружено из файла');
+            } catch (error) {
+                message.error(error instanceof GraphArgumentError || error instanceof GraphValidationError
+                    ? <span style={{ whiteSpace: 'pre-line' }}>{error.message}</span>
+                    : 'Ошибка чтения файла');
             }
         }
 
         reader.readAsText(file);
         event.target.value = '';
-    }, []);
+    }, [applyGraph, side, directed]);
 
     const handleSaveToJson = useCallback(() => {
-        const data: Record<number, number[]> = incList;
-        const json = JSON.stringify(data, null, 2);
-
-        const blob = new Blob([json], { type: 'application/json' });
-        const url = URL.createObjectURL(blob);
-        
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `graph_inclist_${new Date().toISOString().slice(0, 10)}.json`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
-
+        const json = stringifyGraphDocument(graph, { createdAt: new Date().toISOString(), source: 'incList' });
+        downloadFile(json, `graph_inclist_${new Date().toISOString().slice(0, 10)}.json`, 'application/json');
         message.success('Множество сохранено в файл')
-    }, [incList]);
+    }, [graph]);
+
+    const handleLoadFromGraphFile = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+
+        const reader = new FileReader();
+        reader.onload = (e) => {
+            try {
+                applyGraph(parseGraphFile(file.name, e.target?.result as string, 'adjacency'));
+                message.success(`Множество успешно загружено из файла ${file.name}`);
+            } catch (error) {
+                message.error(error instanceof GraphArgumentError || error instanceof GraphValidationError
+                    ? <span style={{ whiteSpace: 'pre-line' }}>{error.message}</span>
+                    : 'Ошибка чтения файла');
+            }
+        }
+
+        reader.readAsText(file);
+        event.target.value = '';
+    }, [applyGraph]);
+
+    const handleSaveToDot = useCallback((groups: DotExportOptions['groups']) => {
+        try {
+            downloadFile(graph.toDOT({ groups }), `graph_${new Date().toISOString().slice(0, 10)}.gv`, 'text/vnd.graphviz');
+            message.success('Граф сохранён в файл DOT');
+        } catch (error) {
+            if (!(error instanceof GraphValidationError)) throw error;
+            message.error(error.message);
+        }
+    }, [graph]);
+
+    const handleSaveToFormat = useCallback((format: GraphExportFormat) => {
+        try {
+            downloadFile(
+                serializeGraph(graph, format, 'adjacency'),
+                `graph_${new Date().toISOString().slice(0, 10)}.${format}`,
+                graphExportFormats[format].type
+            );
+            message.success(`Граф сохранён в файл ${graphExportFormats[format].label}`);
+        } catch (error) {
+            if (!(error instanceof GraphValidationError)) throw error;
+            message.error(error.message);
+        }
+    }, [graph]);
+
+    const handleGenerate = useCallback((generated: Graph) => {
+        applyGraph(generated);
+        setGenerating(false);
+        message.success('Множество сгенерировано');
+    }, [applyGraph]);
 
     const actionItems: MenuProps['items'] = useMemo(() => [
         {
@@ -138,11 +217,68 @@ const IncListInput: React.FC<IIncListInputProps> = ({ onGraphChange, side = 'lef
                 </Flex>
             ),
             onClick: handleSaveToJson
+        },
+        {
+            key: 'loadGraphFile',
+            label: (
+                <Flex justify='space-between' gap={10}>
+                    Загрузить из другого формата
+                    <input 
+                        type="file" 
+                        accept={graphFileExtensions.join(',')}
+                        onChange={handleLoadFromGraphFile}
+                        style={{ 
+                            position: 'absolute',
+                            left: 0,
+                            top: 0,
+                            width: '100%',
+                            height: '100%',
+                            opacity: 0,
+                            cursor: 'pointer'
+                        }}
+                    />
+                    <UploadOutlined />
+                </Flex>
+            )
+        },
+        {
+            key: 'saveDot',
+            label: 'Сохранить DOT',
+            children: [
+                { key: 'dot-none', label: 'Без группировки', onClick: () => handleSaveToDot('none') },
+                { key: 'dot-levels', label: 'По иерархическим уровням', onClick: () => handleSaveToDot('levels') },
+                { key: 'dot-subsystems', label: 'По подсистемам', onClick: () => handleSaveToDot('subsystems') }
+            ]
+        },
+        {
+            key: 'export',
+            label: 'Сохранить в формате',
+            children: (Object.keys(graphExportFormats) as GraphExportFormat[]).map(format => ({
+                key: `export-${format}`,
+                label: graphExportFormats[format].label,
+                onClick: () => handleSaveToFormat(format)
+            }))
+        },
+        {
+            key: 'generate',
+            label: (
+                <Flex justify="space-between" gap={10}>
+                    Сгенерировать
+                    <ExperimentOutlined />
+                </Flex>
+            ),
+            onClick: () => setGenerating(true)
         }
-    ], [handleLoadFromJson, handleSaveToJson]);
+    ], [handleLoadFromJson, handleSaveToJson, handleLoadFromGraphFile, handleSaveToDot, handleSaveToFormat]);
 
     const cardExtra = (
         <Space>
+            <Switch
+                checked={directed}
+                onChange={setDirected}
+                checkedChildren="Ориентированный"
+                unCheckedChildren="Неориентированный"
+            />
             <Popconfirm
                 title={`Очистить множество ${side === 'left' ? 'левых' : 'правых'} инцидентов`}
                 placement="topRight"
@@ -188,6 +324,7 @@ const IncListInput: React.FC<IIncListInputProps> = ({ onGraphChange, side = 'lef
                                         key={vertex}
                                         vertex={Number(vertex)}
                                         neighbors={neighbors}
+                                        labels={labels}
                                         allVertices={fieldEntries.map(([key,]) => Number(key))}
                                         onNeighborAdd={handleAddNeighbor}
                                         onNeighborRemove={handleRemoveNeighbor}
@@ -213,10 +350,21 @@ const IncListInput: React.FC<IIncListInputProps> = ({ onGraphChange, side = 'lef
                     </Flex>
                 </Splitter.Panel>
 
-                <Splitter.Panel min='40%' defaultSize='40%' collapsible>
-                    
+                <Splitter.Panel min='40%' defaultSize='40%' collapsible style={{ padding: '0 10px' }}>
+                    <VertexMetaEditor
+                        vertices={fieldEntries.map(([key,]) => Number(key))}
+                        labels={labels}
+                        attributes={attributes}
+                        onLabelChange={handleChangeLabel}
+                        onAttributesChange={handleChangeAttributes}
+                    />
                 </Splitter.Panel>
             </Splitter>
+            <GenerateGraphModal
+                open={generating}
+                onGenerate={handleGenerate}
+                onCancel={() => setGenerating(false)}
+            />
         </Card>
     )
 }
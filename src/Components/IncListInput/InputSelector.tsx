@@ -6,6 +6,7 @@ import { MinusOutlined } from '@ant-design/icons';
 interface IInputSelectorProps {
     value: Vertex,
     allVertices: Vertex[],
+    labels: Record<Vertex, string>,
     onNeighborRemove: () => void,
     onNeighborChange: (newValue: Vertex) => void,
 }
@@ -13,19 +14,21 @@ interface IInputSelectorProps {
 const InputSelector: React.FC<IInputSelectorProps> = memo(({
     value,
     allVertices,
+    labels,
     onNeighborRemove,
     onNeighborChange,
 }) => (
     <Space>
         <Select
-            style={{ width: 80 }}
+            style={{ minWidth: 80 }}
+            popupMatchSelectWidth={false}
             value={value}
             onChange={onNeighborChange}
         >
             {
                 allVertices.map(vertex => (
                     <Select.Option key={vertex} value={vertex}>
-                        {vertex + 1}
+                        {labels[vertex] ?? vertex + 1}
                     </Select.Option>
 
                 ))
@@ -0,0 +1,86 @@
+import { memo, useEffect, useMemo, useState } from "react";
+import type { Vertex, VertexAttributes } from "../../Types/GraphData.types";
+import { Button, Flex, Input, Select, Space, Typography } from "antd";
+import { MinusOutlined, PlusOutlined } from '@ant-design/icons';
+
+const { Text } = Typography;
+
+interface IVertexMetaEditorProps {
+    vertices: Vertex[],
+    labels: Record<Vertex, string>,
+    attributes: Record<Vertex, VertexAttributes>,
+    onLabelChange: (vertex: Vertex, label: string) => void,
+    onAttributesChange: (vertex: Vertex, attributes: VertexAttributes) => void,
+}
+
+const VertexMetaEditor: React.FC<IVertexMetaEditorProps> = memo(({
+    vertices,
+    labels,
+    attributes,
+    onLabelChange,
+    onAttributesChange,
+}) => {
+    const [vertex, setVertex] = useState<Vertex>(vertices[0] ?? 0);
+
+    useEffect(() => {
+        if (!vertices.includes(vertex)) setVertex(vertices[0] ?? 0);
+    }, [vertices, vertex]);
+
+    const entries = useMemo(
+        () => Object.entries(attributes[vertex] ?? {}).map(([key, value]) => [key, String(value)] as [string, string]),
+        [attributes, vertex]
+    );
+
+    const changeEntries = (newEntries: [string, string][]) => onAttributesChange(vertex, Object.fromEntries(newEntries));
+
+    return (
+        <Space direction="vertical" style={{ width: '100%' }}>
+            <Flex gap={8} align="center">
+                <Text>Вершина:</Text>
+                <Select
+                    style={{ minWidth: 120 }}
+                    value={vertex}
+                    onChange={setVertex}
+                    options={vertices.map(v => ({ value: v, label: labels[v] ?? `V${v + 1}` }))}
+                />
+            </Flex>
+            <Input
+                addonBefore="Название"
+                placeholder={`V${vertex + 1}`}
+                value={labels[vertex] ?? ''}
+                onChange={e => onLabelChange(vertex, e.target.value)}
+            />
+            <Text>Атрибуты:</Text>
+            {
+                entries.map(([key, value], index) => (
+                    <Flex key={index} gap={4}>
+                        <Input
+                            placeholder="Ключ"
+                            value={key}
+                            onChange={e => changeEntries(entries.map((entry, id) => id === index ? [e.target.value, entry[1]] : entry))}
+                        />
+                        <Input
+                            placeholder="Значение"
+                            value={value}
+                            onChange={e => changeEntries(entries.map((entry, id) => id === index ? [entry[0], e.target.value] : entry))}
+                        />
+                        <Button
+                            icon={<MinusOutlined />}
+                            onClick={() => changeEntries(entries.filter((_, id) => id !== index))}
+                            danger
+                        />
+                    </Flex>
+                ))
+            }
+            <Button
+                icon={<PlusOutlined />}
+                disabled={entries.some(([key]) => key === '')}
+                onClick={() => changeEntries([...entries, ['', '']])}
+            >
+                Добавить атрибут
+            </Button>
+        </Space>
+    )
+});
+
+export default VertexMetaEditor;
@@ -0,0 +1,143 @@
+import { useMemo, useState } from "react";
+import { Alert, Card, InputNumber, Segmented, Space, Table, Tag, Typography, type TableColumnProps } from "antd";
+import BasePage from "../BasePage/BasePage";
+import IncListInput from "../../Components/IncListInput/IncListInput";
+import DistanceMatrixInput from "../../Components/DistanceMatrixInput/DistanceMatrixInput";
+import { Graph, GraphArgumentError } from "../../Utils/Graph";
+import type { Vertex } from "../../Types/GraphData.types";
+
+const { Title, Text } = Typography;
+
+type InputKind = 'incList' | 'distanceMatrix';
+
+const inputLabels: Record<InputKind, string> = {
+    incList: 'Список инцидентов',
+    distanceMatrix: 'Матрица расстояний',
+};
+
+type Measure = 'inDegree' | 'outDegree' | 'closeness' | 'betweenness' | 'pageRank';
+
+const measureTitles: Record<Measure, string> = {
+    inDegree: 'Степень захода',
+    outDegree: 'Степень исхода',
+    closeness: 'Близость',
+    betweenness: 'Посредничество',
+    pageRank: 'PageRank',
+};
+
+type IDataSource = { key: Vertex, vertex: Vertex } & Record<Measure, number>;
+
+const CentralityPage: React.FC = () => {
+    const [input, setInput] = useState<InputKind>('incList');
+    const [incListGraph, setIncListGraph] = useState<Graph>(new Graph());
+    const [distanceGraph, setDistanceGraph] = useState<Graph>(new Graph());
+    const [damping, setDamping] = useState<number>(0.85);
+
+    const graph = input === 'incList' ? incListGraph : distanceGraph;
+
+    const { measures, error } = useMemo((): { measures: Record<Measure, Record<Vertex, number>> | null, error: string | null } => {
+        try {
+            return {
+                measures: {
+                    inDegree: graph.degreeCentrality('in'),
+                    outDegree: graph.degreeCentrality('out'),
+                    closeness: graph.closenessCentrality(),
+                    betweenness: graph.betweennessCentrality(),
+                    pageRank: graph.pageRank(damping),
+                },
+                error: null
+            };
+        } catch (e) {
+            if (e instanceof GraphArgumentError) {
+                return { measures: null, error: e.message };
+            }
+            throw e;
+        }
+    }, [graph, damping]);
+
+    const dataSource = useMemo<IDataSource[]>(
+        () => measures
+            ? graph.vertices.map(vertex => ({
+                key: vertex,
+                vertex,
+                ...Object.fromEntries(
+                    (Object.keys(measureTitles) as Measure[]).map(measure => [measure, measures[measure][vertex]])
+                ) as Record<Measure, number>,
+            }))
+            : [],
+        [graph, measures]
+    );
+
+    // Наибольшее значение каждой меры выделяется в таблице
+    const maxima = useMemo(
+        () => Object.fromEntries((Object.keys(measureTitles) as Measure[]).map(measure => [
+            measure,
+            Math.max(...dataSource.map(row => row[measure]))
+        ])) as Record<Measure, number>,
+        [dataSource]
+    );
+
+    const columns: TableColumnProps<IDataSource>[] = [
+        {
+            title: 'Вершина',
+            dataIndex: 'vertex',
+            key: 'vertex',
+            render: (vertex: Vertex) => graph.label(vertex),
+            sorter: (a, b) => a.vertex - b.vertex,
+        },
+        ...(Object.keys(measureTitles) as Measure[]).map(measure => ({
+            title: measureTitles[measure],
+            dataIndex: measure,
+            key: measure,
+            align: 'center' as const,
+            sorter: (a: IDataSource, b: IDataSource) => a[measure] - b[measure],
+            defaultSortOrder: measure === 'pageRank' ? 'descend' as const : undefined,
+            render: (value: number) => (
+                <Tag color={value === maxima[measure] && value > 0 ? 'red-inverse' : 'default'}>
+                    {Number.isInteger(value) ? value : value.toFixed(4)}
+                </Tag>
+            ),
+        })),
+    ];
+
+    return (
+        <BasePage title="Меры центральности">
+            <Space direction="vertical">
+                <Segmented<InputKind>
+                    value={input}
+                    onChange={setInput}
+                    options={(Object.keys(inputLabels) as InputKind[]).map(key => ({
+                        value: key,
+                        label: inputLabels[key],
+                    }))}
+                />
+                <div hidden={input !== 'incList'}>
+                    <IncListInput onGraphChange={setIncListGraph} />
+                </div>
+                <div hidden={input !== 'distanceMatrix'}>
+                    <DistanceMatrixInput onGraphChange={setDistanceGraph} />
+                </div>
+                <Card
+                    title={<Title level={4}>Ранжирование вершин</Title>}
+                    extra={
+                        <Space>
+                            <Text>Коэффициент затухания PageRank</Text>
+                            <InputNumber<number>
+                                value={damping}
+                                onChange={value => setDamping(value ?? 0.85)}
+                                min={0}
+                                max={1}
+                                step={0.05}
+                            />
+                        </Space>
+                    }
+                >
+                    {error && <Alert type="error" message={error} showIcon style={{ marginBottom: 16 }} />}
+                    <Table columns={columns} dataSource={dataSource} pagination={false} bordered />
+                </Card>
+            </Space>
+        </BasePage>
+    )
+}
+
+export default CentralityPage;
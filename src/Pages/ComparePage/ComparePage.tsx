@@ -0,0 +1,342 @@
+import { useMemo, useState } from "react";
+import { Alert, Button, Card, Empty, Flex, Segmented, Space, Switch, Table, Tag, Tooltip, Typography, Upload, message } from "antd";
+import { UploadOutlined } from "@ant-design/icons";
+import BasePage from "../BasePage/BasePage";
+import { Graph, GraphArgumentError, GraphValidationError } from "../../Utils/Graph";
+import { legacyGraphFormat, parseSavedGraph } from "../../Utils/SavedGraph";
+import type { LegacyGraphFormat, LegacyGraphOptions, Vertex } from "../../Types/GraphData.types";
+
+const { Title, Text } = Typography;
+
+type Side = 'before' | 'after';
+
+const sideTitles: Record<Side, string> = {
+    before: 'Исходная модель',
+    after: 'Новая модель',
+};
+
+interface ILoadedGraph {
+    name: string;
+    content: string;
+    legacy: LegacyGraphFormat | null;
+}
+
+const defaultLegacyOptions: Required<LegacyGraphOptions> = { incListSide: 'left', directed: true };
+
+interface IDataSource {
+    key: Vertex;
+    vertex: Vertex;
+    [key: string]: React.ReactNode;
+}
+
+/**
+ * Иерархические уровни графа или сообщение о том, почему их нельзя выделить.
+ */
+function levelsOf(graph: Graph): { levels: Vertex[][], error: string | null } {
+    try {
+        return { levels: graph.HL, error: null };
+    } catch (e) {
+        if (e instanceof GraphValidationError) {
+            return { levels: [], error: e.message };
+        }
+        throw e;
+    }
+}
+
+const ComparePage: React.FC = () => {
+    const [loaded, setLoaded] = useState<Partial<Record<Side, ILoadedGraph>>>({});
+    // Прежние матрица и список инцидентов не хранят ориентированность и сторону инцидентов — их указывает пользователь
+    const [legacyOptions, setLegacyOptions] = useState<Record<Side, Required<LegacyGraphOptions>>>({
+        before: defaultLegacyOptions,
+        after: defaultLegacyOptions,
+    });
+
+    const handleLoad = (side: Side) => (file: File) => {
+        file.text()
+            .then(content => {
+                // Разбор при загрузке сообщает об ошибках файла; выбор стороны и ориентированности на них не влияет
+                parseSavedGraph(content, legacyOptions[side]);
+                setLoaded(prev => ({ ...prev, [side]: { name: file.name, content, legacy: legacyGraphFormat(content) } }));
+                message.success(`${sideTitles[side]} загружена из файла ${file.name}`);
+            })
+            .catch(error => {
+                message.error(error instanceof GraphArgumentError || error instanceof GraphValidationError
+                    ? <span style={{ whiteSpace: 'pre-line' }}>{error.message}</span>
+                    : 'Ошибка чтения файла');
+            });
+        return false;
+    };
+
+    const graphs = useMemo((): Partial<Record<Side, Graph>> => {
+        const graphOf = (side: Side) => loaded[side] && parseSavedGraph(loaded[side].content, legacyOptions[side]);
+        return { before: graphOf('before'), after: graphOf('after') };
+    }, [loaded, legacyOptions]);
+
+    const before = graphs.before;
+    const after = graphs.after;
+
+    const setLegacyOption = (side: Side, options: LegacyGraphOptions) =>
+        setLegacyOptions(prev => ({ ...prev, [side]: { ...prev[side], ...options } }));
+
+    const renderLegacyOptions = (side: Side) => {
+        const legacy = loaded[side]?.legacy;
+        if (legacy !== 'incList' && legacy !== 'matrix') return null;
+        return (
+            <Flex wrap align="center" gap="8px">
+                <Text type="secondary">Файл прежнего формата:</Text>
+                {legacy === 'incList' && (
+                    <Segmented<'left' | 'right'>
+                        value={legacyOptions[side].incListSide}
+                        onChange={incListSide => setLegacyOption(side, { incListSide })}
+                        options={[
+                            { value: 'left', label: 'Левые инциденты' },
+                            { value: 'right', label: 'Правые инциденты' },
+                        ]}
+                    />
+                )}
+                <Switch
+                    checked={legacyOptions[side].directed}
+                    onChange={directed => setLegacyOption(side, { directed })}
+                    checkedChildren="Ориентированный"
+                    unCheckedChildren="Неориентированный"
+                />
+            </Flex>
+        );
+    };
+
+    const diff = useMemo(() => before && after ? before.diff(after) : null, [before, after]);
+
+    const isomorphism = useMemo(() => before && after ? before.isIsomorphicTo(after) : null, [before, after]);
+
+    // Названия берутся из новой модели, для удалённых вершин — из исходной
+    const label = (vertex: Vertex): string =>
+        after?.vertices.includes(vertex) ? after.label(vertex) : before?.label(vertex) ?? `V${vertex + 1}`;
+
+    const vertices = useMemo(
+        () => [...new Set([...(before?.vertices ?? []), ...(after?.vertices ?? [])])].sort((a, b) => a - b),
+        [before, after]
+    );
+
+    const vertexColor = (vertex: Vertex): string | undefined =>
+        diff?.addedVertices.includes(vertex) ? 'blue-inverse'
+        : diff?.removedVertices.includes(vertex) ? 'red-inverse'
+        : undefined;
+
+    const renderVertex = (vertex: Vertex) => {
+        const color = vertexColor(vertex);
+        return color ? <Tag color={color}>{label(vertex)}</Tag> : label(vertex);
+    };
+
+    const columns = [
+        {
+            title: '',
+            dataIndex: 'vertex',
+            key: 'vertex',
+            fixed: 'left' as const,
+            width: 60,
+            render: renderVertex,
+        },
+        ...vertices.map(vertex => ({
+            title: renderVertex(vertex),
+            dataIndex: `col${vertex}`,
+            key: `col${vertex}`,
+            width: 60,
+            align: 'center' as const,
+        })),
+    ];
+
+    const dataSource = useMemo<IDataSource[]>(() => {
+        if (!before || !after || !diff) return [];
+        const arc = (from: Vertex, to: Vertex) => `${from}-${to}`;
+        // Ребро неориентированного графа занимает обе симметричные ячейки;
+        // при смене ориентированности изменения перечислены по дугам
+        const symmetric = !diff.directedChanged && !after.directed;
+        const cells = ({ from, to }: { from: Vertex, to: Vertex }) =>
+            symmetric ? [arc(from, to), arc(to, from)] : [arc(from, to)];
+        const added = new Set(diff.addedEdges.flatMap(cells));
+        const removed = new Set(diff.removedEdges.flatMap(cells));
+        const changed = new Map(diff.changedEdges.flatMap(change => cells(change).map(key => [key, change] as const)));
+
+        return vertices.map(from => ({
+            key: from,
+            vertex: from,
+            ...Object.fromEntries(vertices.map(to => {
+                const key = arc(from, to);
+                const change = changed.get(key);
+                let cell: React.ReactNode;
+                if (change) {
+                    cell = (
+                        <Tooltip title={`Вес изменён: ${change.oldWeight ?? 1} → ${change.newWeight ?? 1}`}>
+                            <Tag color="orange">{change.newWeight ?? 1}</Tag>
+                        </Tooltip>
+                    );
+                } else if (added.has(key)) {
+                    cell = <Tooltip title="Дуга добавлена"><Tag color="blue">+1</Tag></Tooltip>;
+                } else if (removed.has(key)) {
+                    cell = <Tooltip title="Дуга удалена"><Tag color="red">−1</Tag></Tooltip>;
+                } else if (after.hasEdge(from, to)) {
+                    cell = <Tag color="green">1</Tag>;
+                } else {
+                    cell = <Tag>0</Tag>;
+                }
+                return [`col${to}`, cell];
+            })),
+        }));
+    }, [before, after, diff, vertices]);
+
+    const levels = useMemo(
+        () => before && after ? { before: levelsOf(before), after: levelsOf(after) } : null,
+        [before, after]
+    );
+
+    const subsystems = useMemo(() => {
+        if (!before || !after) return null;
+        const of = (graph: Graph) => [...graph.decompose().subGraphs].map(sub => [...sub.vertices]);
+        return { before: of(before), after: of(after) };
+    }, [before, after]);
+
+    const levelOf = (levelList: Vertex[][], vertex: Vertex) => levelList.findIndex(level => level.includes(vertex));
+
+    const renderLevels = (side: Side) => {
+        if (!levels) return null;
+        const { levels: own, error } = levels[side];
+        const other = levels[side === 'before' ? 'after' : 'before'].levels;
+        if (error) return <Alert type="error" message={error} showIcon />;
+        return (
+            <Space direction="vertical">
+                {own.map((level, index) => (
+                    <Flex key={index} wrap align="center" gap="4px">
+                        <Text strong style={{ width: 100 }}>{`Уровень ${index + 1}:`}</Text>
+                        {level.map(vertex => {
+                            const moved = other.length > 0 && levelOf(other, vertex) !== -1 && levelOf(other, vertex) !== index;
+                            return (
+                                <Tooltip key={vertex} title={moved ? `В другой модели — уровень ${levelOf(other, vertex) + 1}` : ''}>
+                                    <Tag color={vertexColor(vertex) ?? (moved ? 'orange' : 'default')}>{label(vertex)}</Tag>
+                                </Tooltip>
+                            );
+                        })}
+                    </Flex>
+                ))}
+            </Space>
+        );
+    };
+
+    const renderSubsystems = (side: Side) => {
+        if (!subsystems) return null;
+        const other = new Set(subsystems[side === 'before' ? 'after' : 'before'].map(sub => sub.join(',')));
+        return (
+            <Space direction="vertical">
+                {subsystems[side].map((sub, index) => {
+                    const unchanged = other.has(sub.join(','));
+                    return (
+                        <Flex key={index} wrap align="center" gap="4px">
+                            <Tooltip title={unchanged ? '' : 'Подсистема изменилась'}>
+                                <Tag color={unchanged ? 'blue-inverse' : 'orange-inverse'}>{`S${index + 1}`}</Tag>
+                            </Tooltip>
+                            {sub.map(vertex => <Tag key={vertex} color={vertexColor(vertex)}>{label(vertex)}</Tag>)}
+                        </Flex>
+                    );
+                })}
+            </Space>
+        );
+    };
+
+    const renderSides = (render: (side: Side) => React.ReactNode) => (
+        <Flex gap="16px" wrap>
+            {(Object.keys(sideTitles) as Side[]).map(side => (
+                <Card key={side} type="inner" title={sideTitles[side]} style={{ flex: 1, minWidth: 300 }}>
+                    {render(side)}
+                </Card>
+            ))}
+        </Flex>
+    );
+
+    return (
+        <BasePage title="Сравнение моделей">
+            <Space direction="vertical" style={{ width: '100%' }}>
+                {renderSides(side => (
+                    <Space direction="vertical">
+                        <Upload accept=".json" showUploadList={false} beforeUpload={handleLoad(side)}>
+                            <Button icon={<UploadOutlined />}>Загрузить JSON</Button>
+                        </Upload>
+                        {loaded[side] && graphs[side]
+                            ? <Text>{`${loaded[side].name}: вершин — ${graphs[side].vertices.length}, рёбер — ${graphs[side].edges.length}`}</Text>
+                            : <Text type="secondary">Файл, сохранённый списком инцидентов или матрицей расстояний</Text>}
+                        {renderLegacyOptions(side)}
+                    </Space>
+                ))}
+                {!diff ? (
+                    <Card><Empty description="Загрузите обе модели для сравнения" /></Card>
+                ) : (
+                    <>
+                        <Card title={<Title level={4}>Изменения</Title>}>
+                            <Space direction="vertical">
+                                <Flex wrap gap="4px">
+                                    <Text strong>Изоморфизм:</Text>
+                                    {isomorphism ? (
+                                        <>
+                                            <Tag color="green-inverse">Модели совпадают с точностью до нумерации вершин</Tag>
+                                            {Object.entries(isomorphism)
+                                                .filter(([from, to]) => Number(from) !== to)
+                                                .map(([from, to]) => (
+                                                    <Tag key={from}>{`${before!.label(Number(from))} → ${after!.label(to)}`}</Tag>
+                                                ))}
+                                        </>
+                                    ) : (
+                                        <Tag>Модели не изоморфны</Tag>
+                                    )}
+                                </Flex>
+                                <Flex wrap gap="4px">
+                                    <Text strong>Ориентированность:</Text>
+                                    {diff.directedChanged
+                                        ? <Tag color="orange-inverse">{after!.directed ? 'Граф стал ориентированным' : 'Граф стал неориентированным'}</Tag>
+                                        : <Text type="secondary">не изменилась</Text>}
+                                </Flex>
+                                <Flex wrap gap="4px">
+                                    <Text strong>Добавлены вершины:</Text>
+                                    {diff.addedVertices.map(vertex => <Tag key={vertex} color="blue-inverse">{label(vertex)}</Tag>)}
+                                    {diff.addedVertices.length === 0 && <Text type="secondary">нет</Text>}
+                                </Flex>
+                                <Flex wrap gap="4px">
+                                    <Text strong>Удалены вершины:</Text>
+                                    {diff.removedVertices.map(vertex => <Tag key={vertex} color="red-inverse">{label(vertex)}</Tag>)}
+                                    {diff.removedVertices.length === 0 && <Text type="secondary">нет</Text>}
+                                </Flex>
+                                <Flex wrap gap="4px">
+                                    <Text strong>Добавлены рёбра:</Text>
+                                    {diff.addedEdges.map((edge, index) => <Tag key={index} color="blue">{`${label(edge.from)} → ${label(edge.to)}`}</Tag>)}
+                                    {diff.addedEdges.length === 0 && <Text type="secondary">нет</Text>}
+                                </Flex>
+                                <Flex wrap gap="4px">
+                                    <Text strong>Удалены рёбра:</Text>
+                                    {diff.removedEdges.map((edge, index) => <Tag key={index} color="red">{`${label(edge.from)} → ${label(edge.to)}`}</Tag>)}
+                                    {diff.removedEdges.length === 0 && <Text type="secondary">нет</Text>}
+                                </Flex>
+                                <Flex wrap gap="4px">
+                                    <Text strong>Изменён вес:</Text>
+                                    {diff.changedEdges.map((change, index) => (
+                                        <Tag key={index} color="orange">
+                                            {`${label(change.from)} → ${label(change.to)}: ${change.oldWeight ?? 1} → ${change.newWeight ?? 1}`}
+                                        </Tag>
+                                    ))}
+                                    {diff.changedEdges.length === 0 && <Text type="secondary">нет</Text>}
+                                </Flex>
+                            </Space>
+                        </Card>
+                        <Card title={<Title level={4}>Матрица смежности</Title>}>
+                            <Table columns={columns} dataSource={dataSource} scroll={{ x: 'max-content' }} pagination={false} bordered />
+                        </Card>
+                        <Card title={<Title level={4}>Иерархические уровни</Title>}>
+                            {renderSides(renderLevels)}
+                        </Card>
+                        <Card title={<Title level={4}>Подсистемы</Title>}>
+                            {renderSides(renderSubsystems)}
+                        </Card>
+                    </>
+                )}
+            </Space>
+        </BasePage>
+    )
+}
+
+export default ComparePage;
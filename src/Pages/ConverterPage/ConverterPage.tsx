@@ -1,8 +1,17 @@
-import { Space, Table, Tabs, Tag, Tooltip, type TabsProps } from "antd"
+import { Alert, Segmented, Space, Table, Tabs, Tag, Tooltip, type TabsProps } from "antd"
 import BasePage from "../BasePage/BasePage"
 import { useEffect, useMemo, useState } from "react"
 import { Graph, GraphValidationError } from "../../Utils/Graph"
 import IncListInput from "../../Components/IncListInput/IncListInput"
+import DistanceMatrixInput from "../../Components/DistanceMatrixInput/DistanceMatrixInput"
+import type { Vertex } from "../../Types/GraphData.types"
+
+type InputKind = 'incList' | 'distanceMatrix';
+
+const inputLabels: Record<InputKind, string> = {
+    incList: 'Список инцидентов',
+    distanceMatrix: 'Матрица расстояний',
+};
 
 interface IDataSource {
     key: string;
@@ -10,8 +19,62 @@ interface IDataSource {
     [key: string]: string;
 }
 
+interface ICellMark {
+    color: string;
+    tooltip: string;
+}
+
+/**
+ * Колонки матрицы отношения на вершинах графа с раскраской ячеек.
+ * @param {Graph} graph Граф, вершины которого подписывают строки и столбцы
+ * @param mark Цвет и подсказка ячейки по её вершинам и значению
+ */
+function relationColumns(graph: Graph, mark: (from: Vertex, to: Vertex, value: number) => ICellMark) {
+    return [
+        {
+            title: '',
+            dataIndex: 'vertex',
+            key: 'vertex',
+            fixed: 'left' as const,
+            width: 60,
+        },
+        ...graph.vertices.map((vertex, index) => ({
+            title: graph.label(vertex),
+            dataIndex: `col${index}`,
+            key: `col${index}`,
+            width: 60,
+            align: 'center' as const,
+            render: (value: string, _: IDataSource, rowIndex: number) => {
+                const { color, tooltip } = mark(graph.vertices[rowIndex], vertex, Number(value));
+                return (
+                    <Tooltip title={tooltip}>
+                        <Tag color={color}>{value}</Tag>
+                    </Tooltip>
+                );
+            }
+        }))
+    ];
+}
+
+/**
+ * Строки матрицы отношения на вершинах графа.
+ * @param {Graph} graph Граф, вершины которого подписывают строки
+ * @param {number[][]} matrix Матрица
+ */
+function relationDataSource(graph: Graph, matrix: number[][]): IDataSource[] {
+    return matrix.map((row, rowIndex) => ({
+        key: `row-${rowIndex}`,
+        vertex: graph.label(graph.vertices[rowIndex]),
+        ...Object.fromEntries(row.map((value, colIndex) => [`col${colIndex}`, String(value)]))
+    }));
+}
+
 const ConverterPage: React.FC = () => {
-    const [graph, setGraph] = useState<Graph>(new Graph({vertices: [], edges: []}));
+    const [input, setInput] = useState<InputKind>('incList');
+    const [incListGraph, setIncListGraph] = useState<Graph>(new Graph({vertices: [], edges: []}));
+    const [distanceGraph, setDistanceGraph] = useState<Graph>(new Graph({vertices: [], edges: []}));
+
+    const graph = input === 'incList' ? incListGraph : distanceGraph;
 
     const adjMatrix = useMemo(() => {
         try {
@@ -35,9 +98,32 @@ const ConverterPage: React.FC = () => {
         }
     }, [graph]);
 
-    function handleGraphChange(newGraph: Graph): void {
-        setGraph(newGraph);
-    }
+    const weightedMatrix = useMemo(
+        () => graph.weighted && graph.vertices.length > 0 ? graph.asWeightedAdjMatrix : null,
+        [graph]
+    );
+
+    const closure = useMemo(
+        () => graph.vertices.length > 0 ? graph.transitiveClosure() : null,
+        [graph]
+    );
+
+    const reachability = useMemo(
+        () => graph.vertices.length > 0 ? graph.reachabilityMatrix : null,
+        [graph]
+    );
+
+    const reduction = useMemo((): { graph: Graph | null, error: string | null } => {
+        if (graph.vertices.length === 0) return { graph: null, error: null };
+        try {
+            return { graph: graph.transitiveReduction(), error: null };
+        } catch (e) {
+            if (e instanceof GraphValidationError) {
+                return { graph: null, error: e.message };
+            }
+            throw e;
+        }
+    }, [graph]);
 
     useEffect(() => console.log('Новые значения графа: ', graph.asObject), [graph]);
 
@@ -49,14 +135,14 @@ const ConverterPage: React.FC = () => {
             fixed: 'left' as const,
             width: 60,
         },
-        ...graph.vertices.map((_, index) => ({
-            title: `V${index + 1}`,
+        ...graph.vertices.map((vertex, index) => ({
+            title: graph.label(vertex),
             dataIndex: `col${index}`,
             key: `col${index}`,
             width: 60,
             align: 'center' as const,
             render: (value: number, record: IDataSource) => (
-                <Tooltip title={value === 1 ? `Дуга: ${record.vertex} → V${index + 1}` : ''}>
+                <Tooltip title={value === 1 ? `Дуга: ${record.vertex} → ${graph.label(vertex)}` : ''}>
                     <Tag color={value === 1 ? 'green' : 'default'}>{value}</Tag>
                 </Tooltip>
             )
@@ -78,7 +164,7 @@ const ConverterPage: React.FC = () => {
             width: 60,
             align: 'center' as const,
             render: (value: number) => (
-                <Tooltip title={value === -1 ? `Начало дуги: e${index + 1}` : value === 1 ? `Конец дуги: e${index + 1}` : ''}>
+                <Tooltip title={!graph.directed && value === 1 ? `Конец ребра: e${index + 1}` : value === -1 ? `Начало дуги: e${index + 1}` : value === 1 ? `Конец дуги: e${index + 1}` : ''}>
                     <Tag color={value === -1 ? 'red' : value === 1 ? 'green' : 'default'}>{value}</Tag>
                 </Tooltip>
             )
@@ -87,15 +173,84 @@ const ConverterPage: React.FC = () => {
 
     const abjDataSource = useMemo(() => adjMatrix!.map((row, rowIndex) => ({
         key: `row-${rowIndex}`,
-        vertex: `V${rowIndex + 1}`,
+        vertex: graph.vertices.length > rowIndex ? graph.label(graph.vertices[rowIndex]) : '',
         ...Object.fromEntries(row.map((value, colIndex) => [`col${colIndex}`, value]))
-    })), [adjMatrix])
+    })), [adjMatrix, graph])
 
     const incDataSource = useMemo(() => incMatrix!.map((row, rowIndex) => ({
         key: `row-${rowIndex}`,
-        vertex: `V${rowIndex + 1}`,
+        vertex: graph.vertices.length > rowIndex ? graph.label(graph.vertices[rowIndex]) : '',
+        ...Object.fromEntries(row.map((value, colIndex) => [`col${colIndex}`, value]))
+    })), [incMatrix, graph])
+
+    const closureColumns = useMemo(() => relationColumns(graph, (from, to, value) =>
+        value === 1 && !graph.hasEdge(from, to)
+            ? { color: 'gold', tooltip: `Добавлена замыканием: ${graph.label(from)} → ${graph.label(to)}` }
+            : value === 1
+            ? { color: 'green', tooltip: `Дуга: ${graph.label(from)} → ${graph.label(to)}` }
+            : { color: 'default', tooltip: '' }
+    ), [graph])
+
+    const reachabilityColumns = useMemo(() => relationColumns(graph, (from, to, value) =>
+        from === to
+            ? { color: 'blue', tooltip: `${graph.label(from)} достижима из себя` }
+            : value === 1 && !graph.hasEdge(from, to)
+            ? { color: 'gold', tooltip: `${graph.label(to)} достижима из ${graph.label(from)} через другие вершины` }
+            : value === 1
+            ? { color: 'green', tooltip: `Дуга: ${graph.label(from)} → ${graph.label(to)}` }
+            : { color: 'default', tooltip: '' }
+    ), [graph])
+
+    const reductionColumns = useMemo(() => relationColumns(graph, (from, to, value) =>
+        value === 0 && graph.hasEdge(from, to)
+            ? { color: 'red', tooltip: `Удалена сокращением: ${graph.label(from)} → ${graph.label(to)}` }
+            : value === 1
+            ? { color: 'green', tooltip: `Дуга: ${graph.label(from)} → ${graph.label(to)}` }
+            : { color: 'default', tooltip: '' }
+    ), [graph])
+
+    const weightedColumns = useMemo(() => [
+        {
+            title: '',
+            dataIndex: 'vertex',
+            key: 'vertex',
+            fixed: 'left' as const,
+            width: 60,
+        },
+        ...graph.vertices.map((vertex, index) => ({
+            title: graph.label(vertex),
+            dataIndex: `col${index}`,
+            key: `col${index}`,
+            width: 60,
+            align: 'center' as const,
+            render: (value: number | null, record: IDataSource) => (
+                <Tooltip title={value !== null ? `Дуга: ${record.vertex} → ${graph.label(vertex)}, вес ${value}` : ''}>
+                    <Tag color={value === null ? 'default' : value < 0 ? 'red' : 'green'}>{value ?? '∞'}</Tag>
+                </Tooltip>
+            )
+        }))
+    ], [graph])
+
+    const weightedDataSource = useMemo(() => (weightedMatrix ?? []).map((row, rowIndex) => ({
+        key: `row-${rowIndex}`,
+        vertex: graph.label(graph.vertices[rowIndex]),
         ...Object.fromEntries(row.map((value, colIndex) => [`col${colIndex}`, value]))
-    })), [incMatrix])
+    })), [weightedMatrix, graph])
+
+    const closureDataSource = useMemo(
+        () => closure ? relationDataSource(graph, closure.asAdjMatrix) : [],
+        [closure, graph]
+    )
+
+    const reachabilityDataSource = useMemo(
+        () => reachability ? relationDataSource(graph, reachability) : [],
+        [reachability, graph]
+    )
+
+    const reductionDataSource = useMemo(
+        () => reduction.graph ? relationDataSource(graph, reduction.graph.asAdjMatrix) : [],
+        [reduction, graph]
+    )
 
     const matrixTabs: TabsProps['items'] = [
         {
@@ -105,21 +260,62 @@ const ConverterPage: React.FC = () => {
                 <Table columns={abjColumns} dataSource={abjDataSource} scroll={{ x: 'max-content'}} pagination={false} bordered/>
             )
         },
+        ...(weightedMatrix ? [{
+            key: 'weighted',
+            label: 'Взвешенная матрица смежности',
+            children: (
+                <Table columns={weightedColumns} dataSource={weightedDataSource} scroll={{ x: 'max-content'}} pagination={false} bordered/>
+            )
+        }] : []),
         {
             key: 'inc',
             label: 'Матрица инциденций',
             children: (
                 <Table columns={incColumns} dataSource={incDataSource} scroll={{ x: 'max-content'}} pagination={false} bordered/>
             )
+        },
+        {
+            key: 'closure',
+            label: 'Транзитивное замыкание',
+            children: (
+                <Table columns={closureColumns} dataSource={closureDataSource} scroll={{ x: 'max-content'}} pagination={false} bordered/>
+            )
+        },
+        {
+            key: 'reachability',
+            label: 'Матрица достижимости',
+            children: (
+                <Table columns={reachabilityColumns} dataSource={reachabilityDataSource} scroll={{ x: 'max-content'}} pagination={false} bordered/>
+            )
+        },
+        {
+            key: 'reduction',
+            label: 'Транзитивное сокращение',
+            children: reduction.error
+                ? <Alert type="error" message={reduction.error} showIcon />
+                : <Table columns={reductionColumns} dataSource={reductionDataSource} scroll={{ x: 'max-content'}} pagination={false} bordered/>
         }
     ]
 
     return (
         <BasePage
-            title="Конвертер левых инцидентов в матрицы смежности и инцидентности"
+            title="Конвертер списка инцидентов и матрицы расстояний в матрицы смежности и инцидентности"
         >
             <Space direction="vertical" style={{ width: '100%' }}>
-                <IncListInput onGraphChange={handleGraphChange}/>
+                <Segmented<InputKind>
+                    value={input}
+                    onChange={setInput}
+                    options={(Object.keys(inputLabels) as InputKind[]).map(key => ({
+                        value: key,
+                        label: inputLabels[key],
+                    }))}
+                />
+                <div hidden={input !== 'incList'}>
+                    <IncListInput onGraphChange={setIncListGraph}/>
+                </div>
+                <div hidden={input !== 'distanceMatrix'}>
+                    <DistanceMatrixInput onGraphChange={setDistanceGraph}/>
+                </div>
                 <Tabs
                     defaultActiveKey="1"
                     items={matrixTabs}
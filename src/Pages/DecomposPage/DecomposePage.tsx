@@ -2,38 +2,47 @@ import type React from "react";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import type { Graph } from "../../Utils/Graph";
 import BasePage from "../BasePage/BasePage";
-import { Card, Flex, Space, Table, Tag, Typography } from "antd";
-import { NodeIndexOutlined } from '@ant-design/icons'
+import { Card, Flex, Space, Table, Tag, Tooltip, Typography } from "antd";
+import { ApartmentOutlined, NodeIndexOutlined, TableOutlined } from '@ant-design/icons'
 import IncListInput from "../../Components/IncListInput/IncListInput";
-import type { Vertex } from "../../Types/GraphData.types";
+import type { Edge, Vertex } from "../../Types/GraphData.types";
 
 const { Title, Text } = Typography;
 
+interface IMatrixDataSource {
+    key: string;
+    subsystem: string;
+    [key: string]: string | number;
+}
+
 const DecomposePage: React.FC = () => {
     const [graph, setGraph] = useState<Graph>();
-    const { subGraphs, links } = useMemo(() => {
-        if (!graph) return { subGraphs: new Set<Graph>(), links: new Set<{ from: number, to: number }>() };
-        return graph.decompose();
+    const { graph: condensation, subsystems } = useMemo(() => {
+        if (!graph) return { graph: undefined, subsystems: [] };
+        return graph.condensation();
     }, [graph]);
 
     const dataSource = useMemo(
-        () => [...subGraphs].map((subgraph, index) => ({
-            subsystem: `S${index + 1}`,
-            vertices: subgraph.vertices,
-            lefInc: [...links].filter(edge => edge.to === index)
-                // .map(edge => edge.to),
+        () => subsystems.map((vertices, index) => ({
+            key: index,
+            subsystem: condensation!.label(index),
+            vertices,
+            lefInc: condensation!.edges.filter(edge => edge.to === index)
         })),
-        [subGraphs, links]
+        [condensation, subsystems]
+    )
+
+    const levels = useMemo(
+        () => condensation && condensation.vertices.length > 0 ? condensation.HL : [],
+        [condensation]
     )
 
     useEffect(() => {
-        console.log("Ребра графа: ", graph?.edges.map(edge => `V${edge.from + 1} → V${edge.to + 1}`).sort());
+        console.log("Ребра графа: ", graph?.edges.map(edge => `${graph.label(edge.from)} → ${graph.label(edge.to)}`).sort());
         console.log("Множество правых инцидентов графа: ", graph?.asRightIncList);
-        console.log("Подграфы: ", subGraphs);
-        console.log("Связи подграфов", links)    
-    }, [graph, subGraphs, links])
+    }, [graph])
 
-    const renderIncList = useCallback((leftInc: { from: number, to: number }[]) => {
+    const renderIncList = useCallback((leftInc: Edge[]) => {
         return leftInc?.length > 0 ? (
             <Space>
                 <Text>&#123;</Text>
@@ -64,17 +73,53 @@ const DecomposePage: React.FC = () => {
             dataIndex: 'vertices',
             key: 'vertices',
             render: (vertices: Vertex[]) => {
-                return vertices.map((node) => (<Tag key={node} color='green-inverse'>V{node + 1}</Tag>))
+                return vertices.map((node) => (<Tag key={node} color='green-inverse'>{graph?.label(node)}</Tag>))
             }
         },
         {
             title: 'Левые инциденты',
             dataIndex: 'lefInc',
             key: 'lefInc',
-            render: (leftInc: { from: number, to: number }[]) => renderIncList(leftInc)
+            render: (leftInc: Edge[]) => renderIncList(leftInc)
         }
     ]
 
+    const matrixColumns = useMemo(
+        () => [
+            {
+                title: '',
+                dataIndex: 'subsystem',
+                key: 'subsystem',
+                fixed: 'left' as const,
+                width: 60,
+            },
+            ...(condensation?.vertices ?? []).map((subsystem, index) => ({
+                title: condensation!.label(subsystem),
+                dataIndex: `col${index}`,
+                key: `col${index}`,
+                width: 60,
+                align: 'center' as const,
+                render: (value: number, record: IMatrixDataSource) => (
+                    <Tooltip title={value === 1 ? `Связь: ${record.subsystem} → ${condensation!.label(subsystem)}` : ''}>
+                        <Tag color={value === 1 ? 'green' : 'default'}>{value}</Tag>
+                    </Tooltip>
+                )
+            }))
+        ],
+        [condensation]
+    )
+
+    const matrixDataSource = useMemo<IMatrixDataSource[]>(
+        () => condensation && condensation.vertices.length > 0
+            ? condensation.asAdjMatrix.map((row, rowIndex) => ({
+                key: `row-${rowIndex}`,
+                subsystem: condensation.label(rowIndex),
+                ...Object.fromEntries(row.map((value, colIndex) => [`col${colIndex}`, value]))
+            }))
+            : [],
+        [condensation]
+    )
+
     return (
         <BasePage title="Топографическая декомпозиция">
             <Space direction="vertical">
@@ -94,6 +139,43 @@ const DecomposePage: React.FC = () => {
                         pagination={false}
                     />
                 </Card>
+                <Card
+                    title = {
+                        <Space>
+                            <TableOutlined style={{ fontSize: '24px', marginRight: '8px'}}/>
+                            <Title level={4}>Матрица смежности конденсации</Title>
+                        </Space>
+                    }
+                >
+                    <Table
+                        columns={matrixColumns}
+                        dataSource={matrixDataSource}
+                        scroll={{ x: 'max-content'}}
+                        pagination={false}
+                        bordered
+                    />
+                </Card>
+                <Card
+                    title = {
+                        <Space>
+                            <ApartmentOutlined style={{ fontSize: '24px', marginRight: '8px'}}/>
+                            <Title level={4}>Иерархические уровни конденсации</Title>
+                        </Space>
+                    }
+                >
+                    {levels.length > 0 ? (
+                        <Space direction="vertical">
+                            {levels.map((level, index) => (
+                                <Flex key={index} align="center" gap='4px'>
+                                    <Text strong style={{ width: 100 }}>{`Уровень ${index + 1}:`}</Text>
+                                    {level.map(subsystem => (
+                                        <Tag key={subsystem} color='blue-inverse'>{condensation!.label(subsystem)}</Tag>
+                                    ))}
+                                </Flex>
+                            ))}
+                        </Space>
+                    ) : <Text type='secondary'>Граф не задан</Text>}
+                </Card>
             </Space>
         </BasePage>
     )
@@ -1,9 +1,9 @@
 import { useCallback, useEffect, useMemo, useState } from "react"
 import IncListInput from "../../Components/IncListInput/IncListInput"
-import { Graph, GraphValidationError } from "../../Utils/Graph"
+import { Graph, GraphCycleError, GraphValidationError } from "../../Utils/Graph"
 import BasePage from "../BasePage/BasePage"
 import type { Edge, Vertex } from "../../Types/GraphData.types"
-import { message, Space, Table, Tag, Tooltip } from "antd"
+import { Alert, Button, message, Space, Table, Tag, Tooltip } from "antd"
 
 interface IDataSource {
     key: string;
@@ -21,17 +21,26 @@ function getKeyByValue(map: Map<Vertex, Vertex>, searchValue: Vertex): Vertex |
 }
 
 const HierarchyPage: React.FC = () => {
-    const [graph, setGraph] = useState<Graph>(new Graph());
+    const [inputGraph, setInputGraph] = useState<Graph>(new Graph());
+    const [removedArcs, setRemovedArcs] = useState<Edge[] | null>(null);
     
     const handleGraphChange = useCallback(
         (newGraph: Graph): void => {
-            setGraph(newGraph);
+            setInputGraph(newGraph);
+            setRemovedArcs(null);
         },
         []
     );
 
-    const { newGraph: reassignGraph, vertexMapping } = useMemo(
-        (): { newGraph: Graph | null, vertexMapping: Map<Vertex, Vertex> | null } => {
+    const graph = useMemo(
+        () => removedArcs
+            ? inputGraph.mutate(draft => removedArcs.forEach(edge => draft.removeEdge(edge)))
+            : inputGraph,
+        [inputGraph, removedArcs]
+    );
+
+    const { newGraph: reassignGraph, vertexMapping, cycle } = useMemo(
+        (): { newGraph: Graph | null, vertexMapping: Map<Vertex, Vertex> | null, cycle: GraphCycleError | null } => {
             const vertexMapping = new Map<Vertex, Vertex>();
             let currentNum = 0;
             
@@ -52,8 +61,9 @@ const HierarchyPage: React.FC = () => {
                     }));
     
                     return {
-                        newGraph: new Graph({ vertices: graph.vertices.map(v => v), edges: newEdges}),
-                        vertexMapping
+                        newGraph: new Graph({ vertices: graph.vertices.map(v => v), edges: newEdges, directed: graph.directed }),
+                        vertexMapping,
+                        cycle: null
                     };
                 }
                 catch (e) {
@@ -61,17 +71,36 @@ const HierarchyPage: React.FC = () => {
                         console.error(e.message)
                         message.error(e.message)
                     }
+                    if (e instanceof GraphCycleError) {
+                        return { newGraph: new Graph(), vertexMapping, cycle: e };
+                    }
                 }
             }
 
             return {
                 newGraph: new Graph(),
-                vertexMapping
+                vertexMapping,
+                cycle: null
             }
         },
         [graph]
     )
 
+    const feedbackArcSet = useMemo(
+        () => cycle && graph.directed ? graph.feedbackArcSet() : null,
+        [graph, cycle]
+    );
+
+    const arcsToString = useCallback(
+        (arcs: Edge[]): string => arcs.map(({ from, to }) => `${graph.label(from)} → ${graph.label(to)}`).join(', '),
+        [graph]
+    );
+
+    const { cycleVertices, cycleArcs } = useMemo(() => ({
+        cycleVertices: new Set(cycle?.cycle ?? []),
+        cycleArcs: new Set(cycle?.edges.map(({ from, to }) => `${from}-${to}`) ?? [])
+    }), [cycle]);
+
     const graphColumns = useMemo(
         () => [
             {
@@ -80,28 +109,34 @@ const HierarchyPage: React.FC = () => {
                 key: 'vertex',
                 fixed: 'left' as const,
                 width: 60,
+                render: (text: string, _: IDataSource, rowIndex: number) => cycleVertices.has(graph.vertices[rowIndex])
+                    ? <Tag color='red-inverse'>{text}</Tag>
+                    : text
             },
-            ...graph.vertices.map((_, index) => ({
-                title: `V${index + 1}`,
+            ...graph.vertices.map((vertex, index) => ({
+                title: cycleVertices.has(vertex) ? <Tag color='red-inverse'>{graph.label(vertex)}</Tag> : graph.label(vertex),
                 dataIndex: `col${index}`,
                 key: `col${index}`,
                 width: 60,
                 align: 'center' as const,
-                render: (value: number, record: IDataSource) => (
-                    <Tooltip title={value === 1 ? `Дуга: ${record.vertex} → V${index + 1}` : ''}>
-                        <Tag color={value === 1 ? 'green' : 'default'}>{value}</Tag>
-                    </Tooltip>
-                )
+                render: (value: number, record: IDataSource, rowIndex: number) => {
+                    const inCycle = cycleArcs.has(`${graph.vertices[rowIndex]}-${vertex}`);
+                    return (
+                        <Tooltip title={inCycle ? `Дуга цикла: ${record.vertex} → ${graph.label(vertex)}` : value === 1 ? `Дуга: ${record.vertex} → ${graph.label(vertex)}` : ''}>
+                            <Tag color={inCycle ? 'red-inverse' : value === 1 ? 'green' : 'default'}>{value}</Tag>
+                        </Tooltip>
+                    );
+                }
             }))
         ],
-        [graph]
+        [graph, cycleVertices, cycleArcs]
     );
 
     const graphAdjMatrix = useMemo(
         () => graph.vertices.length !== 0 && graph.edges.length !== 0
         ? graph.asAdjMatrix.map((row, rowIndex) => ({
             key: `row-${rowIndex}`,
-            vertex: `V${rowIndex + 1}`,
+            vertex: graph.label(graph.vertices[rowIndex]),
             ...Object.fromEntries(row.map((value, colIndex) => [`col${colIndex}`, value]))
         }))
         : [[]],
@@ -118,7 +153,7 @@ const HierarchyPage: React.FC = () => {
                 width: 60,
             },
            ...reassignGraph!.vertices.map((_, index) => ({
-                title: `V${index + 1} (V${getKeyByValue(vertexMapping!, index)! + 1})`,
+                title: `V${index + 1} (${graph.label(getKeyByValue(vertexMapping!, index)!)})`,
                 dataIndex: `col${index}`,
                 key: `col${index}`,
                 width: 60,
@@ -130,18 +165,18 @@ const HierarchyPage: React.FC = () => {
                 )
            }))
         ],
-        [reassignGraph, vertexMapping]
+        [graph, reassignGraph, vertexMapping]
     )
 
     const reassignGraphAdjMatrix = useMemo(
         () => reassignGraph!.vertices.length!== 0 && reassignGraph!.edges.length!== 0
        ? reassignGraph!.asAdjMatrix.map((row, rowIndex) => ({
             key: `row-${rowIndex}`,
-            vertex: `V${rowIndex + 1}`,
+            vertex: `V${rowIndex + 1} (${graph.label(getKeyByValue(vertexMapping!, rowIndex)!)})`,
            ...Object.fromEntries(row.map((value, colIndex) => [`col${colIndex}`, value]))
         }))
         : [[]],
-        [reassignGraph]
+        [graph, reassignGraph, vertexMapping]
     )
 
     useEffect(() => {
@@ -156,6 +191,26 @@ const HierarchyPage: React.FC = () => {
         <BasePage title="Выделение иерархических уровней">
             <Space direction="vertical">
                 <IncListInput onGraphChange={handleGraphChange} />
+                {cycle && <Alert type="error" message={cycle.message} showIcon />}
+                {feedbackArcSet && (
+                    <Alert
+                        type="warning"
+                        message={`Граф станет ациклическим после удаления дуг: ${arcsToString(feedbackArcSet.edges)}`}
+                        description={feedbackArcSet.exact
+                            ? 'Найдено минимальное множество обратных дуг'
+                            : 'Множество найдено эвристикой Идса–Лина–Смита и может быть не минимальным'}
+                        action={<Button type="primary" onClick={() => setRemovedArcs(feedbackArcSet.edges)}>Применить</Button>}
+                        showIcon
+                    />
+                )}
+                {removedArcs && (
+                    <Alert
+                        type="info"
+                        message={`Удалены дуги: ${arcsToString(removedArcs)}`}
+                        action={<Button onClick={() => setRemovedArcs(null)}>Отменить</Button>}
+                        showIcon
+                    />
+                )}
                 <Table columns={graphColumns} dataSource={graphAdjMatrix.length > 1 ? graphAdjMatrix as IDataSource[] : []} scroll={{ x: 'max-content'}} pagination={false} bordered />
                 <Table columns={reassignGraphColumns} dataSource={reassignGraphAdjMatrix.length > 1 ? reassignGraphAdjMatrix as IDataSource[] : []} scroll={{ x: 'max-content'}} pagination={false} bordered />
             </Space>
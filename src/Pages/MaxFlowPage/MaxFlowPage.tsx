@@ -0,0 +1,130 @@
+import { useMemo, useState } from "react";
+import { Alert, Card, Descriptions, Flex, Select, Space, Table, Tag, Typography } from "antd";
+import BasePage from "../BasePage/BasePage";
+import DistanceMatrixInput from "../../Components/DistanceMatrixInput/DistanceMatrixInput";
+import { Graph, GraphArgumentError, GraphValidationError } from "../../Utils/Graph";
+import type { Edge, MaxFlowResult, Vertex } from "../../Types/GraphData.types";
+
+const { Title, Text } = Typography;
+
+interface IFlowDataSource {
+    key: number;
+    edge: Edge;
+    capacity: number;
+    flow: number;
+    inCut: boolean;
+}
+
+const format = (value: number): string => Number.isInteger(value) ? String(value) : value.toFixed(2);
+
+const MaxFlowPage: React.FC = () => {
+    const [graph, setGraph] = useState<Graph>(new Graph());
+    const [source, setSource] = useState<Vertex | null>(null);
+    const [sink, setSink] = useState<Vertex | null>(null);
+
+    // По умолчанию исток — первая вершина, сток — последняя
+    const from = source !== null && graph.vertices.includes(source) ? source : graph.vertices[0];
+    const to = sink !== null && graph.vertices.includes(sink) ? sink : graph.vertices[graph.vertices.length - 1];
+
+    const { result, error } = useMemo((): { result: MaxFlowResult | null, error: string | null } => {
+        if (from === undefined || to === undefined) return { result: null, error: null };
+        try {
+            return { result: graph.maxFlow(from, to), error: null };
+        } catch (e) {
+            if (e instanceof GraphValidationError || e instanceof GraphArgumentError) {
+                return { result: null, error: e.message };
+            }
+            throw e;
+        }
+    }, [graph, from, to]);
+
+    const vertexOptions = graph.vertices.map(vertex => ({ value: vertex, label: graph.label(vertex) }));
+
+    const columns = [
+        {
+            title: 'Ребро',
+            dataIndex: 'edge',
+            key: 'edge',
+            render: (edge: Edge) => `${graph.label(edge.from)} ${graph.directed ? '→' : '—'} ${graph.label(edge.to)}`
+        },
+        { title: 'Пропускная способность', dataIndex: 'capacity', key: 'capacity', render: format },
+        {
+            title: 'Поток',
+            dataIndex: 'flow',
+            key: 'flow',
+            render: (flow: number, { capacity, inCut }: IFlowDataSource) => (
+                <Tag color={inCut ? 'red-inverse' : Math.abs(flow) === capacity && flow !== 0 ? 'orange' : flow !== 0 ? 'green' : 'default'}>
+                    {format(flow)}
+                </Tag>
+            )
+        },
+        {
+            title: '',
+            dataIndex: 'inCut',
+            key: 'inCut',
+            render: (inCut: boolean) => inCut ? <Tag color="red-inverse">Минимальный разрез</Tag> : null
+        }
+    ];
+
+    const dataSource = useMemo<IFlowDataSource[]>(
+        () => result
+            ? graph.edges.map((edge, index) => ({
+                key: index,
+                edge,
+                capacity: edge.weight ?? 1,
+                flow: result.flows[index],
+                inCut: result.cut.includes(edge)
+            }))
+            : [],
+        [graph, result]
+    );
+
+    const renderSide = (vertices: Vertex[], color: string) => (
+        <Flex wrap gap="4px">
+            {vertices.map(vertex => <Tag key={vertex} color={color}>{graph.label(vertex)}</Tag>)}
+        </Flex>
+    );
+
+    return (
+        <BasePage title="Максимальный поток и минимальный разрез">
+            <Space direction="vertical">
+                <DistanceMatrixInput onGraphChange={setGraph} />
+                <Card
+                    title={<Title level={4}>Максимальный поток</Title>}
+                    extra={
+                        <Space>
+                            <Text>Исток</Text>
+                            <Select<Vertex>
+                                value={from}
+                                onChange={setSource}
+                                options={vertexOptions}
+                                style={{ minWidth: 100 }}
+                            />
+                            <Text>Сток</Text>
+                            <Select<Vertex>
+                                value={to}
+                                onChange={setSink}
+                                options={vertexOptions}
+                                style={{ minWidth: 100 }}
+                            />
+                        </Space>
+                    }
+                >
+                    {error && <Alert type="error" message={error} showIcon style={{ marginBottom: 16 }} />}
+                    {result && (
+                        <Space direction="vertical" style={{ width: '100%' }}>
+                            <Descriptions column={1} bordered size="small">
+                                <Descriptions.Item label="Величина потока">{format(result.value)}</Descriptions.Item>
+                                <Descriptions.Item label="Сторона истока">{renderSide(result.sourceSide, 'blue-inverse')}</Descriptions.Item>
+                                <Descriptions.Item label="Сторона стока">{renderSide(result.sinkSide, 'green-inverse')}</Descriptions.Item>
+                            </Descriptions>
+                            <Table columns={columns} dataSource={dataSource} pagination={false} bordered />
+                        </Space>
+                    )}
+                </Card>
+            </Space>
+        </BasePage>
+    )
+}
+
+export default MaxFlowPage;
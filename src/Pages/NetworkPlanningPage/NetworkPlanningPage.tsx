@@ -0,0 +1,138 @@
+import { useCallback, useMemo, useState } from "react";
+import { Alert, Card, Descriptions, Flex, Space, Table, Tag, Typography } from "antd";
+import BasePage from "../BasePage/BasePage";
+import ActivityListInput from "../../Components/ActivityListInput/ActivityListInput";
+import { Graph, GraphArgumentError, GraphValidationError } from "../../Utils/Graph";
+import type { ActivityEstimate, ActivitySchedule, CriticalPathResult, PertResult, Vertex } from "../../Types/GraphData.types";
+
+const { Title, Text } = Typography;
+
+const format = (value: number): string => Number.isInteger(value) ? String(value) : value.toFixed(2);
+
+const NetworkPlanningPage: React.FC = () => {
+    const [graph, setGraph] = useState<Graph>(new Graph());
+    const [estimates, setEstimates] = useState<(ActivityEstimate | undefined)[]>([]);
+
+    const handleActivitiesChange = useCallback((newGraph: Graph, newEstimates: (ActivityEstimate | undefined)[]) => {
+        setGraph(newGraph);
+        setEstimates(newEstimates);
+    }, []);
+
+    const { result, error } = useMemo((): { result: CriticalPathResult | PertResult | null, error: string | null } => {
+        if (graph.vertices.length === 0) return { result: null, error: null };
+        try {
+            return {
+                result: estimates.some(Boolean) ? graph.pert(estimates) : graph.criticalPath(),
+                error: null
+            };
+        } catch (e) {
+            if (e instanceof GraphValidationError || e instanceof GraphArgumentError) {
+                return { result: null, error: e.message };
+            }
+            throw e;
+        }
+    }, [graph, estimates]);
+
+    const eventColumns = [
+        {
+            title: 'Событие',
+            dataIndex: 'vertex',
+            key: 'vertex',
+            render: (vertex: Vertex) => graph.label(vertex)
+        },
+        { title: 'Ранний срок', dataIndex: 'early', key: 'early', render: format },
+        { title: 'Поздний срок', dataIndex: 'late', key: 'late', render: format },
+        {
+            title: 'Резерв',
+            dataIndex: 'slack',
+            key: 'slack',
+            render: (slack: number) => <Tag color={slack === 0 ? 'red' : 'default'}>{format(slack)}</Tag>
+        }
+    ];
+
+    const eventDataSource = useMemo(
+        () => result
+            ? graph.vertices.map(vertex => ({ key: vertex, vertex, ...result.events[vertex] }))
+            : [],
+        [graph, result]
+    );
+
+    const activityColumns = [
+        {
+            title: 'Работа',
+            key: 'edge',
+            render: (_: unknown, { edge }: ActivitySchedule) => `${graph.label(edge.from)} → ${graph.label(edge.to)}`
+        },
+        { title: 'Длительность', dataIndex: 'duration', key: 'duration', render: format },
+        { title: 'Раннее начало', dataIndex: 'earlyStart', key: 'earlyStart', render: format },
+        { title: 'Раннее окончание', dataIndex: 'earlyFinish', key: 'earlyFinish', render: format },
+        { title: 'Позднее начало', dataIndex: 'lateStart', key: 'lateStart', render: format },
+        { title: 'Позднее окончание', dataIndex: 'lateFinish', key: 'lateFinish', render: format },
+        { title: 'Полный резерв', dataIndex: 'totalSlack', key: 'totalSlack', render: format },
+        { title: 'Свободный резерв', dataIndex: 'freeSlack', key: 'freeSlack', render: format },
+        {
+            title: '',
+            dataIndex: 'critical',
+            key: 'critical',
+            render: (critical: boolean) => critical ? <Tag color="red-inverse">Критическая</Tag> : null
+        }
+    ];
+
+    const activityDataSource = useMemo(
+        () => result ? result.activities.map((activity, index) => ({ key: index, ...activity })) : [],
+        [result]
+    );
+
+    return (
+        <BasePage title="Сетевое планирование">
+            <Space direction="vertical">
+                <ActivityListInput onActivitiesChange={handleActivitiesChange} />
+                {error && <Alert type="error" message={error} showIcon />}
+                {result && (
+                    <>
+                        <Card title={<Title level={4}>Критические пути</Title>}>
+                            <Space direction="vertical">
+                                {result.criticalPaths.map((path, index) => (
+                                    <Flex key={index} wrap align="center" gap="4px">
+                                        {path.map((vertex, position) => (
+                                            <Flex key={vertex} align="center" gap="4px">
+                                                {position > 0 && <Text type="secondary">→</Text>}
+                                                <Tag color="red-inverse" style={{ marginRight: 0 }}>{graph.label(vertex)}</Tag>
+                                            </Flex>
+                                        ))}
+                                    </Flex>
+                                ))}
+                                <Descriptions column={1} size="small" bordered>
+                                    <Descriptions.Item label={'variance' in result ? 'Ожидаемая продолжительность проекта' : 'Продолжительность проекта'}>
+                                        {format(result.duration)}
+                                    </Descriptions.Item>
+                                    {'variance' in result && (
+                                        <>
+                                            <Descriptions.Item label="Дисперсия продолжительности">{format(result.variance)}</Descriptions.Item>
+                                            <Descriptions.Item label="Среднеквадратическое отклонение">{format(result.standardDeviation)}</Descriptions.Item>
+                                        </>
+                                    )}
+                                </Descriptions>
+                            </Space>
+                        </Card>
+                        <Card title={<Title level={4}>Сроки событий</Title>}>
+                            <Table columns={eventColumns} dataSource={eventDataSource} pagination={false} bordered size="small" />
+                        </Card>
+                        <Card title={<Title level={4}>Резервы работ</Title>}>
+                            <Table
+                                columns={activityColumns}
+                                dataSource={activityDataSource}
+                                pagination={false}
+                                bordered
+                                size="small"
+                                scroll={{ x: 'max-content' }}
+                            />
+                        </Card>
+                    </>
+                )}
+            </Space>
+        </BasePage>
+    )
+}
+
+export default NetworkPlanningPage;
@@ -1,25 +1,194 @@
-import { Card, Space, Table, Tag, Typography, type TableColumnProps } from "antd"
+import { Alert, Card, Descriptions, Flex, Segmented, Space, Table, Tag, Tooltip, Typography, type TableColumnProps } from "antd"
 import BasePage from "../BasePage/BasePage"
 import DistanceMatrixInput from "../../Components/DistanceMatrixInput/DistanceMatrixInput";
 import { useEffect, useMemo, useState } from "react";
-import { Graph } from "../../Utils/Graph";
+import { Graph, GraphCycleError, GraphValidationError } from "../../Utils/Graph";
+import type { Connectivity, GraphMetrics, ShortestPath, Vertex } from "../../Types/GraphData.types";
 
-const { Title } = Typography;
+const { Title, Text } = Typography;
 
 interface IDataSource {
     key: string | number;
     vertex: string;
-    [key: string]: string | number | React.ReactNode; 
+    [key: string]: string | number | React.ReactNode;
+}
+
+interface ISelectedCell {
+    from: Vertex;
+    to: Vertex;
+}
+
+type Algorithm = 'johnson' | 'floydWarshall' | 'bellmanFord' | 'dijkstra';
+
+interface IAlgorithmResult {
+    distances: Record<Vertex, Record<Vertex, number>>;
+    path: (from: Vertex, to: Vertex) => ShortestPath | null;
+}
+
+type AlgorithmOutcome = { result: IAlgorithmResult, error: null } | { result: null, error: GraphValidationError };
+
+const algorithmLabels: Record<Algorithm, string> = {
+    johnson: 'Джонсон',
+    floydWarshall: 'Флойд–Уоршелл',
+    bellmanFord: 'Беллман–Форд',
+    dijkstra: 'Дейкстра',
+};
+
+const algorithmTitles: Record<Algorithm, string> = {
+    johnson: 'алгоритмом Джонсона',
+    floydWarshall: 'алгоритмом Флойда–Уоршелла',
+    bellmanFord: 'многократным применением алгоритма Беллмана–Форда',
+    dijkstra: 'многократным применением алгоритма Дейкстры',
+};
+
+const connectivityLabels: Record<Connectivity, string> = {
+    strong: 'Сильно связный',
+    unilateral: 'Односторонне связный',
+    weak: 'Слабо связный',
+    disconnected: 'Несвязный',
+};
+
+// Расстояния, найденные разными алгоритмами, могут отличаться на погрешность вещественной арифметики
+const sameDistance = (a: number, b: number): boolean =>
+    a === b || Math.abs(a - b) <= Graph.EPSILON;
+
+const formatDistance = (value: number): string =>
+    value === Infinity ? '∞' : Number.isInteger(value) ? String(value) : value.toFixed(2);
+
+function solve(graph: Graph, algorithm: Algorithm): IAlgorithmResult {
+    switch (algorithm) {
+        case 'johnson': {
+            const { distances, predecessors } = graph.johnsonPaths();
+            return { distances, path: (from, to) => graph.tracePath(predecessors[from], from, to) };
+        }
+        case 'floydWarshall': {
+            const { distances, next } = graph.floydWarshall();
+            return { distances, path: (from, to) => graph.traceNextHops(next, from, to) };
+        }
+        case 'bellmanFord':
+        case 'dijkstra': {
+            const trees = Object.fromEntries(graph.vertices.map(vertex => [
+                vertex,
+                algorithm === 'bellmanFord' ? graph.bellmanFordTree(vertex) : graph.dijkstraTree(vertex)
+            ]));
+            return {
+                distances: Object.fromEntries(graph.vertices.map(vertex => [vertex, trees[vertex].distances])),
+                path: (from, to) => graph.tracePath(trees[from].predecessors, from, to)
+            };
+        }
+    }
+}
+
+function outcome(graph: Graph, algorithm: Algorithm): AlgorithmOutcome {
+    try {
+        return { result: solve(graph, algorithm), error: null };
+    } catch (e) {
+        if (e instanceof GraphValidationError) {
+            return { result: null, error: e };
+        }
+        throw e;
+    }
 }
 
 const ShortestPathsPage: React.FC = () => {
     const [graph, setGraph] = useState<Graph>(new Graph());
+    const [selected, setSelected] = useState<ISelectedCell | null>(null);
+    const [algorithm, setAlgorithm] = useState<Algorithm>('johnson');
 
     useEffect(() => console.log('Данные графа: ', graph.asObject), [graph]);
 
-    const shortestPaths = useMemo(() => graph.johnson(), [graph]);
+    useEffect(() => setSelected(null), [graph]);
+
+    const outcomes = useMemo((): Record<Algorithm, AlgorithmOutcome> => {
+        const bellmanFord = outcome(graph, 'bellmanFord');
+        return {
+            johnson: outcome(graph, 'johnson'),
+            floydWarshall: outcome(graph, 'floydWarshall'),
+            bellmanFord,
+            // При цикле отрицательного веса алгоритм Дейкстры не завершается
+            dijkstra: bellmanFord.error
+                ? { result: null, error: bellmanFord.error }
+                : outcome(graph, 'dijkstra'),
+        };
+    }, [graph]);
+
+    const { result: shortestPaths, error } = outcomes[algorithm];
+
+    const cycle = error instanceof GraphCycleError ? error : null;
 
-    const columns = useMemo<TableColumnProps[]>(() => {
+    const { cycleVertices, cycleArcs } = useMemo(() => ({
+        cycleVertices: new Set(cycle?.cycle ?? []),
+        cycleArcs: new Map(cycle?.edges.map(edge => [`${edge.from}-${edge.to}`, edge.weight ?? 1]) ?? [])
+    }), [cycle]);
+
+    const mismatches = useMemo(() => {
+        const results = Object.entries(outcomes)
+            .filter(([, { result }]) => result !== null)
+            .map(([key, { result }]) => [key as Algorithm, result!] as const);
+        const cells = new Map<string, [Algorithm, number][]>();
+        for (const from of graph.vertices) {
+            for (const to of graph.vertices) {
+                const values = results.map(([key, result]) => [key, result.distances[from][to]] as [Algorithm, number]);
+                if (values.some(([, value]) => !sameDistance(value, values[0][1]))) {
+                    cells.set(`${from}-${to}`, values);
+                }
+            }
+        }
+        return cells;
+    }, [graph, outcomes]);
+
+    const metrics = useMemo((): GraphMetrics | null => {
+        if (graph.vertices.length === 0) return null;
+        try {
+            return graph.metrics();
+        } catch (e) {
+            if (e instanceof GraphValidationError) return null;
+            throw e;
+        }
+    }, [graph]);
+
+    const metricsColumns = [
+        {
+            title: 'Вершина',
+            dataIndex: 'vertex',
+            key: 'vertex',
+            render: (vertex: Vertex) => graph.label(vertex),
+        },
+        { title: 'Полустепень захода', dataIndex: 'inDegree', key: 'inDegree' },
+        { title: 'Полустепень исхода', dataIndex: 'outDegree', key: 'outDegree' },
+        {
+            title: 'Эксцентриситет',
+            dataIndex: 'eccentricity',
+            key: 'eccentricity',
+            render: (eccentricity: number) => formatDistance(eccentricity),
+        },
+    ];
+
+    const metricsDataSource = useMemo(
+        () => metrics
+            ? graph.vertices.map(vertex => ({
+                key: vertex,
+                vertex,
+                inDegree: metrics.inDegrees[vertex],
+                outDegree: metrics.outDegrees[vertex],
+                eccentricity: metrics.eccentricities[vertex],
+            }))
+            : [],
+        [graph, metrics]
+    );
+
+    const renderVertices = (vertices: Vertex[], color: string) => (
+        <Flex wrap gap="4px">
+            {vertices.map(vertex => <Tag key={vertex} color={color}>{graph.label(vertex)}</Tag>)}
+        </Flex>
+    );
+
+    const selectedPath = useMemo<ShortestPath | null>(() => {
+        if (!selected || !shortestPaths) return null;
+        return shortestPaths.path(selected.from, selected.to);
+    }, [shortestPaths, selected]);
+
+    const columns = useMemo<TableColumnProps<IDataSource>[]>(() => {
         if (!graph?.vertices) return []
 
         return [
@@ -30,40 +199,92 @@ const ShortestPathsPage: React.FC = () => {
                 width: 100,
                 fixed: 'left',
                 align: 'center' as const,
-                render: (_: unknown, __: unknown, index: number) => `V${index + 1}`,
+                render: (_: unknown, record: IDataSource) => cycleVertices.has(record.key as Vertex)
+                    ? <Tag color="red-inverse">{record.vertex}</Tag>
+                    : record.vertex,
             },
             ...graph.vertices.map((vertex, index) => ({
-                title: `V${vertex + 1}`,
+                title: cycleVertices.has(vertex) ? <Tag color="red-inverse">{graph.label(vertex)}</Tag> : graph.label(vertex),
                 dataIndex: `col${index}`,
                 key: `col${index}`,
                 width: 80,
                 align: 'center' as const,
+                onCell: (record: IDataSource) => ({
+                    onClick: () => setSelected({ from: record.key as Vertex, to: vertex }),
+                    style: {
+                        cursor: 'pointer',
+                        background: selected?.from === record.key && selected?.to === vertex ? '#e6f4ff' : undefined,
+                    },
+                }),
             })),
         ];
-    }, [graph])
+    }, [graph, selected, cycleVertices])
 
     const dataSource = useMemo<IDataSource[]>(() => {
         if (!graph?.vertices) return [];
 
         return graph.vertices.map((vertex, index) => {
-            const distances = shortestPaths[vertex] || {};
+            const distances = shortestPaths?.distances[vertex] || {};
             const row: IDataSource = {
                 key: vertex,
-                vertex: `V${index + 1}`,
+                vertex: graph.label(vertex),
             };
 
             graph.vertices.forEach((to, idx) => {
                 const distance = distances[to];
-                row[`col${idx}`] = distance === Infinity 
+                const cell = distance === undefined || distance === Infinity
                     ? <Tag>∞</Tag>
-                    : index === idx 
+                    : index === idx
                     ? <Tag>0</Tag>
-                    : <Tag color="green">{distance}</Tag>; 
+                    : <Tag color="green">{distance}</Tag>;
+                const mismatch = mismatches.get(`${vertex}-${to}`);
+                const cycleArc = cycleArcs.get(`${vertex}-${to}`);
+                row[`col${idx}`] = cycleArc !== undefined
+                    ? (
+                        <Tooltip title={`Дуга цикла отрицательного веса: ${graph.label(vertex)} → ${graph.label(to)}`}>
+                            <Tag color="red-inverse">{cycleArc}</Tag>
+                        </Tooltip>
+                    )
+                    : mismatch
+                    ? (
+                        <Tooltip
+                            title={mismatch.map(([key, value]) => (
+                                <div key={key}>{`${algorithmLabels[key]}: ${value === Infinity ? '∞' : value}`}</div>
+                            ))}
+                        >
+                            <Tag color="red-inverse">{distance === undefined || distance === Infinity ? '∞' : distance}</Tag>
+                        </Tooltip>
+                    )
+                    : cell;
             });
 
             return row;
         });
-    }, [graph, shortestPaths]);
+    }, [graph, shortestPaths, mismatches, cycleArcs]);
+
+    const renderPath = () => {
+        if (!selected) {
+            return <Text type="secondary">Выберите ячейку матрицы, чтобы увидеть путь</Text>;
+        }
+        if (!selectedPath) {
+            return <Text type="secondary">{`Путь из ${graph.label(selected.from)} в ${graph.label(selected.to)} не существует`}</Text>;
+        }
+        return (
+            <Space direction="vertical">
+                <Flex wrap align="center" gap="4px">
+                    {selectedPath.vertices.map((vertex, index) => (
+                        <Flex key={`${vertex}-${index}`} align="center" gap="4px">
+                            {index > 0 && (
+                                <Text type="secondary">{`—${selectedPath.edges[index - 1].weight ?? 1}→`}</Text>
+                            )}
+                            <Tag color="blue-inverse" style={{ marginRight: 0 }}>{graph.label(vertex)}</Tag>
+                        </Flex>
+                    ))}
+                </Flex>
+                <Text>Суммарный вес: <Text strong>{selectedPath.weight}</Text></Text>
+            </Space>
+        );
+    }
 
     return (
         <BasePage title="Поиск кратчайших путей">
@@ -71,9 +292,28 @@ const ShortestPathsPage: React.FC = () => {
                 <DistanceMatrixInput onGraphChange={setGraph} />
                 <Card
                     title={
-                        <Title level={4}>Матрица кратчайших путей, полученная алгоритмом Джонсона</Title>
+                        <Title level={4}>{`Матрица кратчайших путей, полученная ${algorithmTitles[algorithm]}`}</Title>
+                    }
+                    extra={
+                        <Segmented<Algorithm>
+                            value={algorithm}
+                            onChange={setAlgorithm}
+                            options={(Object.keys(algorithmLabels) as Algorithm[]).map(key => ({
+                                value: key,
+                                label: algorithmLabels[key],
+                            }))}
+                        />
                     }
                 >
+                    {error && <Alert type="error" message={error.message} showIcon style={{ marginBottom: 16 }} />}
+                    {mismatches.size > 0 && (
+                        <Alert
+                            type="warning"
+                            message={`Результаты алгоритмов расходятся в ячейках: ${mismatches.size}. Такие ячейки выделены красным.`}
+                            showIcon
+                            style={{ marginBottom: 16 }}
+                        />
+                    )}
                     <Table
                         columns={columns}
                         dataSource={dataSource}
@@ -82,9 +322,35 @@ const ShortestPathsPage: React.FC = () => {
                         bordered
                     />
                 </Card>
+                <Card title={<Title level={4}>Метрики графа</Title>}>
+                    {metrics ? (
+                        <Space direction="vertical" style={{ width: '100%' }}>
+                            <Descriptions column={2} bordered size="small">
+                                <Descriptions.Item label="Связность">{connectivityLabels[metrics.connectivity]}</Descriptions.Item>
+                                <Descriptions.Item label="Плотность">{metrics.density.toFixed(3)}</Descriptions.Item>
+                                <Descriptions.Item label="Радиус">{formatDistance(metrics.radius)}</Descriptions.Item>
+                                <Descriptions.Item label="Диаметр">{formatDistance(metrics.diameter)}</Descriptions.Item>
+                                <Descriptions.Item label="Центр">{renderVertices(metrics.center, 'blue-inverse')}</Descriptions.Item>
+                                <Descriptions.Item label="Периферия">{renderVertices(metrics.periphery, 'purple-inverse')}</Descriptions.Item>
+                            </Descriptions>
+                            <Table columns={metricsColumns} dataSource={metricsDataSource} pagination={false} bordered size="small" />
+                        </Space>
+                    ) : (
+                        <Text type="secondary">Метрики не определены: граф пуст или содержит цикл отрицательного веса</Text>
+                    )}
+                </Card>
+                <Card
+                    title={
+                        <Title level={4}>
+                            {selected ? `Кратчайший путь ${graph.label(selected.from)} → ${graph.label(selected.to)}` : 'Кратчайший путь'}
+                        </Title>
+                    }
+                >
+                    {renderPath()}
+                </Card>
             </Space>
         </BasePage>
     )
 }
 
-export default ShortestPathsPage;
\ No newline at end of file
+export default ShortestPathsPage;
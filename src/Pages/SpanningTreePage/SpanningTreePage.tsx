@@ -0,0 +1,120 @@
+import { useMemo, useState } from "react";
+import { Alert, Card, Descriptions, Flex, Segmented, Space, Table, Tag, Typography } from "antd";
+import BasePage from "../BasePage/BasePage";
+import DistanceMatrixInput from "../../Components/DistanceMatrixInput/DistanceMatrixInput";
+import { Graph } from "../../Utils/Graph";
+import type { Edge, SpanningForest } from "../../Types/GraphData.types";
+
+const { Title, Text } = Typography;
+
+type Algorithm = 'prim' | 'kruskal';
+
+const algorithmLabels: Record<Algorithm, string> = {
+    prim: 'Прим',
+    kruskal: 'Краскал',
+};
+
+const algorithmTitles: Record<Algorithm, string> = {
+    prim: 'Алгоритм Прима',
+    kruskal: 'Алгоритм Краскала',
+};
+
+interface IStepDataSource {
+    key: number;
+    step: number;
+    prim?: Edge;
+    kruskal?: Edge;
+}
+
+const SpanningTreePage: React.FC = () => {
+    const [graph, setGraph] = useState<Graph>(new Graph());
+    const [algorithm, setAlgorithm] = useState<Algorithm>('prim');
+
+    const forests = useMemo((): Record<Algorithm, SpanningForest> => ({
+        prim: graph.minimumSpanningTree('prim'),
+        kruskal: graph.minimumSpanningTree('kruskal'),
+    }), [graph]);
+
+    const { edges, weight, trees } = forests[algorithm];
+
+    const renderEdge = (edge?: Edge) => edge
+        ? <Tag color="green">{`${graph.label(edge.from)} — ${graph.label(edge.to)} (${edge.weight ?? 1})`}</Tag>
+        : null;
+
+    const stepColumns = [
+        { title: 'Шаг', dataIndex: 'step', key: 'step', width: 60 },
+        ...(Object.keys(algorithmLabels) as Algorithm[]).map(key => ({
+            title: algorithmTitles[key],
+            dataIndex: key,
+            key,
+            render: renderEdge,
+        })),
+    ];
+
+    const stepDataSource = useMemo<IStepDataSource[]>(
+        () => Array.from(
+            { length: Math.max(forests.prim.edges.length, forests.kruskal.edges.length) },
+            (_, index) => ({
+                key: index,
+                step: index + 1,
+                prim: forests.prim.edges[index],
+                kruskal: forests.kruskal.edges[index],
+            })
+        ),
+        [forests]
+    );
+
+    return (
+        <BasePage title="Минимальное остовное дерево">
+            <Space direction="vertical">
+                <DistanceMatrixInput onGraphChange={setGraph} />
+                <Card
+                    title={
+                        <Title level={4}>{trees.length > 1 ? 'Минимальный остовный лес' : 'Минимальное остовное дерево'}</Title>
+                    }
+                    extra={
+                        <Segmented<Algorithm>
+                            value={algorithm}
+                            onChange={setAlgorithm}
+                            options={(Object.keys(algorithmLabels) as Algorithm[]).map(key => ({
+                                value: key,
+                                label: algorithmLabels[key],
+                            }))}
+                        />
+                    }
+                >
+                    {graph.directed && graph.edges.length > 0 && (
+                        <Alert
+                            type="info"
+                            message="Дуги рассматриваются как неориентированные рёбра"
+                            showIcon
+                            style={{ marginBottom: 16 }}
+                        />
+                    )}
+                    <Descriptions column={2} style={{ marginBottom: 16 }}>
+                        <Descriptions.Item label="Суммарный вес">{weight}</Descriptions.Item>
+                        <Descriptions.Item label="Число деревьев">{trees.length}</Descriptions.Item>
+                    </Descriptions>
+                    <Space direction="vertical">
+                        {trees.map((tree, index) => (
+                            <Flex key={index} wrap align="center" gap="4px">
+                                <Text strong>{`Дерево ${index + 1}:`}</Text>
+                                {tree.map(vertex => <Tag key={vertex} color="blue-inverse">{graph.label(vertex)}</Tag>)}
+                                {edges
+                                    .filter(edge => tree.includes(edge.from))
+                                    .map((edge, edgeIndex) => <span key={edgeIndex}>{renderEdge(edge)}</span>)}
+                            </Flex>
+                        ))}
+                    </Space>
+                </Card>
+                <Card title={<Title level={4}>Порядок принятия рёбер</Title>}>
+                    {stepDataSource.length > 0
+                        ? <Table columns={stepColumns} dataSource={stepDataSource} pagination={false} bordered />
+                        : <Text type="secondary">Граф не содержит рёбер между различными вершинами</Text>}
+                </Card>
+            </Space>
+        </BasePage>
+    )
+}
+
+export default SpanningTreePage;
@@ -6,7 +6,175 @@ export type Edge = {
     readonly weight?: number;
 }
 
+export type VertexAttributes = Record<string, string | number | boolean>;
+
 export interface IGraphData {
     vertices: Vertex[];
     edges: Edge[];
+    directed?: boolean;
+    labels?: Record<Vertex, string>;
+    attributes?: Record<Vertex, VertexAttributes>;
+}
+
+
+export type ShortestPathTree = {
+    readonly distances: Record<Vertex, number>;
+    readonly predecessors: Record<Vertex, Vertex | null>;
+}
+
+export type ShortestPath = {
+    readonly vertices: Vertex[];
+    readonly edges: Edge[];
+    readonly weight: number;
+}
+
+export type AllPairsShortestPaths = {
+    readonly distances: Record<Vertex, Record<Vertex, number>>;
+    readonly predecessors: Record<Vertex, Record<Vertex, Vertex | null>>;
+}
+
+export type FloydWarshallResult = {
+    readonly distances: Record<Vertex, Record<Vertex, number>>;
+    readonly next: Record<Vertex, Record<Vertex, Vertex | null>>;
+}
+
+export type EventTimes = {
+    readonly early: number;
+    readonly late: number;
+    readonly slack: number;
+}
+
+export type ActivitySchedule = {
+    readonly edge: Edge;
+    readonly duration: number;
+    readonly earlyStart: number;
+    readonly earlyFinish: number;
+    readonly lateStart: number;
+    readonly lateFinish: number;
+    readonly totalSlack: number;
+    readonly freeSlack: number;
+    readonly critical: boolean;
+}
+
+export type CriticalPathResult = {
+    readonly duration: number;
+    readonly events: Record<Vertex, EventTimes>;
+    readonly activities: ActivitySchedule[];
+    readonly criticalPaths: Vertex[][];
+}
+
+export type ActivityEstimate = {
+    readonly optimistic: number;
+    readonly mostLikely: number;
+    readonly pessimistic: number;
+}
+
+export type PertResult = CriticalPathResult & {
+    readonly expectedDurations: number[];
+    readonly variances: number[];
+    readonly variance: number;
+    readonly standardDeviation: number;
+}
+
+export type FeedbackArcSet = {
+    readonly edges: Edge[];
+    readonly exact: boolean;
+}
+
+export type SpanningForest = {
+    readonly edges: Edge[];
+    readonly weight: number;
+    readonly trees: Vertex[][];
+}
+
+export type MaxFlowResult = {
+    readonly value: number;
+    readonly flows: number[];
+    readonly sourceSide: Vertex[];
+    readonly sinkSide: Vertex[];
+    readonly cut: Edge[];
+}
+
+export type Connectivity = 'strong' | 'unilateral' | 'weak' | 'disconnected';
+
+export type GraphMetrics = {
+    readonly inDegrees: Record<Vertex, number>;
+    readonly outDegrees: Record<Vertex, number>;
+    readonly density: number;
+    readonly eccentricities: Record<Vertex, number>;
+    readonly radius: number;
+    readonly diameter: number;
+    readonly center: Vertex[];
+    readonly periphery: Vertex[];
+    readonly connectivity: Connectivity;
+}
+
+export type EdgeChange = {
+    readonly from: Vertex;
+    readonly to: Vertex;
+    readonly oldWeight?: number;
+    readonly newWeight?: number;
+}
+
+export type GraphDiff = {
+    readonly addedVertices: Vertex[];
+    readonly removedVertices: Vertex[];
+    readonly addedEdges: Edge[];
+    readonly removedEdges: Edge[];
+    readonly changedEdges: EdgeChange[];
+    readonly directedChanged: boolean;
+}
+
+export type DotExportOptions = {
+    readonly name?: string;
+    readonly groups?: 'none' | 'levels' | 'subsystems';
+}
+
+export type DelimitedOptions = {
+    readonly delimiter?: string;
+    readonly directed?: boolean;
+}
+
+export type MatrixTableKind = 'adjacency' | 'distance';
+
+export type GraphDocumentVertex = {
+    readonly id: Vertex;
+    readonly label?: string;
+    readonly attributes?: VertexAttributes;
+}
+
+export type GraphDocumentMetadata = {
+    readonly name?: string;
+    readonly description?: string;
+    readonly createdAt?: string;
+    readonly source?: string;
+}
+
+export type GraphDocument = {
+    readonly version: number;
+    readonly directed: boolean;
+    readonly vertices: GraphDocumentVertex[];
+    readonly edges: Edge[];
+    readonly metadata?: GraphDocumentMetadata;
+}
+
+export type GraphDocumentIssue = {
+    readonly path: string;
+    readonly message: string;
+}
+
+export type LegacyGraphFormat = 'matrix' | 'graph' | 'incList';
+
+export type LegacyGraphOptions = {
+    readonly incListSide?: 'left' | 'right';
+    readonly directed?: boolean;
+}
+
+export type ActivityRow = {
+    readonly from: number | null;
+    readonly to: number | null;
+    readonly duration: number | null;
+    readonly optimistic: number | null;
+    readonly mostLikely: number | null;
+    readonly pessimistic: number | null;
 }
@@ -0,0 +1,29 @@
+import { buildActivityNetwork } from "./ActivityNetwork";
+import type { ActivityRow } from "../Types/GraphData.types";
+
+const row = (from: number | null, to: number | null, duration: number | null = 1): ActivityRow => ({
+    from, to, duration, optimistic: null, mostLikely: null, pessimistic: null
+});
+
+describe("ActivityNetwork", () => {
+    it("строит граф событий по заполненным строкам", () => {
+        const { graph, estimates, invalidRows } = buildActivityNetwork([row(1, 2, 3), row(2, 3, null), row(null, 3)], false);
+        expect(graph.vertices).toEqual([0, 1, 2]);
+        expect(graph.edges).toEqual([{ from: 0, to: 1, weight: 3 }, { from: 1, to: 2, weight: 0 }]);
+        expect(estimates).toEqual([undefined, undefined]);
+        expect(invalidRows).toEqual([]);
+    });
+
+    it("пропускает и отмечает строки с дробными и неположительными номерами событий", () => {
+        const { graph, invalidRows } = buildActivityNetwork([row(1, 2), row(1.5, 3), row(2, 0), row(-1, null), row(2, 3)], false);
+        expect(invalidRows).toEqual([1, 2, 3]);
+        expect(graph.edges).toEqual([{ from: 0, to: 1, weight: 1 }, { from: 1, to: 2, weight: 1 }]);
+        expect(() => graph.criticalPath()).not.toThrow();
+    });
+
+    it("передаёт оценки PERT только при включённом режиме", () => {
+        const estimated = { ...row(1, 2), optimistic: 1, mostLikely: 2, pessimistic: 6 };
+        expect(buildActivityNetwork([estimated], true).estimates).toEqual([{ optimistic: 1, mostLikely: 2, pessimistic: 6 }]);
+        expect(buildActivityNetwork([estimated], false).estimates).toEqual([undefined]);
+    });
+});
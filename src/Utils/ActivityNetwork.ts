@@ -0,0 +1,42 @@
+import { Graph } from "./Graph";
+import type { ActivityEstimate, ActivityRow, Edge } from "../Types/GraphData.types";
+
+/**
+ * Сетевой график, построенный по строкам списка работ.
+ */
+export interface IActivityNetwork {
+    /** Граф событий (вершина i — событие с номером i + 1) и работ */
+    graph: Graph;
+    /** Оценки PERT работ в порядке рёбер графа */
+    estimates: (ActivityEstimate | undefined)[];
+    /** Индексы строк, номера событий которых не являются целыми положительными числами */
+    invalidRows: number[];
+}
+
+const isEventNumber = (value: number | null): value is number =>
+    value !== null && Number.isInteger(value) && value >= 1;
+
+/**
+ * Строит сетевой график по строкам списка работ. Незаполненные строки пропускаются,
+ * строки с дробными или неположительными номерами событий пропускаются и отмечаются как ошибочные.
+ * @param {ActivityRow[]} rows Строки списка работ (события нумеруются с 1)
+ * @param {boolean} pertEnabled Учитывать ли оценки PERT
+ * @returns {IActivityNetwork} Граф, оценки работ и индексы ошибочных строк
+ */
+export function buildActivityNetwork(rows: ActivityRow[], pertEnabled: boolean): IActivityNetwork {
+    const invalidRows = rows.flatMap(({ from, to }, index) =>
+        (from !== null && !isEventNumber(from)) || (to !== null && !isEventNumber(to)) ? [index] : []);
+    const complete = rows.filter(({ from, to }) => isEventNumber(from) && isEventNumber(to));
+    const eventCount = Math.max(0, ...complete.flatMap(({ from, to }) => [from!, to!]));
+    const edges: Edge[] = complete.map(({ from, to, duration }) => ({ from: from! - 1, to: to! - 1, weight: duration ?? 0 }));
+    const estimates = complete.map(({ optimistic, mostLikely, pessimistic }) =>
+        pertEnabled && optimistic !== null && mostLikely !== null && pessimistic !== null
+            ? { optimistic, mostLikely, pessimistic }
+            : undefined
+    );
+    return {
+        graph: new Graph({ vertices: Array.from({ length: eventCount }, (_, i) => i), edges }),
+        estimates,
+        invalidRows
+    };
+}
@@ -0,0 +1,95 @@
+/**
+ * Разбор и запись текстовых таблиц с разделителями (CSV, TSV), в том числе скопированных из электронных таблиц.
+ * Поля в двойных кавычках могут содержать разделитель, перевод строки и удвоенные кавычки.
+ * Пустые строки пропускаются.
+ */
+
+/**
+ * Разбирает таблицу с разделителями.
+ * @param {string} text Текст таблицы
+ * @param {string} delimiter Разделитель полей
+ * @returns {string[][]} Строки таблицы
+ * @throws {SyntaxError} Если разделитель некорректен или кавычки не закрыты
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+    if (delimiter.length !== 1 || delimiter === '"' || delimiter === '\n' || delimiter === '\r') {
+        throw new SyntaxError(`Некорректный разделитель «${delimiter}»`);
+    }
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    let line = 1;
+
+    const endRow = () => {
+        row.push(field);
+        if (row.length > 1 || row[0].trim() !== '') rows.push(row);
+        row = [];
+        field = '';
+    };
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                if (char === '\n') line++;
+                field += char;
+            }
+        } else if (char === '"' && field.trim() === '') {
+            quoted = true;
+            field = '';
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            endRow();
+            line++;
+        } else {
+            field += char;
+        }
+    }
+    if (quoted) throw new SyntaxError(`Незакрытые кавычки (строка ${line})`);
+    endRow();
+    return rows;
+}
+
+/**
+ * Записывает таблицу с разделителями, заключая в кавычки поля с разделителем, кавычками или переводом строки.
+ * @param {string[][]} rows Строки таблицы
+ * @param {string} delimiter Разделитель полей
+ * @returns {string} Текст таблицы
+ */
+export function formatDelimited(rows: string[][], delimiter: string): string {
+    const quote = (field: string) =>
+        field.includes(delimiter) || /["\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+    return rows.map(row => row.map(quote).join(delimiter)).join('\n') + '\n';
+}
+
+/**
+ * Разбирает числовую таблицу (матрицу), например блок ячеек, скопированный из электронной таблицы.
+ * Пустые ячейки, «∞», «inf» и «-» означают отсутствие значения; допускается десятичная запятая,
+ * если разделитель — не запятая. Короткие строки дополняются пустыми ячейками.
+ * @param {string} text Текст таблицы
+ * @param {string} [delimiter='\t'] Разделитель ячеек
+ * @returns {(number | null)[][]} Матрица, null — пустая ячейка
+ * @throws {SyntaxError} Если ячейка не является числом
+ */
+export function parseNumberTable(text: string, delimiter: string = '\t'): (number | null)[][] {
+    const rows = parseDelimited(text, delimiter);
+    const width = Math.max(0, ...rows.map(row => row.length));
+    return rows.map((row, rowIndex) => Array.from({ length: width }, (_, column) => {
+        const cell = (row[column] ?? '').trim();
+        if (/^(|∞|[+]?inf(inity)?|-)$/i.test(cell)) return null;
+        const value = Number(delimiter !== ',' ? cell.replace(',', '.') : cell);
+        if (Number.isNaN(value)) {
+            throw new SyntaxError(`Ячейка «${cell}» в строке ${rowIndex + 1}, столбце ${column + 1} не является числом`);
+        }
+        return value;
+    }));
+}
@@ -0,0 +1,241 @@
+/**
+ * Разбор и запись языка Graphviz DOT.
+ * Поддерживается распространённое подмножество: операторы вершин и рёбер, цепочки рёбер,
+ * списки атрибутов, вложенные подграфы (их вершины и рёбра переносятся в граф) и комментарии.
+ * Атрибуты по умолчанию (операторы graph, node и edge) пропускаются.
+ */
+
+/**
+ * Вершина DOT-документа с атрибутами из всех её объявлений.
+ */
+export interface DotNode {
+    id: string;
+    attributes: Record<string, string>;
+}
+
+/**
+ * Ребро DOT-документа.
+ */
+export interface DotEdge {
+    from: string;
+    to: string;
+    attributes: Record<string, string>;
+}
+
+/**
+ * Результат разбора DOT-документа. Вершины перечислены в порядке первого упоминания.
+ */
+export interface DotDocument {
+    directed: boolean;
+    name?: string;
+    nodes: DotNode[];
+    edges: DotEdge[];
+}
+
+type TokenKind = 'id' | 'punct' | 'edgeop';
+
+interface IToken {
+    kind: TokenKind;
+    value: string;
+    line: number;
+    quoted?: boolean;
+}
+
+const keywords = ['strict', 'graph', 'digraph', 'subgraph', 'node', 'edge'];
+
+/**
+ * Разбивает текст на лексемы: идентификаторы, числа, строки в кавычках, знаки и операторы рёбер.
+ * @throws {SyntaxError} Если встретился неподдерживаемый символ или незакрытая строка
+ */
+function tokenize(text: string): IToken[] {
+    const tokens: IToken[] = [];
+    let line = 1;
+    let i = 0;
+    while (i < text.length) {
+        const char = text[i];
+        if (char === '\n') {
+            line++;
+            i++;
+        } else if (/\s/.test(char)) {
+            i++;
+        } else if (text.startsWith('//', i) || (char === '#' && (i === 0 || text[i - 1] === '\n'))) {
+            while (i < text.length && text[i] !== '\n') i++;
+        } else if (text.startsWith('/*', i)) {
+            const end = text.indexOf('*/', i + 2);
+            if (end === -1) throw new SyntaxError(`Незакрытый комментарий (строка ${line})`);
+            line += text.slice(i, end).split('\n').length - 1;
+            i = end + 2;
+        } else if (text.startsWith('->', i) || text.startsWith('--', i)) {
+            tokens.push({ kind: 'edgeop', value: text.slice(i, i + 2), line });
+            i += 2;
+        } else if ('{}[];,=:'.includes(char)) {
+            tokens.push({ kind: 'punct', value: char, line });
+            i++;
+        } else if (char === '"') {
+            let value = '';
+            const start = line;
+            i++;
+            while (i < text.length && text[i] !== '"') {
+                if (text[i] === '\\' && (text[i + 1] === '"' || text[i + 1] === '\\')) {
+                    value += text[i + 1];
+                    i += 2;
+                } else if (text[i] === '\\' && text[i + 1] === 'n') {
+                    value += '\n';
+                    i += 2;
+                } else if (text[i] === '\\' && text[i + 1] === '\n') {
+                    line++;
+                    i += 2;
+                } else {
+                    if (text[i] === '\n') line++;
+                    value += text[i++];
+                }
+            }
+            if (i >= text.length) throw new SyntaxError(`Незакрытая строка (строка ${start})`);
+            i++;
+            tokens.push({ kind: 'id', value, line: start, quoted: true });
+        } else {
+            const match = /^(-?(?:\.\d+|\d+(?:\.\d*)?)|[\p{L}_][\p{L}\p{N}_]*)/u.exec(text.slice(i));
+            if (!match) throw new SyntaxError(`Неожиданный символ «${char}» (строка ${line})`);
+            tokens.push({ kind: 'id', value: match[0], line });
+            i += match[0].length;
+        }
+    }
+    return tokens;
+}
+
+/**
+ * Разбирает DOT-документ.
+ * @param {string} text Текст на языке DOT
+ * @returns {DotDocument} Вершины и рёбра документа
+ * @throws {SyntaxError} Если текст не соответствует поддерживаемому подмножеству DOT
+ */
+export function parseDot(text: string): DotDocument {
+    const tokens = tokenize(text);
+    let position = 0;
+    const nodes = new Map<string, DotNode>();
+    const edges: DotEdge[] = [];
+
+    const peek = (): IToken | undefined => tokens[position];
+    const lineOf = (token?: IToken) => token ? `строка ${token.line}` : 'конец текста';
+    const isKeyword = (token: IToken | undefined, keyword: string) =>
+        token?.kind === 'id' && !token.quoted && token.value.toLowerCase() === keyword;
+    const accept = (value: string): boolean => {
+        if (peek()?.kind !== 'id' && peek()?.value === value) {
+            position++;
+            return true;
+        }
+        return false;
+    };
+    const expect = (value: string): void => {
+        if (!accept(value)) throw new SyntaxError(`Ожидалось «${value}» (${lineOf(peek())})`);
+    };
+    const expectId = (): string => {
+        const token = peek();
+        if (token?.kind !== 'id' || keywords.some(keyword => isKeyword(token, keyword))) {
+            throw new SyntaxError(`Ожидался идентификатор (${lineOf(token)})`);
+        }
+        position++;
+        return token.value;
+    };
+
+    const touch = (id: string, attributes: Record<string, string> = {}) => {
+        const node = nodes.get(id);
+        if (node) {
+            Object.assign(node.attributes, attributes);
+        } else {
+            nodes.set(id, { id, attributes: { ...attributes } });
+        }
+    };
+
+    const attributeList = (): Record<string, string> => {
+        const attributes: Record<string, string> = {};
+        while (accept('[')) {
+            while (!accept(']')) {
+                const key = expectId();
+                expect('=');
+                attributes[key] = expectId();
+                if (!accept(';')) accept(',');
+            }
+        }
+        return attributes;
+    };
+
+    const nodeId = (): string => {
+        const id = expectId();
+        if (peek()?.value === ':') {
+            throw new SyntaxError(`Порты вершин не поддерживаются (${lineOf(peek())})`);
+        }
+        return id;
+    };
+
+    const statementList = (directed: boolean) => {
+        while (!accept('}')) {
+            const token = peek();
+            if (!token) throw new SyntaxError("Ожидалось «}» (конец текста)");
+            if (isKeyword(token, 'subgraph') || token.value === '{' && token.kind === 'punct') {
+                if (isKeyword(token, 'subgraph')) {
+                    position++;
+                    if (peek()?.kind === 'id') expectId();
+                }
+                expect('{');
+                statementList(directed);
+            } else if (isKeyword(token, 'graph') || isKeyword(token, 'node') || isKeyword(token, 'edge')) {
+                position++;
+                attributeList();
+            } else {
+                const first = nodeId();
+                if (accept('=')) {
+                    expectId();
+                } else if (peek()?.kind === 'edgeop') {
+                    const chain = [first];
+                    while (peek()?.kind === 'edgeop') {
+                        const operator = tokens[position++];
+                        if (operator.value !== (directed ? '->' : '--')) {
+                            throw new SyntaxError(`Оператор «${operator.value}» не подходит для ${directed ? 'digraph' : 'graph'} (${lineOf(operator)})`);
+                        }
+                        if (peek()?.value === '{' || isKeyword(peek(), 'subgraph')) {
+                            throw new SyntaxError(`Подграф в качестве конца ребра не поддерживается (${lineOf(peek())})`);
+                        }
+                        chain.push(nodeId());
+                    }
+                    const attributes = attributeList();
+                    chain.forEach(id => touch(id));
+                    for (let i = 1; i < chain.length; i++) {
+                        edges.push({ from: chain[i - 1], to: chain[i], attributes: { ...attributes } });
+                    }
+                } else {
+                    touch(first, attributeList());
+                }
+            }
+            accept(';');
+        }
+    };
+
+    if (isKeyword(peek(), 'strict')) position++;
+    const header = peek();
+    if (!isKeyword(header, 'digraph') && !isKeyword(header, 'graph')) {
+        throw new SyntaxError(`Ожидалось «digraph» или «graph» (${lineOf(header)})`);
+    }
+    position++;
+    const directed = isKeyword(header, 'digraph');
+    const name = peek()?.kind === 'id' ? expectId() : undefined;
+    expect('{');
+    statementList(directed);
+    if (position < tokens.length) {
+        throw new SyntaxError(`Лишний текст после описания графа (${lineOf(peek())})`);
+    }
+    return { directed, name, nodes: [...nodes.values()], edges };
+}
+
+/**
+ * Записывает идентификатор DOT, заключая его в кавычки, если это не простой идентификатор или число.
+ * В кавычках экранируются обратная косая черта и кавычки, перевод строки записывается как \n.
+ * @param {string} id Идентификатор
+ * @returns {string} Идентификатор в синтаксисе DOT
+ */
+export function quoteDotId(id: string): string {
+    if (/^([A-Za-z_][A-Za-z0-9_]*|-?(\.\d+|\d+(\.\d*)?))$/.test(id) && !keywords.includes(id.toLowerCase())) {
+        return id;
+    }
+    return `"${id.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
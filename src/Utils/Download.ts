@@ -0,0 +1,18 @@
+/**
+ * Предлагает пользователю сохранить текст в файл.
+ * @param {string} content Содержимое файла
+ * @param {string} fileName Имя файла
+ * @param {string} type MIME-тип содержимого
+ */
+export function downloadFile(content: string, fileName: string, type: string): void {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+}
@@ -1,5 +1,8 @@
-import { Graph, GraphArgumentError, GraphValidationError } from "./Graph";
+import { Graph, GraphArgumentError, GraphBuilder, GraphCycleError, GraphValidationError } from "./Graph";
 import type { Edge, Vertex } from "../Types/GraphData.types";
+import { createRandom, erdosRenyiGraph, randomDag, randomWeightedGraph } from "./GraphGenerators";
+import { readFileSync } from "fs";
+import { join } from "path";
 
 describe("Graph", () => {
     const vertices: Vertex[] = [0, 1, 2];
@@ -8,6 +11,18 @@ describe("Graph", () => {
         { from: 1, to: 2 }
     ];
 
+    function randomGraph(seed: number, size: number, density: number): Graph {
+        const random = createRandom(seed);
+        const vertices = Array.from({ length: size }, (_, i) => i).sort(() => random() - 0.5);
+        const edges: Edge[] = [];
+        for (const from of vertices) {
+            for (const to of vertices) {
+                if (from !== to && random() < density) edges.push({ from, to });
+            }
+        }
+        return new Graph({ vertices, edges });
+    }
+
     it("создаёт граф с вершинами и рёбрами", () => {
         const graph = new Graph({ vertices, edges });
         expect(graph.vertices).toEqual(vertices);
@@ -212,4 +227,1607 @@ describe("Graph", () => {
         ]
         expect(subgraphs).toEqual(expected);
     })
-});
\ No newline at end of file
+
+    describe("кратчайшие пути", () => {
+        const weighted = new Graph({
+            vertices: [0, 1, 2, 3],
+            edges: [
+                { from: 0, to: 1, weight: 4 },
+                { from: 0, to: 2, weight: 1 },
+                { from: 2, to: 1, weight: 2 },
+                { from: 1, to: 3, weight: 1 },
+                { from: 2, to: 3, weight: 5 }
+            ]
+        });
+
+        it("восстанавливает предшественников в алгоритме Беллмана-Форда", () => {
+            const { distances, predecessors } = weighted.bellmanFordTree(0);
+            expect(distances).toEqual({ 0: 0, 1: 3, 2: 1, 3: 4 });
+            expect(predecessors).toEqual({ 0: null, 1: 2, 2: 0, 3: 1 });
+        });
+
+        it("восстанавливает предшественников в алгоритме Дейкстры", () => {
+            const { distances, predecessors } = weighted.dijkstraTree(0);
+            expect(distances).toEqual({ 0: 0, 1: 3, 2: 1, 3: 4 });
+            expect(predecessors).toEqual({ 0: null, 1: 2, 2: 0, 3: 1 });
+        });
+
+        it("находит кратчайший путь между двумя вершинами", () => {
+            const path = weighted.shortestPath(0, 3);
+            expect(path).toEqual({
+                vertices: [0, 2, 1, 3],
+                edges: [
+                    { from: 0, to: 2, weight: 1 },
+                    { from: 2, to: 1, weight: 2 },
+                    { from: 1, to: 3, weight: 1 }
+                ],
+                weight: 4
+            });
+        });
+
+        it("возвращает null для недостижимой вершины", () => {
+            expect(weighted.shortestPath(3, 0)).toBeNull();
+        });
+
+        it("учитывает отрицательные веса в алгоритме Джонсона", () => {
+            const graph = new Graph({
+                vertices: [0, 1, 2],
+                edges: [
+                    { from: 0, to: 1, weight: 2 },
+                    { from: 1, to: 2, weight: -1 },
+                    { from: 0, to: 2, weight: 3 }
+                ]
+            });
+            const { distances, predecessors } = graph.johnsonPaths();
+            expect(distances[0]).toEqual({ 0: 0, 1: 2, 2: 1 });
+            expect(graph.tracePath(predecessors[0], 0, 2)?.vertices).toEqual([0, 1, 2]);
+            expect(distances[2][0]).toBe(Infinity);
+        });
+
+        it("выбрасывает ошибку при цикле отрицательного веса", () => {
+            const graph = new Graph({
+                vertices: [0, 1],
+                edges: [
+                    { from: 0, to: 1, weight: 1 },
+                    { from: 1, to: 0, weight: -2 }
+                ]
+            });
+            expect(() => graph.johnson()).toThrow(GraphValidationError);
+            expect(() => graph.shortestPath(0, 1)).toThrow(GraphValidationError);
+        });
+        it("совпадает с алгоритмом Джонсона для алгоритма Флойда-Уоршелла", () => {
+            const graph = new Graph({
+                vertices: [0, 1, 2, 3],
+                edges: [
+                    { from: 0, to: 1, weight: 3 },
+                    { from: 1, to: 2, weight: -2 },
+                    { from: 2, to: 3, weight: 2 },
+                    { from: 0, to: 3, weight: 5 },
+                    { from: 3, to: 0, weight: 1 }
+                ]
+            });
+            const { distances, next } = graph.floydWarshall();
+            expect(distances).toEqual(graph.johnson());
+            expect(graph.traceNextHops(next, 0, 3)).toEqual({
+                vertices: [0, 1, 2, 3],
+                edges: [
+                    { from: 0, to: 1, weight: 3 },
+                    { from: 1, to: 2, weight: -2 },
+                    { from: 2, to: 3, weight: 2 }
+                ],
+                weight: 3
+            });
+        });
+
+        it("обнаруживает цикл отрицательного веса в алгоритме Флойда-Уоршелла", () => {
+            const graph = new Graph({
+                vertices: [0, 1, 2],
+                edges: [
+                    { from: 0, to: 1, weight: 1 },
+                    { from: 1, to: 2, weight: -3 },
+                    { from: 2, to: 1, weight: 1 }
+                ]
+            });
+            expect(() => graph.floydWarshall()).toThrow(GraphValidationError);
+        });
+    });
+    describe("декомпозиция", () => {
+        // Прежняя реализация: DFS туда и обратно для каждой оставшейся вершины
+        function referenceDecompose(graph: Graph) {
+            const subs: Graph[] = [];
+            const notUsedV = new Set<Vertex>(graph.vertices);
+            while (notUsedV.size > 0) {
+                const firstVertex = [...notUsedV][0];
+                const R = new Set<Vertex>();
+                const Q = new Set<Vertex>();
+                notUsedV.forEach(vertex => {
+                    if (graph.DFS(firstVertex, vertex)) R.add(vertex);
+                    if (graph.DFS(vertex, firstVertex)) Q.add(vertex);
+                });
+                const intersection = [...R].filter(vertex => Q.has(vertex));
+                subs.push(new Graph({
+                    vertices: intersection,
+                    edges: graph.edges.filter(edge =>
+                        intersection.includes(edge.from) && intersection.includes(edge.to)
+                    )
+                }));
+                intersection.forEach(vertex => notUsedV.delete(vertex));
+            }
+            const vertexToSubIndex = new Map<Vertex, number>();
+            subs.forEach((sub, index) => sub.vertices.forEach(vertex => vertexToSubIndex.set(vertex, index)));
+            const links: { from: number, to: number }[] = [];
+            graph.edges.forEach(edge => {
+                const from = vertexToSubIndex.get(edge.from)!;
+                const to = vertexToSubIndex.get(edge.to)!;
+                if (from !== to && !links.some(link => link.from === from && link.to === to)) {
+                    links.push({ from, to });
+                }
+            });
+            return { subGraphs: subs.map(sub => sub.asObject), links };
+        }
+
+        it("совпадает с прежним алгоритмом на случайных графах", () => {
+            for (let seed = 1; seed <= 40; seed++) {
+                const graph = randomGraph(seed, 5 + seed % 20, 0.02 + (seed % 7) * 0.03);
+                const { subGraphs, links } = graph.decompose();
+                expect({
+                    subGraphs: [...subGraphs].map(sub => sub.asObject),
+                    links: [...links]
+                }).toEqual(referenceDecompose(graph));
+            }
+        });
+
+        it("строит конденсацию с подсистемами в топологическом порядке", () => {
+            const graph = new Graph({
+                vertices: [0, 1, 2, 3, 4, 5],
+                edges: [
+                    { from: 0, to: 1 },
+                    { from: 1, to: 0 },
+                    { from: 3, to: 4 },
+                    { from: 4, to: 3 },
+                    { from: 4, to: 0 },
+                    { from: 3, to: 0 },
+                    { from: 0, to: 2 },
+                    { from: 5, to: 2 }
+                ]
+            });
+            const { graph: condensation, vertexToSubsystem, subsystems } = graph.condensation();
+            expect(subsystems).toEqual([[3, 4], [5], [0, 1], [2]]);
+            expect(vertexToSubsystem).toEqual({ 0: 2, 1: 2, 2: 3, 3: 0, 4: 0, 5: 1 });
+            expect(condensation.edges).toEqual([
+                { from: 0, to: 2 },
+                { from: 1, to: 3 },
+                { from: 2, to: 3 }
+            ]);
+            expect(condensation.label(0)).toBe("S1");
+            expect(condensation.HL).toEqual([[0, 1], [2], [3]]);
+        });
+
+        it("строит пустую конденсацию пустого графа", () => {
+            expect(new Graph().condensation().graph.vertices).toEqual([]);
+        });
+
+        it("разбивает большой граф без переполнения стека", () => {
+            const size = 20000;
+            const vertices = Array.from({ length: size }, (_, i) => i);
+            const edges: Edge[] = vertices.map(v => ({ from: v, to: (v + 1) % size }));
+            const components = new Graph({ vertices, edges }).stronglyConnectedComponents();
+            expect(components).toHaveLength(1);
+            expect(components[0]).toHaveLength(size);
+        });
+    });
+    describe("производительность", () => {
+        // Прежний BFS: просмотр всего списка рёбер на каждом шаге
+        function naiveBFS(graph: Graph, from: Vertex, to: Vertex): boolean {
+            const visited = new Set<Vertex>();
+            const queue: Vertex[] = [from];
+            while (queue.length > 0) {
+                const current = queue.shift()!;
+                if (current === to) return true;
+                visited.add(current);
+                for (const edge of graph.edges) {
+                    if (edge.from === current && !visited.has(edge.to) && !queue.includes(edge.to)) {
+                        queue.push(edge.to);
+                    }
+                }
+            }
+            return false;
+        }
+
+        const size = 5000;
+        const vertices = Array.from({ length: size }, (_, i) => i);
+        const edges: Edge[] = vertices.flatMap(v => [
+            ...(v + 1 < size ? [{ from: v, to: v + 1 }] : []),
+            ...(v + 7 < size ? [{ from: v, to: v + 7 }] : [])
+        ]);
+        const graph = new Graph({ vertices, edges });
+
+        // Вместо времени работы считаются обращения к концам рёбер: граф хранит рёбра по ссылке
+        let reads = 0;
+        const counted = new Graph({
+            vertices,
+            edges: edges.map(({ from, to }) => ({
+                get from() { reads++; return from; },
+                get to() { reads++; return to; }
+            }))
+        });
+
+        function readsOf(action: () => boolean): { found: boolean, reads: number } {
+            reads = 0;
+            const found = action();
+            return { found, reads };
+        }
+
+        it("BFS по индексу смежности просматривает O(V + E) рёбер вместо O(V · E)", () => {
+            const indexed = readsOf(() => counted.BFS(0, size - 1));
+            const naive = readsOf(() => naiveBFS(counted, 0, size - 1));
+            expect(indexed.found).toBe(true);
+            expect(naive.found).toBe(true);
+            expect(indexed.reads).toBeLessThanOrEqual(3 * (size + edges.length));
+            expect(naive.reads).toBeGreaterThan(size * edges.length / 2);
+        });
+
+        it("находит путь BFS в графе из 5000 вершин", () => {
+            expect(graph.BFS(0, size - 1)).toBe(true);
+            expect(graph.BFS(size - 1, 0)).toBe(false);
+            expect(graph.withoutEdge({ from: 0, to: 1 }).withoutEdge({ from: 0, to: 7 }).BFS(0, size - 1)).toBe(false);
+        });
+
+        it("выделяет уровни графа из 5000 вершин", () => {
+            expect(graph.HL).toEqual(vertices.map(v => [v]));
+        });
+    });
+    describe("метаданные вершин", () => {
+        const graph = new Graph({
+            vertices,
+            edges,
+            labels: { 0: "Склад", 2: "Биллинг" },
+            attributes: { 0: { owner: "Логистика", critical: true } }
+        });
+
+        it("возвращает название вершины или обозначение по умолчанию", () => {
+            expect(graph.label(0)).toBe("Склад");
+            expect(graph.label(1)).toBe("V2");
+        });
+
+        it("сохраняет названия и атрибуты при сериализации", () => {
+            const restored = Graph.fromJSON(graph.asJSON);
+            expect(restored.labels).toEqual(graph.labels);
+            expect(restored.attributes).toEqual(graph.attributes);
+        });
+
+        it("сохраняет метаданные при изменении рёбер и удаляет их вместе с вершиной", () => {
+            expect(graph.withEdge({ from: 2, to: 0 }).labels).toEqual(graph.labels);
+            const withoutStore = graph.withoutVertex(0);
+            expect(withoutStore.labels).toEqual({ 2: "Биллинг" });
+            expect(withoutStore.attributes).toEqual({});
+        });
+
+        it("изменяет и удаляет название вершины", () => {
+            expect(graph.withLabel(1, "Касса").label(1)).toBe("Касса");
+            expect(graph.withLabel(0).label(0)).toBe("V1");
+            expect(graph.withAttributes(0, {}).attributes).toEqual({});
+        });
+
+        it("выбрасывает ошибку при метаданных несуществующей вершины", () => {
+            expect(() => new Graph({ vertices, edges, labels: { 99: "Нет" } })).toThrow(GraphValidationError);
+            expect(() => graph.withLabel(99, "Нет")).toThrow(GraphValidationError);
+        });
+    });
+    describe("неориентированный граф", () => {
+        const graph = new Graph({
+            vertices: [0, 1, 2],
+            edges: [
+                { from: 0, to: 1, weight: 2 },
+                { from: 1, to: 2, weight: 3 }
+            ],
+            directed: false
+        });
+
+        it("строит симметричную матрицу смежности", () => {
+            expect(graph.asAdjMatrix).toEqual([
+                [0, 1, 0],
+                [1, 0, 1],
+                [0, 1, 0]
+            ]);
+        });
+
+        it("строит матрицу инцидентности с единицами на обоих концах ребра", () => {
+            expect(graph.asIncMatrix).toEqual([
+                [1, 0],
+                [1, 1],
+                [0, 1]
+            ]);
+        });
+
+        it("обходит рёбра в обоих направлениях", () => {
+            expect(graph.BFS(2, 0)).toBe(true);
+            expect(graph.DFS(2, 0)).toBe(true);
+            expect(graph.asAdjList[1]).toEqual([{ target: 0, weight: 2 }, { target: 2, weight: 3 }]);
+            expect(graph.stronglyConnectedComponents()).toEqual([[0, 1, 2]]);
+        });
+
+        it("находит кратчайшие пути в обоих направлениях", () => {
+            expect(graph.dijkstra(2)).toEqual({ 0: 5, 1: 3, 2: 0 });
+            expect(graph.floydWarshall().distances).toEqual(graph.johnson());
+            expect(graph.shortestPath(2, 0)?.vertices).toEqual([2, 1, 0]);
+        });
+
+        it("не добавляет встречное ребро и удаляет ребро в любом направлении", () => {
+            expect(graph.withEdge({ from: 1, to: 0 })).toBe(graph);
+            expect(graph.withoutEdge({ from: 1, to: 0 }).edges).toEqual([{ from: 1, to: 2, weight: 3 }]);
+        });
+
+        it("сохраняет признак ориентированности при сериализации", () => {
+            const restored = Graph.fromJSON(graph.asJSON);
+            expect(restored.directed).toBe(false);
+            expect(JSON.parse(new Graph({ vertices, edges }).asJSON).directed).toBe(true);
+        });
+
+        it("объединяет симметричные ячейки матрицы в одно ребро", () => {
+            const fromMatrix = Graph.fromAdjMatrix([
+                [0, 1],
+                [1, 0]
+            ], false);
+            expect(fromMatrix.edges).toEqual([{ from: 0, to: 1 }]);
+        });
+    });
+    describe("сетевое планирование", () => {
+        // Классический пример: две параллельные ветви, критическая — через событие 2
+        const network = new Graph({
+            vertices: [0, 1, 2, 3, 4],
+            edges: [
+                { from: 0, to: 1, weight: 3 },
+                { from: 0, to: 2, weight: 5 },
+                { from: 1, to: 3, weight: 4 },
+                { from: 2, to: 3, weight: 3 },
+                { from: 2, to: 4, weight: 2 },
+                { from: 3, to: 4, weight: 2 }
+            ]
+        });
+
+        it("вычисляет ранние и поздние сроки событий", () => {
+            const { duration, events } = network.criticalPath();
+            expect(duration).toBe(10);
+            expect(events).toEqual({
+                0: { early: 0, late: 0, slack: 0 },
+                1: { early: 3, late: 4, slack: 1 },
+                2: { early: 5, late: 5, slack: 0 },
+                3: { early: 8, late: 8, slack: 0 },
+                4: { early: 10, late: 10, slack: 0 }
+            });
+        });
+
+        it("не даёт событиям резерва из-за погрешности дробных длительностей", () => {
+            // 0.1 + 0.2 и 0.15 + 0.15 различаются в двоичной арифметике на ~3e-17
+            const diamond = new Graph({
+                vertices: [0, 1, 2, 3],
+                edges: [
+                    { from: 0, to: 1, weight: 0.1 },
+                    { from: 1, to: 3, weight: 0.2 },
+                    { from: 0, to: 2, weight: 0.15 },
+                    { from: 2, to: 3, weight: 0.15 }
+                ]
+            });
+            const { events, activities, criticalPaths } = diamond.criticalPath();
+            expect(activities.every(a => a.critical)).toBe(true);
+            expect(Object.values(events).map(e => e.slack)).toEqual([0, 0, 0, 0]);
+            expect(events[0].late).toBe(0);
+            expect(Object.values(events).every(e => e.late === e.early)).toBe(true);
+            expect(criticalPaths).toHaveLength(2);
+        });
+
+        it("вычисляет резервы работ и критический путь", () => {
+            const { activities, criticalPaths } = network.criticalPath();
+            expect(activities.map(a => a.totalSlack)).toEqual([1, 0, 1, 0, 3, 0]);
+            expect(activities.map(a => a.freeSlack)).toEqual([0, 0, 1, 0, 3, 0]);
+            expect(activities.filter(a => a.critical).map(a => a.edge)).toEqual([
+                { from: 0, to: 2, weight: 5 },
+                { from: 2, to: 3, weight: 3 },
+                { from: 3, to: 4, weight: 2 }
+            ]);
+            expect(criticalPaths).toEqual([[0, 2, 3, 4]]);
+        });
+
+        it("находит все критические пути", () => {
+            const graph = network.withEdge({ from: 1, to: 2, weight: 2 });
+            expect(graph.criticalPath().criticalPaths).toEqual([[0, 1, 2, 3, 4], [0, 2, 3, 4]]);
+        });
+
+        it("вычисляет ожидаемую длительность и дисперсию по трёхточечным оценкам", () => {
+            const result = network.pert([
+                undefined,
+                { optimistic: 2, mostLikely: 5, pessimistic: 8 },
+                undefined,
+                { optimistic: 1, mostLikely: 3, pessimistic: 5 },
+                undefined,
+                { optimistic: 2, mostLikely: 2, pessimistic: 2 }
+            ]);
+            expect(result.duration).toBe(10);
+            expect(result.variance).toBeCloseTo(1 + 4 / 9);
+            expect(result.standardDeviation).toBeCloseTo(Math.sqrt(13 / 9));
+        });
+
+        it("выбрасывает ошибку для некорректных оценок", () => {
+            expect(() => network.pert([{ optimistic: 5, mostLikely: 2, pessimistic: 8 }])).toThrow(GraphArgumentError);
+        });
+
+        it("выбрасывает ошибку валидации для сети с циклом", () => {
+            const cyclic = network.withEdge({ from: 4, to: 0, weight: 1 });
+            expect(() => cyclic.criticalPath()).toThrow(GraphValidationError);
+        });
+    });
+    describe("циклы в сообщениях об ошибках", () => {
+        function catchCycle(action: () => unknown): GraphCycleError {
+            try {
+                action();
+            } catch (e) {
+                if (e instanceof GraphCycleError) return e;
+                throw e;
+            }
+            throw new Error("Ожидалась ошибка цикла");
+        }
+
+        it("сообщает цикл, из-за которого нельзя выделить уровни", () => {
+            const graph = new Graph({
+                vertices: [0, 1, 2, 3, 4],
+                edges: [
+                    { from: 0, to: 1 },
+                    { from: 1, to: 2 },
+                    { from: 2, to: 3 },
+                    { from: 3, to: 1 },
+                    { from: 3, to: 4 }
+                ]
+            });
+            const error = catchCycle(() => graph.HL);
+            expect(error).toBeInstanceOf(GraphValidationError);
+            expect(error.cycle).toEqual([1, 2, 3]);
+            expect(error.edges).toEqual([
+                { from: 1, to: 2 },
+                { from: 2, to: 3 },
+                { from: 3, to: 1 }
+            ]);
+            expect(error.message).toContain("V2 → V3 → V4 → V2");
+        });
+
+        it("сообщает петлю как цикл из одной вершины", () => {
+            const graph = new Graph({ vertices: [0, 1], edges: [{ from: 0, to: 1 }, { from: 1, to: 1 }] });
+            expect(catchCycle(() => graph.HL).cycle).toEqual([1]);
+        });
+
+        const negative = new Graph({
+            vertices: [0, 1, 2, 3],
+            edges: [
+                { from: 0, to: 1, weight: 1 },
+                { from: 1, to: 2, weight: 2 },
+                { from: 2, to: 3, weight: -4 },
+                { from: 3, to: 1, weight: 1 }
+            ]
+        });
+
+        it("сообщает цикл отрицательного веса и его вес", () => {
+            for (const action of [
+                () => negative.bellmanFord(0),
+                () => negative.johnson(),
+                () => negative.floydWarshall()
+            ]) {
+                const error = catchCycle(action);
+                expect(error.cycle).toEqual([1, 2, 3]);
+                expect(error.edges).toHaveLength(3);
+                expect(error.weight).toBe(-1);
+                error.edges.forEach((edge, index) => {
+                    expect(edge.from).toBe(error.cycle[index]);
+                    expect(edge.to).toBe(error.cycle[(index + 1) % error.cycle.length]);
+                });
+            }
+        });
+
+        it("называет вершины цикла отрицательного веса одинаково во всех алгоритмах", () => {
+            const labelled = new Graph({ ...negative.asObject, labels: { 1: 'Насос', 2: 'Котёл', 3: 'Бак' } });
+            const messages = [
+                () => labelled.bellmanFord(0),
+                () => labelled.johnson(),
+                () => labelled.johnsonPaths()
+            ].map(action => catchCycle(action).message);
+            expect(messages[0]).toContain('Насос → Котёл → Бак → Насос');
+            expect(new Set(messages).size).toBe(1);
+        });
+    });
+
+    describe("множество обратных дуг", () => {
+        function isAcyclic(graph: Graph): boolean {
+            try {
+                return graph.HL.length > 0;
+            } catch (e) {
+                if (e instanceof GraphCycleError) return false;
+                throw e;
+            }
+        }
+
+        function withoutArcs(graph: Graph, arcs: Edge[]): Graph {
+            return arcs.reduce((result, edge) => result.withoutEdge(edge), graph);
+        }
+
+        it("пусто для ациклического графа", () => {
+            expect(new Graph({ vertices, edges }).feedbackArcSet()).toEqual({ edges: [], exact: true });
+        });
+
+        it("удаляет петли и по одной дуге из каждого цикла", () => {
+            const graph = new Graph({
+                vertices: [0, 1, 2, 3, 4],
+                edges: [
+                    { from: 0, to: 1 },
+                    { from: 1, to: 2 },
+                    { from: 2, to: 0 },
+                    { from: 2, to: 3 },
+                    { from: 3, to: 3 },
+                    { from: 3, to: 4 },
+                    { from: 4, to: 3 },
+                    { from: 4, to: 3 }
+                ]
+            });
+            const { edges: arcs, exact } = graph.feedbackArcSet();
+            expect(exact).toBe(true);
+            expect(arcs).toHaveLength(3);
+            expect(arcs).toContainEqual({ from: 3, to: 3 });
+            expect(isAcyclic(withoutArcs(graph, arcs))).toBe(true);
+        });
+
+        it("находит минимальное множество на малых графах", () => {
+            for (let seed = 1; seed <= 30; seed++) {
+                const graph = randomGraph(seed, 5, 0.45);
+                const { edges: arcs, exact } = graph.feedbackArcSet();
+                expect(exact).toBe(true);
+                expect(isAcyclic(withoutArcs(graph, arcs))).toBe(true);
+
+                // Перебор всех подмножеств дуг
+                let minimum = graph.edges.length;
+                for (let mask = 0; mask < 1 << graph.edges.length; mask++) {
+                    const subset = graph.edges.filter((_, index) => mask & (1 << index));
+                    if (subset.length < minimum && isAcyclic(withoutArcs(graph, subset))) {
+                        minimum = subset.length;
+                    }
+                }
+                expect(arcs).toHaveLength(minimum);
+            }
+        });
+
+        it("на больших компонентах даёт минимальное по включению множество", () => {
+            const graph = randomGraph(7, 40, 0.1);
+            const { edges: arcs, exact } = graph.feedbackArcSet();
+            expect(exact).toBe(false);
+            const repaired = withoutArcs(graph, arcs);
+            expect(isAcyclic(repaired)).toBe(true);
+            arcs.forEach(edge => expect(isAcyclic(repaired.withEdge(edge))).toBe(false));
+        });
+
+        it("разрывает большой цикл одной дугой", () => {
+            const size = 20000;
+            const cycle = Array.from({ length: size }, (_, i) => i);
+            const graph = new Graph({ vertices: cycle, edges: cycle.map(v => ({ from: v, to: (v + 1) % size })) });
+            expect(graph.feedbackArcSet().edges).toHaveLength(1);
+        });
+
+        it("не определено для неориентированного графа", () => {
+            expect(() => new Graph({ vertices, edges, directed: false }).feedbackArcSet()).toThrow(GraphValidationError);
+        });
+    });
+
+    describe("достижимость", () => {
+        const dag = new Graph({
+            vertices: [0, 1, 2, 3],
+            edges: [
+                { from: 0, to: 1, weight: 2 },
+                { from: 1, to: 2 },
+                { from: 0, to: 2 },
+                { from: 0, to: 3 },
+                { from: 2, to: 3 },
+                { from: 1, to: 2 }
+            ],
+            labels: { 0: "Начало" }
+        });
+
+        it("строит транзитивное замыкание", () => {
+            const closure = dag.transitiveClosure();
+            expect(closure.edges).toEqual([
+                { from: 0, to: 1 },
+                { from: 0, to: 2 },
+                { from: 0, to: 3 },
+                { from: 1, to: 2 },
+                { from: 1, to: 3 },
+                { from: 2, to: 3 }
+            ]);
+            expect(closure.labels).toEqual({ 0: "Начало" });
+        });
+
+        it("добавляет петли вершинам на цикле", () => {
+            const graph = new Graph({
+                vertices: [0, 1, 2],
+                edges: [{ from: 0, to: 1 }, { from: 1, to: 0 }, { from: 1, to: 2 }]
+            });
+            expect(graph.transitiveClosure().asAdjMatrix).toEqual([
+                [1, 1, 1],
+                [1, 1, 1],
+                [0, 0, 0]
+            ]);
+        });
+
+        it("строит рефлексивную матрицу достижимости", () => {
+            expect(new Graph({ vertices, edges }).reachabilityMatrix).toEqual([
+                [1, 1, 1],
+                [0, 1, 1],
+                [0, 0, 1]
+            ]);
+            expect(new Graph({ vertices, edges, directed: false }).reachabilityMatrix).toEqual([
+                [1, 1, 1],
+                [1, 1, 1],
+                [1, 1, 1]
+            ]);
+        });
+
+        it("строит транзитивное сокращение ациклического графа", () => {
+            const reduction = dag.transitiveReduction();
+            expect(reduction.edges).toEqual([
+                { from: 0, to: 1, weight: 2 },
+                { from: 1, to: 2 },
+                { from: 2, to: 3 }
+            ]);
+            expect(reduction.reachabilityMatrix).toEqual(dag.reachabilityMatrix);
+        });
+
+        it("сохраняет достижимость при сокращении случайных графов", () => {
+            for (let seed = 1; seed <= 20; seed++) {
+                const random = randomGraph(seed, 12, 0.3);
+                // Оставляем только дуги, идущие вперёд по номерам вершин
+                const graph = new Graph({ ...random.asObject, edges: random.edges.filter(({ from, to }) => from < to) });
+                const reduction = graph.transitiveReduction();
+                expect(reduction.reachabilityMatrix).toEqual(graph.reachabilityMatrix);
+                reduction.edges.forEach(edge => {
+                    expect(reduction.withoutEdge(edge).reachabilityMatrix).not.toEqual(graph.reachabilityMatrix);
+                });
+            }
+        });
+
+        it("не сокращает граф с циклом", () => {
+            const graph = new Graph({ vertices, edges: [...edges, { from: 2, to: 0 }] });
+            expect(() => graph.transitiveReduction()).toThrow(GraphCycleError);
+        });
+    });
+
+    describe("минимальное остовное дерево", () => {
+        const graph = new Graph({
+            vertices: [0, 1, 2, 3, 4, 5, 6, 7],
+            edges: [
+                { from: 0, to: 1, weight: 4 },
+                { from: 0, to: 2, weight: 1 },
+                { from: 1, to: 2, weight: 2 },
+                { from: 1, to: 3, weight: 5 },
+                { from: 2, to: 3, weight: 8 },
+                { from: 3, to: 4, weight: 3 },
+                { from: 4, to: 4, weight: 0 },
+                { from: 6, to: 7, weight: -1 }
+            ]
+        });
+
+        it("строит остовный лес алгоритмом Прима", () => {
+            const { edges: accepted, weight, trees } = graph.minimumSpanningTree('prim');
+            expect(accepted).toEqual([
+                { from: 0, to: 2, weight: 1 },
+                { from: 1, to: 2, weight: 2 },
+                { from: 1, to: 3, weight: 5 },
+                { from: 3, to: 4, weight: 3 },
+                { from: 6, to: 7, weight: -1 }
+            ]);
+            expect(weight).toBe(10);
+            expect(trees).toEqual([[0, 1, 2, 3, 4], [5], [6, 7]]);
+        });
+
+        it("строит остовный лес алгоритмом Краскала", () => {
+            const { edges: accepted, weight, trees } = graph.minimumSpanningTree('kruskal');
+            expect(accepted).toEqual([
+                { from: 6, to: 7, weight: -1 },
+                { from: 0, to: 2, weight: 1 },
+                { from: 1, to: 2, weight: 2 },
+                { from: 3, to: 4, weight: 3 },
+                { from: 1, to: 3, weight: 5 }
+            ]);
+            expect(weight).toBe(10);
+            expect(trees).toEqual([[0, 1, 2, 3, 4], [5], [6, 7]]);
+        });
+
+        it("даёт одинаковый вес обоими алгоритмами на случайных графах", () => {
+            for (let seed = 1; seed <= 20; seed++) {
+                const random = randomGraph(seed, 15, 0.15);
+                const weighted = new Graph({
+                    ...random.asObject,
+                    edges: random.edges.map(({ from, to }) => ({ from, to, weight: (from * 7 + to * 13) % 10 }))
+                });
+                const prim = weighted.minimumSpanningTree('prim');
+                const kruskal = weighted.minimumSpanningTree('kruskal');
+                expect(prim.weight).toBe(kruskal.weight);
+                expect(prim.trees).toEqual(kruskal.trees);
+                expect(prim.edges).toHaveLength(weighted.vertices.length - prim.trees.length);
+            }
+        });
+
+        it("выбрасывает ошибку для неизвестного алгоритма", () => {
+            // @ts-expect-error Deliberately passing an unknown algorithm to test error handling
+            expect(() => graph.minimumSpanningTree('boruvka')).toThrow(GraphArgumentError);
+        });
+    });
+
+    describe("максимальный поток", () => {
+        const network = new Graph({
+            vertices: [0, 1, 2, 3, 4, 5],
+            edges: [
+                { from: 0, to: 1, weight: 16 },
+                { from: 0, to: 2, weight: 13 },
+                { from: 1, to: 3, weight: 12 },
+                { from: 2, to: 1, weight: 4 },
+                { from: 3, to: 2, weight: 9 },
+                { from: 2, to: 4, weight: 14 },
+                { from: 4, to: 3, weight: 7 },
+                { from: 3, to: 5, weight: 20 },
+                { from: 4, to: 5, weight: 4 }
+            ]
+        });
+
+        it("находит величину потока и минимальный разрез", () => {
+            const { value, sourceSide, sinkSide, cut } = network.maxFlow(0, 5);
+            expect(value).toBe(23);
+            expect(sourceSide).toEqual([0, 1, 2, 4]);
+            expect(sinkSide).toEqual([3, 5]);
+            expect(cut).toEqual([
+                { from: 1, to: 3, weight: 12 },
+                { from: 4, to: 3, weight: 7 },
+                { from: 4, to: 5, weight: 4 }
+            ]);
+        });
+
+        it("распределяет допустимый поток по рёбрам", () => {
+            const { value, flows } = network.maxFlow(0, 5);
+            const balance = new Map<Vertex, number>(network.vertices.map(v => [v, 0]));
+            network.edges.forEach((edge, index) => {
+                expect(flows[index]).toBeGreaterThanOrEqual(0);
+                expect(flows[index]).toBeLessThanOrEqual(edge.weight!);
+                balance.set(edge.from, balance.get(edge.from)! - flows[index]);
+                balance.set(edge.to, balance.get(edge.to)! + flows[index]);
+            });
+            expect(balance.get(0)).toBe(-value);
+            expect(balance.get(5)).toBe(value);
+            [1, 2, 3, 4].forEach(v => expect(balance.get(v)).toBe(0));
+        });
+
+        it("пропускает поток по ребру неориентированного графа в обе стороны", () => {
+            const graph = new Graph({
+                vertices: [0, 1, 2],
+                edges: [{ from: 0, to: 1, weight: 3 }, { from: 2, to: 1, weight: 2 }],
+                directed: false
+            });
+            const { value, flows, cut } = graph.maxFlow(0, 2);
+            expect(value).toBe(2);
+            expect(flows).toEqual([2, -2]);
+            expect(cut).toEqual([{ from: 2, to: 1, weight: 2 }]);
+        });
+
+        it("выбрасывает ошибку для некорректных аргументов", () => {
+            expect(() => network.maxFlow(0, 0)).toThrow(GraphArgumentError);
+            expect(() => network.maxFlow(0, 99)).toThrow(GraphValidationError);
+            const negative = network.withEdge({ from: 5, to: 0, weight: -1 });
+            expect(() => negative.maxFlow(0, 5)).toThrow(GraphArgumentError);
+        });
+    });
+
+    describe("метрики", () => {
+        it("вычисляет эксцентриситеты, радиус и диаметр", () => {
+            const metrics = new Graph({ vertices, edges }).metrics();
+            expect(metrics.inDegrees).toEqual({ 0: 0, 1: 1, 2: 1 });
+            expect(metrics.outDegrees).toEqual({ 0: 1, 1: 1, 2: 0 });
+            expect(metrics.density).toBeCloseTo(1 / 3);
+            expect(metrics.eccentricities).toEqual({ 0: 2, 1: Infinity, 2: Infinity });
+            expect(metrics.radius).toBe(2);
+            expect(metrics.center).toEqual([0]);
+            expect(metrics.diameter).toBe(Infinity);
+            expect(metrics.periphery).toEqual([1, 2]);
+        });
+
+        it("вычисляет метрики неориентированного графа", () => {
+            const star = new Graph({
+                vertices: [0, 1, 2, 3],
+                edges: [{ from: 0, to: 1 }, { from: 2, to: 0 }, { from: 0, to: 3 }],
+                directed: false
+            });
+            const metrics = star.metrics();
+            expect(metrics.inDegrees).toEqual({ 0: 3, 1: 1, 2: 1, 3: 1 });
+            expect(metrics.outDegrees).toEqual(metrics.inDegrees);
+            expect(metrics.density).toBe(0.5);
+            expect(metrics.radius).toBe(1);
+            expect(metrics.center).toEqual([0]);
+            expect(metrics.diameter).toBe(2);
+            expect(metrics.periphery).toEqual([1, 2, 3]);
+            expect(metrics.connectivity).toBe('strong');
+        });
+
+        it("определяет вид связности", () => {
+            const connectivity = (edges: Edge[], directed = true) =>
+                new Graph({ vertices: [0, 1, 2], edges, directed }).connectivity();
+            expect(connectivity([{ from: 0, to: 1 }, { from: 1, to: 2 }, { from: 2, to: 0 }])).toBe('strong');
+            expect(connectivity([{ from: 0, to: 1 }, { from: 1, to: 2 }])).toBe('unilateral');
+            expect(connectivity([{ from: 0, to: 1 }, { from: 2, to: 1 }])).toBe('weak');
+            expect(connectivity([{ from: 0, to: 1 }])).toBe('disconnected');
+            expect(connectivity([{ from: 0, to: 1 }], false)).toBe('disconnected');
+        });
+
+        it("выбрасывает ошибку для пустого графа", () => {
+            expect(() => new Graph().metrics()).toThrow(GraphValidationError);
+        });
+    });
+
+    describe("центральность", () => {
+        const path = new Graph({ vertices, edges });
+        const diamond = new Graph({
+            vertices: [0, 1, 2, 3],
+            edges: [{ from: 0, to: 1 }, { from: 0, to: 2 }, { from: 1, to: 3 }, { from: 2, to: 3 }]
+        });
+
+        it("вычисляет центральность по степени", () => {
+            expect(path.degreeCentrality('out')).toEqual({ 0: 0.5, 1: 0.5, 2: 0 });
+            expect(path.degreeCentrality('in')).toEqual({ 0: 0, 1: 0.5, 2: 0.5 });
+        });
+
+        it("вычисляет близость с учётом недостижимых вершин", () => {
+            const closeness = new Graph({ vertices, edges, directed: false }).closenessCentrality();
+            expect(closeness[0]).toBeCloseTo(2 / 3);
+            expect(closeness[1]).toBeCloseTo(1);
+            expect(path.closenessCentrality()[2]).toBe(0);
+        });
+
+        it("вычисляет посредничество с делением между равными путями", () => {
+            expect(path.betweennessCentrality()).toEqual({ 0: 0, 1: 1, 2: 0 });
+            expect(new Graph({ vertices, edges, directed: false }).betweennessCentrality()).toEqual({ 0: 0, 1: 1, 2: 0 });
+            expect(diamond.betweennessCentrality()).toEqual({ 0: 0, 1: 0.5, 2: 0.5, 3: 0 });
+        });
+
+        it("учитывает веса при вычислении посредничества", () => {
+            const triangle = (weight?: number) => new Graph({
+                vertices,
+                edges: [{ from: 0, to: 1, weight: 1 }, { from: 1, to: 2, weight: 1 }, { from: 0, to: 2, weight }]
+            });
+            expect(triangle(5).betweennessCentrality()[1]).toBe(1);
+            expect(triangle().betweennessCentrality()[1]).toBe(0);
+        });
+
+        it("вычисляет PageRank", () => {
+            const cycle = new Graph({ vertices, edges: [...edges, { from: 2, to: 0 }] });
+            Object.values(cycle.pageRank()).forEach(rank => expect(rank).toBeCloseTo(1 / 3));
+
+            const rank = diamond.pageRank(0.85);
+            expect(Object.values(rank).reduce((sum, value) => sum + value, 0)).toBeCloseTo(1);
+            expect(rank[3]).toBeGreaterThan(rank[1]);
+            expect(rank[1]).toBeCloseTo(rank[2]);
+            expect(rank[1]).toBeGreaterThan(rank[0]);
+        });
+
+        it("распределяет PageRank пропорционально весам", () => {
+            const graph = new Graph({
+                vertices,
+                edges: [
+                    { from: 0, to: 1, weight: 3 },
+                    { from: 0, to: 2, weight: 1 },
+                    { from: 1, to: 0, weight: 1 },
+                    { from: 2, to: 0, weight: 1 }
+                ]
+            });
+            const rank = graph.pageRank(0.85);
+            // Без учёта случайного перехода (1 - 0.85) / 3 ранги вершин 1 и 2 относятся как веса рёбер
+            expect(rank[1] - 0.05).toBeCloseTo(3 * (rank[2] - 0.05));
+            expect(graph.pageRank(0)).toEqual({ 0: 1 / 3, 1: 1 / 3, 2: 1 / 3 });
+        });
+
+        it("выбрасывает ошибку для некорректных аргументов", () => {
+            expect(() => path.pageRank(1.5)).toThrow(GraphArgumentError);
+            const negative = new Graph({ vertices, edges: [{ from: 0, to: 1, weight: -1 }] });
+            expect(() => negative.betweennessCentrality()).toThrow(GraphArgumentError);
+            expect(() => negative.closenessCentrality()).toThrow(GraphArgumentError);
+            expect(() => negative.pageRank()).toThrow(GraphArgumentError);
+        });
+    });
+
+    describe("сравнение графов", () => {
+        it("находит добавленные и удалённые вершины и рёбра", () => {
+            const before = new Graph({
+                vertices: [0, 1, 2],
+                edges: [{ from: 0, to: 1, weight: 2 }, { from: 1, to: 2 }, { from: 0, to: 2 }]
+            });
+            const after = new Graph({
+                vertices: [0, 1, 3],
+                edges: [{ from: 0, to: 1, weight: 5 }, { from: 1, to: 3 }]
+            });
+            expect(before.diff(after)).toEqual({
+                addedVertices: [3],
+                removedVertices: [2],
+                addedEdges: [{ from: 1, to: 3 }],
+                removedEdges: [{ from: 1, to: 2 }, { from: 0, to: 2 }],
+                changedEdges: [{ from: 0, to: 1, oldWeight: 2, newWeight: 5 }],
+                directedChanged: false
+            });
+        });
+
+        it("сопоставляет параллельные рёбра по порядку", () => {
+            const before = new Graph({ vertices, edges: [{ from: 0, to: 1 }] });
+            const after = new Graph({ vertices, edges: [{ from: 0, to: 1 }, { from: 0, to: 1, weight: 3 }] });
+            const diff = before.diff(after);
+            expect(diff.addedEdges).toEqual([{ from: 0, to: 1, weight: 3 }]);
+            expect(diff.changedEdges).toEqual([]);
+            expect(after.diff(before).removedEdges).toEqual([{ from: 0, to: 1, weight: 3 }]);
+        });
+
+        it("не различает направление рёбер неориентированного графа", () => {
+            const before = new Graph({ vertices, edges: [{ from: 0, to: 1 }], directed: false });
+            const after = new Graph({ vertices, edges: [{ from: 1, to: 0 }], directed: false });
+            expect(before.diff(after)).toEqual({
+                addedVertices: [],
+                removedVertices: [],
+                addedEdges: [],
+                removedEdges: [],
+                changedEdges: [],
+                directedChanged: false
+            });
+        });
+
+        it("сравнивает графы разной ориентированности как ориентированные", () => {
+            const before = new Graph({ vertices, edges: [{ from: 0, to: 1, weight: 2 }, { from: 1, to: 2 }], directed: false });
+            const after = new Graph({ vertices, edges: [{ from: 1, to: 0, weight: 4 }, { from: 1, to: 2 }, { from: 2, to: 1 }] });
+            expect(before.diff(after)).toEqual({
+                addedVertices: [],
+                removedVertices: [],
+                addedEdges: [],
+                removedEdges: [{ from: 0, to: 1, weight: 2 }],
+                changedEdges: [{ from: 1, to: 0, oldWeight: 2, newWeight: 4 }],
+                directedChanged: true
+            });
+            expect(after.diff(before).directedChanged).toBe(true);
+            expect(after.diff(before).addedEdges).toEqual([{ from: 0, to: 1, weight: 2 }]);
+        });
+    });
+
+    describe("изоморфизм", () => {
+        // Перенумеровывает вершины графа по перестановке
+        function renumber(graph: Graph, permutation: Vertex[]): Graph {
+            return new Graph({
+                vertices: [...graph.vertices],
+                edges: [...graph.edges].reverse().map(({ from, to }) => ({ from: permutation[from], to: permutation[to] })),
+                directed: graph.directed
+            });
+        }
+
+        function shuffle(size: number, seed: number): Vertex[] {
+            const random = createRandom(seed);
+            const permutation = Array.from({ length: size }, (_, i) => i);
+            for (let i = size - 1; i > 0; i--) {
+                const j = Math.floor(random() * (i + 1));
+                [permutation[i], permutation[j]] = [permutation[j], permutation[i]];
+            }
+            return permutation;
+        }
+
+        function expectIsomorphism(a: Graph, b: Graph) {
+            const mapping = a.isIsomorphicTo(b);
+            expect(mapping).not.toBeNull();
+            expect(new Set(Object.values(mapping!)).size).toBe(a.vertices.length);
+            a.edges.forEach(({ from, to }) => expect(b.hasEdge(mapping![from], mapping![to])).toBe(true));
+            expect(a.canonicalForm()).toBe(b.canonicalForm());
+            expect(a.canonicalHash()).toBe(b.canonicalHash());
+        }
+
+        it("распознаёт перенумерованные случайные графы", () => {
+            for (let seed = 1; seed <= 15; seed++) {
+                const graph = randomGraph(seed, 12, 0.2);
+                expectIsomorphism(graph, renumber(graph, shuffle(12, seed)));
+            }
+        });
+
+        it("распознаёт граф, перенумерованный по иерархическим уровням", () => {
+            const graph = new Graph({
+                vertices: [0, 1, 2, 3, 4],
+                edges: [{ from: 3, to: 0 }, { from: 0, to: 1 }, { from: 4, to: 1 }, { from: 1, to: 2 }, { from: 3, to: 2 }]
+            });
+            const order = graph.HL.flat();
+            const reassigned = renumber(graph, graph.vertices.map(vertex => order.indexOf(vertex)));
+            expectIsomorphism(graph, reassigned);
+            expect(reassigned.HL.flat()).toEqual([0, 1, 2, 3, 4]);
+        });
+
+        it("распознаёт симметричные графы", () => {
+            const complete = new Graph({
+                vertices: [0, 1, 2, 3, 4, 5],
+                edges: [0, 1, 2, 3, 4, 5].flatMap(u => [0, 1, 2, 3, 4, 5].filter(v => u < v).map(v => ({ from: u, to: v }))),
+                directed: false
+            });
+            expectIsomorphism(complete, renumber(complete, shuffle(6, 3)));
+
+            // Граф Петерсена: внешний и внутренний циклы и спицы
+            const petersen = new Graph({
+                vertices: Array.from({ length: 10 }, (_, i) => i),
+                edges: [0, 1, 2, 3, 4].flatMap(i => [
+                    { from: i, to: (i + 1) % 5 },
+                    { from: 5 + i, to: 5 + (i + 2) % 5 },
+                    { from: i, to: 5 + i }
+                ]),
+                directed: false
+            });
+            expectIsomorphism(petersen, renumber(petersen, shuffle(10, 7)));
+        });
+
+        it("различает неизоморфные графы", () => {
+            const path = new Graph({ vertices, edges });
+            const fork = new Graph({ vertices, edges: [{ from: 0, to: 1 }, { from: 0, to: 2 }] });
+            expect(path.isIsomorphicTo(fork)).toBeNull();
+            expect(path.canonicalForm()).not.toBe(fork.canonicalForm());
+            expect(path.isIsomorphicTo(new Graph({ vertices, edges, directed: false }))).toBeNull();
+
+            const twoTriangles = new Graph({
+                vertices: [0, 1, 2, 3, 4, 5],
+                edges: [[0, 1], [1, 2], [2, 0], [3, 4], [4, 5], [5, 3]].map(([from, to]) => ({ from, to })),
+                directed: false
+            });
+            const hexagon = new Graph({
+                vertices: [0, 1, 2, 3, 4, 5],
+                edges: [0, 1, 2, 3, 4, 5].map(i => ({ from: i, to: (i + 1) % 6 })),
+                directed: false
+            });
+            expect(twoTriangles.isIsomorphicTo(hexagon)).toBeNull();
+        });
+
+        it("учитывает кратность параллельных рёбер", () => {
+            const single = new Graph({ vertices, edges: [{ from: 0, to: 1 }, { from: 1, to: 2 }, { from: 1, to: 2 }] });
+            const other = new Graph({ vertices, edges: [{ from: 0, to: 1 }, { from: 0, to: 1 }, { from: 1, to: 2 }] });
+            expect(single.isIsomorphicTo(other)).toBeNull();
+        });
+    });
+
+    describe("свойства на случайных графах", () => {
+        const seeds = Array.from({ length: 25 }, (_, i) => i + 1);
+
+        // Разнообразные графы: взвешенные и невзвешенные, ориентированные и нет
+        function sampleGraphs(seed: number): Graph[] {
+            const size = 2 + seed % 9;
+            const probability = 0.1 + (seed % 5) * 0.15;
+            return [
+                randomWeightedGraph(size, probability, -5, 20, true, seed),
+                randomWeightedGraph(size, probability, 0, 20, false, seed),
+                erdosRenyiGraph(size, probability, true, seed),
+                erdosRenyiGraph(size, probability, false, seed),
+            ];
+        }
+
+        function expectDistances(actual: Record<Vertex, Record<Vertex, number>>, expected: Record<Vertex, Record<Vertex, number>>) {
+            for (const from of Object.keys(expected)) {
+                for (const to of Object.keys(expected[Number(from)])) {
+                    const value = expected[Number(from)][Number(to)];
+                    if (Number.isFinite(value)) {
+                        expect(actual[Number(from)][Number(to)]).toBeCloseTo(value);
+                    } else {
+                        expect(actual[Number(from)][Number(to)]).toBe(value);
+                    }
+                }
+            }
+        }
+
+        it("Джонсон, Флойд — Уоршелл и Беллман — Форд дают одинаковые расстояния", () => {
+            for (const seed of seeds) {
+                for (const graph of sampleGraphs(seed)) {
+                    const floyd = graph.floydWarshall().distances;
+                    const bellmanFord = Object.fromEntries(graph.vertices.map(vertex => [vertex, graph.bellmanFord(vertex)]));
+                    expectDistances(graph.johnson(), floyd);
+                    expectDistances(bellmanFord, floyd);
+                    if (graph.edges.every(edge => (edge.weight ?? 1) >= 0)) {
+                        expectDistances(Object.fromEntries(graph.vertices.map(vertex => [vertex, graph.dijkstra(vertex)])), floyd);
+                    }
+                }
+            }
+        });
+
+        it("алгоритмы согласованно отвергают циклы отрицательного веса", () => {
+            for (const seed of seeds) {
+                // Сдвиг весов вниз делает часть циклов отрицательными
+                const base = randomWeightedGraph(6, 0.4, 0, 10, true, seed);
+                const graph = new Graph({
+                    ...base.asObject,
+                    edges: base.edges.map(edge => ({ ...edge, weight: edge.weight! - 2 }))
+                });
+                let negativeCycle = false;
+                try {
+                    graph.floydWarshall();
+                } catch (e) {
+                    expect(e).toBeInstanceOf(GraphCycleError);
+                    negativeCycle = true;
+                }
+                if (negativeCycle) {
+                    expect(() => graph.johnson()).toThrow(GraphCycleError);
+                    expect(() => graph.vertices.forEach(vertex => graph.bellmanFord(vertex))).toThrow(GraphCycleError);
+                } else {
+                    expectDistances(graph.johnson(), graph.floydWarshall().distances);
+                }
+            }
+        });
+
+        it("расстояния удовлетворяют неравенству треугольника по каждой дуге", () => {
+            for (const seed of seeds) {
+                for (const graph of sampleGraphs(seed)) {
+                    const distances = graph.johnson();
+                    for (const source of graph.vertices) {
+                        expect(distances[source][source]).toBe(0);
+                        for (const { from, to, weight } of graph.edges) {
+                            const arcs = graph.directed ? [[from, to]] : [[from, to], [to, from]];
+                            for (const [u, v] of arcs) {
+                                expect(distances[source][v]).toBeLessThanOrEqual(distances[source][u] + (weight ?? 1) + 1e-9);
+                            }
+                        }
+                    }
+                }
+            }
+        });
+
+        it("иерархические уровни согласованы со всеми дугами", () => {
+            for (const seed of seeds) {
+                const dag = randomDag(1 + seed % 5, 5 + seed % 11, 0.1 + (seed % 4) * 0.1, seed);
+                const levelOf = new Map<Vertex, number>();
+                dag.HL.forEach((level, index) => level.forEach(vertex => levelOf.set(vertex, index)));
+                expect([...levelOf.keys()].sort((a, b) => a - b)).toEqual([...dag.vertices]);
+                for (const { from, to } of dag.edges) {
+                    expect(levelOf.get(from)!).toBeLessThan(levelOf.get(to)!);
+                }
+                // Вершина каждого уровня, кроме первого, имеет предшественника на предыдущем уровне
+                for (const [vertex, level] of levelOf) {
+                    if (level > 0) {
+                        expect(dag.edges.some(({ from, to }) => to === vertex && levelOf.get(from) === level - 1)).toBe(true);
+                    }
+                }
+            }
+        });
+
+        it("декомпозиция разбивает вершины на множества взаимно достижимых", () => {
+            for (const seed of seeds) {
+                const graph = erdosRenyiGraph(3 + seed % 10, 0.05 + (seed % 6) * 0.05, true, seed);
+                const reachable = graph.reachabilityMatrix;
+                const index = new Map(graph.vertices.map((vertex, i) => [vertex, i]));
+                const mutual = (u: Vertex, v: Vertex) =>
+                    reachable[index.get(u)!][index.get(v)!] === 1 && reachable[index.get(v)!][index.get(u)!] === 1;
+
+                const parts = [...graph.decompose().subGraphs].map(sub => [...sub.vertices]);
+                expect(parts.flat().sort((a, b) => a - b)).toEqual([...graph.vertices]);
+                parts.forEach((part, i) => {
+                    part.forEach(u => part.forEach(v => expect(mutual(u, v)).toBe(true)));
+                    parts.slice(i + 1).forEach(other => expect(mutual(part[0], other[0])).toBe(false));
+                });
+            }
+        });
+
+        it("сохраняет граф при переводе в JSON и обратно", () => {
+            for (const seed of seeds) {
+                for (const graph of sampleGraphs(seed)) {
+                    const labelled = graph.withLabel(0, `Вершина ${seed}`).withAttributes(0, { seed });
+                    expect(Graph.fromJSON(labelled.asJSON).asObject).toEqual(labelled.asObject);
+                }
+            }
+        });
+
+        it("сохраняет граф при переводе в матрицу смежности и обратно", () => {
+            for (const seed of seeds) {
+                for (const directed of [true, false]) {
+                    const graph = erdosRenyiGraph(1 + seed % 10, 0.3, directed, seed);
+                    const restored = Graph.fromAdjMatrix(graph.asAdjMatrix, directed);
+                    expect(restored.asAdjMatrix).toEqual(graph.asAdjMatrix);
+                    expect(restored.edges).toHaveLength(graph.edges.length);
+                    expect(graph.diff(restored)).toEqual({
+                        addedVertices: [],
+                        removedVertices: [],
+                        addedEdges: [],
+                        removedEdges: [],
+                        changedEdges: [],
+                        directedChanged: false
+                    });
+                }
+            }
+        });
+
+        it("сохраняет взвешенный граф при переводе в матрицу расстояний и обратно", () => {
+            for (const seed of seeds) {
+                const graph = randomWeightedGraph(1 + seed % 10, 0.4, -5, 20, true, seed);
+                const restored = Graph.fromDisMatrix(graph.asDistanceMatrix);
+                expect(restored.edges).toEqual(graph.edges);
+                expectDistances(restored.johnson(), graph.johnson());
+                expect(Graph.fromAdjMatrix(graph.asWeightedAdjMatrix.map(row => row.map(cell => cell ?? 0)), true, true).edges)
+                    .toEqual(graph.edges.filter(edge => edge.weight !== 0));
+            }
+        });
+
+        it("строит по матрице расстояний дуги для заполненных ячеек", () => {
+            for (const seed of seeds) {
+                for (const directed of [true, false]) {
+                    const size = 1 + seed % 8;
+                    const random = erdosRenyiGraph(size, 0.4, directed, seed);
+                    const matrix = random.asAdjMatrix.map((row, i) =>
+                        row.map((cell, j) => i === j ? 0 : cell ? (i + j) % 7 + 1 : null)
+                    );
+                    const graph = Graph.fromDisMatrix(matrix, directed);
+                    expect(graph.vertices).toEqual(random.vertices);
+                    expect(graph.directed).toBe(directed);
+                    expect(graph.asAdjMatrix).toEqual(random.asAdjMatrix);
+                    expect(graph.asWeightedAdjMatrix).toEqual(matrix.map((row, i) => row.map((cell, j) => i === j ? null : cell)));
+                }
+            }
+        });
+    });
+
+    describe("построитель графа", () => {
+        it("даёт тот же граф, что и цепочка изменений", () => {
+            const graph = new Graph({ vertices, edges }).withLabel(1, "B");
+            const chained = graph
+                .withVertex(3)
+                .withEdge({ from: 2, to: 3, weight: 4 })
+                .withoutEdge({ from: 0, to: 1 })
+                .withoutVertex(1)
+                .withAttributes(3, { cost: 1 });
+            const mutated = graph.mutate(draft => draft
+                .addVertex(3)
+                .addEdge({ from: 2, to: 3, weight: 4 })
+                .removeEdge({ from: 0, to: 1 })
+                .removeVertex(1)
+                .setAttributes(3, { cost: 1 })
+            );
+            expect(mutated.asObject).toEqual(chained.asObject);
+            expect(graph.vertices).toEqual(vertices);
+        });
+
+        it("проверяет граф только при построении", () => {
+            const builder = new GraphBuilder().addEdge({ from: 0, to: 1 });
+            expect(() => builder.build()).toThrow(GraphValidationError);
+            expect(builder.addVertex(0).addVertex(1).build().edges).toEqual([{ from: 0, to: 1 }]);
+            expect(() => builder.setLabel(5, "X").build()).toThrow(GraphValidationError);
+            expect(() => builder.addEdge({ from: "0", to: 1 } as unknown as Edge)).toThrow(GraphArgumentError);
+            expect(() => builder.addVertex("0" as unknown as Vertex)).toThrow(GraphArgumentError);
+        });
+
+        it("учитывает параллельные рёбра и направление", () => {
+            const undirected = new GraphBuilder({ vertices, directed: false })
+                .addEdge({ from: 0, to: 1 })
+                .addEdge({ from: 1, to: 0 });
+            expect(undirected.hasEdge(1, 0)).toBe(true);
+            expect(undirected.build().edges).toHaveLength(2);
+            undirected.removeVertex(1).addVertex(1);
+            expect(undirected.hasEdge(0, 1)).toBe(false);
+            expect(undirected.build().edges).toEqual([]);
+
+            const directed = new GraphBuilder({ vertices }).addEdge({ from: 0, to: 1 });
+            expect(directed.hasEdge(1, 0)).toBe(false);
+            expect(directed.removeEdge({ from: 1, to: 0 }).build().edges).toHaveLength(1);
+        });
+
+        it("строит граф из 10000 рёбер", () => {
+            const size = 10000;
+            const graph = new Graph().mutate(draft => {
+                for (let v = 0; v < size; v++) draft.addVertex(v);
+                for (let v = 0; v < size; v++) draft.addEdge({ from: v, to: (v + 1) % size });
+            });
+            expect(graph.vertices).toHaveLength(size);
+            expect(graph.edges).toEqual(graph.vertices.map(v => ({ from: v, to: (v + 1) % size })));
+            expect(graph.stronglyConnectedComponents()).toHaveLength(1);
+        });
+
+        it("удаляет повторяющиеся рёбра неориентированного графа в фабриках", () => {
+            expect(Graph.fromIncList({ 0: [1], 1: [0] }, "left", false).edges).toEqual([{ from: 1, to: 0 }]);
+            expect(Graph.fromIncList({ 0: [1, 1], 1: [] }).edges).toHaveLength(2);
+            expect(Graph.fromAdjMatrix([[0, 1], [1, 0]], false).edges).toEqual([{ from: 0, to: 1 }]);
+        });
+    });
+
+    describe("взвешенные матрицы", () => {
+        const distances = [
+            [0, 4, null],
+            [null, 0, -2],
+            [7, Infinity, 0]
+        ];
+
+        it("переносит расстояния из матрицы в веса рёбер", () => {
+            const graph = Graph.fromDisMatrix(distances);
+            expect(graph.edges).toEqual([
+                { from: 0, to: 1, weight: 4 },
+                { from: 1, to: 2, weight: -2 },
+                { from: 2, to: 0, weight: 7 }
+            ]);
+            expect(graph.weighted).toBe(true);
+            expect(graph.johnson()[0][2]).toBe(2);
+        });
+
+        it("возвращает взвешенную матрицу смежности и матрицу расстояний", () => {
+            const graph = Graph.fromDisMatrix(distances);
+            expect(graph.asWeightedAdjMatrix).toEqual([
+                [null, 4, null],
+                [null, null, -2],
+                [7, null, null]
+            ]);
+            expect(graph.asDistanceMatrix).toEqual([
+                [0, 4, Infinity],
+                [Infinity, 0, -2],
+                [7, Infinity, 0]
+            ]);
+            expect(() => new Graph().asWeightedAdjMatrix).toThrow(GraphValidationError);
+        });
+
+        it("берёт наименьший вес параллельных дуг и единичный вес дуг без веса", () => {
+            const graph = new Graph({
+                vertices: [0, 1],
+                edges: [{ from: 0, to: 1, weight: 5 }, { from: 0, to: 1, weight: 3 }, { from: 1, to: 0 }],
+            });
+            expect(graph.asWeightedAdjMatrix).toEqual([[null, 3], [1, null]]);
+            expect(new Graph({ vertices, edges }).weighted).toBe(false);
+        });
+
+        it("создаёт взвешенный граф из матрицы смежности", () => {
+            const matrix = [[0, 2], [2, 0]];
+            expect(Graph.fromAdjMatrix(matrix, false, true).edges).toEqual([{ from: 0, to: 1, weight: 2 }]);
+            expect(Graph.fromAdjMatrix(matrix, false).edges).toEqual([{ from: 0, to: 1 }]);
+            expect(Graph.fromDisMatrix([[0, 3], [3, 0]], false).asWeightedAdjMatrix).toEqual([[null, 3], [3, null]]);
+        });
+    });
+
+    describe("формат DOT", () => {
+        it("записывает вершины, названия и веса", () => {
+            const graph = new Graph({
+                vertices: [0, 1, 2],
+                edges: [{ from: 0, to: 1, weight: 2.5 }, { from: 1, to: 2 }],
+                labels: { 1: 'Склад "Север"' }
+            });
+            expect(graph.toDOT()).toBe([
+                'digraph G {',
+                '    0 [label=V1];',
+                '    1 [label="Склад \\"Север\\""];',
+                '    2 [label=V3];',
+                '    0 -> 1 [label=2.5];',
+                '    1 -> 2;',
+                '}',
+                ''
+            ].join('\n'));
+            expect(new Graph({ vertices: [0, 1], edges: [{ from: 0, to: 1 }], directed: false }).toDOT({ name: 'Сеть' }))
+                .toContain('graph "Сеть" {\n    0 [label=V1];\n    1 [label=V2];\n    0 -- 1;');
+        });
+
+        it("группирует вершины по уровням и подсистемам", () => {
+            const graph = new Graph({ vertices: [0, 1, 2, 3], edges: [{ from: 0, to: 1 }, { from: 0, to: 2 }, { from: 2, to: 3 }] });
+            expect(graph.toDOT({ groups: 'levels' })).toContain('    { rank=same; 1; 2; }\n');
+            const cyclic = graph.withEdge({ from: 3, to: 2 });
+            expect(cyclic.toDOT({ groups: 'subsystems' })).toContain('    subgraph cluster_3 { label="S3"; 2; 3; }\n');
+            expect(() => cyclic.toDOT({ groups: 'levels' })).toThrow(GraphValidationError);
+        });
+
+        it("читает цепочки рёбер, атрибуты и комментарии", () => {
+            const graph = Graph.fromDOT(`
+                /* модель системы */
+                strict digraph "Система" {
+                    node [shape=box];
+                    a [label="Вход"]; // источник
+                    a -> b -> c [weight=3];
+                    c -> a [label="-1.5", color=red]
+                    subgraph cluster_x { rankdir=LR; d; c -> d [label=далее] }
+                }
+            `);
+            expect(graph.directed).toBe(true);
+            expect(graph.vertices).toEqual([0, 1, 2, 3]);
+            expect(graph.labels).toEqual({ 0: 'Вход', 1: 'b', 2: 'c', 3: 'd' });
+            expect(graph.edges).toEqual([
+                { from: 0, to: 1, weight: 3 },
+                { from: 1, to: 2, weight: 3 },
+                { from: 2, to: 0, weight: -1.5 },
+                { from: 2, to: 3 }
+            ]);
+        });
+
+        it("сохраняет граф при записи в DOT и чтении", () => {
+            for (let seed = 1; seed <= 10; seed++) {
+                for (const graph of [
+                    randomWeightedGraph(2 + seed % 6, 0.4, -5, 20, true, seed),
+                    erdosRenyiGraph(2 + seed % 6, 0.4, false, seed).withLabel(0, `Узел ${seed}`),
+                    randomDag(2, 4 + seed % 5, 0.3, seed)
+                ]) {
+                    const restored = Graph.fromDOT(graph.toDOT({ groups: graph.directed ? 'subsystems' : 'none' }));
+                    expect(restored.asObject).toEqual(graph.asObject);
+                    expect(restored.directed).toBe(graph.directed);
+                }
+            }
+        });
+
+        it("экранирует обратную косую черту и перевод строки в названиях", () => {
+            const graph = new Graph({
+                vertices: [0, 1, 2],
+                edges: [{ from: 0, to: 1 }, { from: 1, to: 2 }],
+                labels: { 0: 'C:\\Temp\\', 1: 'Склад\n"Север"', 2: '\\n — не перевод строки' }
+            });
+            const dot = graph.toDOT();
+            expect(dot).toContain('    0 [label="C:\\\\Temp\\\\"];');
+            expect(dot).toContain('    1 [label="Склад\\n\\"Север\\""];');
+            expect(Graph.fromDOT(dot).labels).toEqual(graph.labels);
+            expect(Graph.fromDOT('digraph { a [label="раз\\\nдва"] }').labels).toEqual({ 0: 'раздва' });
+        });
+
+        it("сообщает об ошибках разбора", () => {
+            expect(() => Graph.fromDOT('graph { a -> b }')).toThrow(/строка 1/);
+            expect(() => Graph.fromDOT('digraph {\n a -> \n }')).toThrow(GraphArgumentError);
+            expect(() => Graph.fromDOT('digraph { a -> {b c} }')).toThrow(GraphArgumentError);
+            expect(() => Graph.fromDOT('digraph { a -> b [weight=много] }')).toThrow(GraphArgumentError);
+            expect(() => Graph.fromDOT('{ a }')).toThrow(GraphArgumentError);
+            expect(() => Graph.fromDOT('digraph { a }  b')).toThrow(GraphArgumentError);
+        });
+    });
+
+    describe("форматы GraphML и GEXF", () => {
+        const fixture = (name: string) => readFileSync(join(__dirname, '__fixtures__', name), 'utf-8');
+        const sample = new Graph({
+            vertices: [0, 1, 2, 3],
+            edges: [{ from: 0, to: 1, weight: 2.5 }, { from: 1, to: 2, weight: -1 }, { from: 0, to: 2 }, { from: 2, to: 3 }],
+            labels: { 0: 'Сбор & анализ', 2: 'Отчёт <итог>' },
+            attributes: { 0: { layer: 1, critical: true, note: 'первый' }, 2: { layer: 3 } }
+        });
+
+        it("читает файл yEd", () => {
+            const graph = Graph.fromGraphML(fixture('yed.graphml'));
+            expect(graph.directed).toBe(true);
+            expect(graph.vertices).toEqual([0, 1, 2]);
+            expect(graph.labels).toEqual({ 0: 'Сбор & анализ', 1: 'Проектирование', 2: 'Отчёт <итог>' });
+            expect(graph.attributes).toEqual({ 0: { layer: 1, critical: true }, 1: { layer: 0 }, 2: { layer: 2 } });
+            expect(graph.edges).toEqual([{ from: 0, to: 1, weight: 2.5 }, { from: 1, to: 2, weight: -1 }, { from: 0, to: 2 }]);
+        });
+
+        it("читает файл Gephi", () => {
+            const graph = Graph.fromGEXF(fixture('gephi.gexf'));
+            expect(graph.directed).toBe(false);
+            expect(graph.vertices).toEqual([0, 1, 2, 3]);
+            expect(graph.labels).toEqual({ 0: 'Альфа', 1: 'Бета', 2: 'Гамма', 3: 'd' });
+            expect(graph.attributes).toEqual({
+                0: { 'Modularity Class': 0, hub: true },
+                1: { 'Modularity Class': 1, hub: false },
+                2: { hub: false },
+                3: { hub: false }
+            });
+            expect(graph.edges).toEqual([{ from: 0, to: 1, weight: 3 }, { from: 1, to: 2, weight: 1.5 }, { from: 2, to: 3 }]);
+        });
+
+        it("сохраняет граф при записи и чтении", () => {
+            for (const graph of [sample, sample.withEdge({ from: 3, to: 3 }), new Graph({ ...sample.asObject, directed: false })]) {
+                expect(Graph.fromGraphML(graph.asGraphML).asObject).toEqual(graph.asObject);
+                expect(Graph.fromGEXF(graph.asGEXF).asObject).toEqual(graph.asObject);
+            }
+            for (const name of ['yed.graphml', 'gephi.gexf']) {
+                const graph = name.endsWith('.gexf') ? Graph.fromGEXF(fixture(name)) : Graph.fromGraphML(fixture(name));
+                expect(Graph.fromGraphML(graph.asGraphML).asObject).toEqual(graph.asObject);
+                expect(Graph.fromGEXF(graph.asGEXF).asObject).toEqual(graph.asObject);
+            }
+        });
+
+        it("записывает атрибуты разных типов строками", () => {
+            const mixed = sample.withAttributes(2, { layer: 'верх' });
+            expect(mixed.asGraphML).toContain('<key id="a0" for="node" attr.name="layer" attr.type="string"/>');
+            expect(Graph.fromGEXF(mixed.asGEXF).attributes[0]).toEqual({ layer: '1', critical: true, note: 'первый' });
+            expect(sample.asGraphML).toContain('<key id="a1" for="node" attr.name="critical" attr.type="boolean"/>');
+            expect(sample.asGEXF).toContain('<node id="0" label="Сбор &amp; анализ"><attvalues>');
+            expect(sample.asGEXF).toContain('<edge id="1" source="1" target="2" weight="-1"/>');
+        });
+
+        it("отклоняет неподдерживаемые конструкции", () => {
+            const graphml = (body: string, edgedefault = 'directed') =>
+                `<graphml><graph edgedefault="${edgedefault}"><node id="n0"/><node id="n1"/>${body}</graph></graphml>`;
+            expect(() => Graph.fromGraphML(graphml('<hyperedge><endpoint node="n0"/><endpoint node="n1"/></hyperedge>')))
+                .toThrow(/Гиперрёбра/);
+            expect(() => Graph.fromGraphML(graphml('<node id="n2"><graph edgedefault="directed"/></node>')))
+                .toThrow(/Вложенные графы/);
+            expect(() => Graph.fromGraphML(graphml('<node id="n2"><port name="north"/></node>'))).toThrow(/Порты/);
+            expect(() => Graph.fromGraphML(graphml('<edge source="n0" target="n1" directed="false"/>'))).toThrow(/ориентированности/);
+            expect(() => Graph.fromGraphML(graphml('<edge source="n0" target="n5"/>'))).toThrow(/неизвестную вершину/);
+            expect(() => Graph.fromGraphML('<graphml><graph/><graph/></graphml>')).toThrow(/ровно один граф/);
+            expect(() => Graph.fromGraphML('<gexf/>')).toThrow(/<graphml>/);
+            expect(() => Graph.fromGraphML('<graphml><graph>')).toThrow(/Ошибка разбора GraphML/);
+            expect(() => Graph.fromGraphML(
+                '<graphml><key id="w" for="edge" attr.name="weight"/><graph><node id="n0"/><edge source="n0" target="n0"><data key="w">x</data></edge></graph></graphml>'
+            )).toThrow(/должен быть числом/);
+
+            const gexf = (graph: string, body = '') =>
+                `<gexf><graph ${graph}><nodes><node id="0"/><node id="1"/>${body}</nodes><edges><edge source="0" target="1"/></edges></graph></gexf>`;
+            expect(() => Graph.fromGEXF(gexf('mode="dynamic"'))).toThrow(/Динамические/);
+            expect(() => Graph.fromGEXF(gexf('', '<node id="2" pid="0"/>'))).toThrow(/Вложенные вершины/);
+            expect(() => Graph.fromGEXF(gexf('', '<node id="2"><nodes><node id="3"/></nodes></node>'))).toThrow(/Вложенные вершины/);
+            expect(() => Graph.fromGEXF(gexf('defaultedgetype="directed"').replace('<edge ', '<edge type="undirected" ')))
+                .toThrow(/ориентированности/);
+            expect(() => Graph.fromGEXF('<gexf><graph><nodes><node id="0"/></nodes><edges><edge source="0" target="0" weight="тяжёлое"/></edges></graph></gexf>'))
+                .toThrow(GraphArgumentError);
+        });
+    });
+
+    describe("табличные форматы и Matrix Market", () => {
+        const weighted = new Graph({
+            vertices: [0, 1, 2, 3, 4],
+            edges: [{ from: 0, to: 1, weight: 2.5 }, { from: 1, to: 2, weight: -1 }, { from: 0, to: 2 }, { from: 2, to: 0, weight: 4 }]
+        });
+
+        it("читает список рёбер с заголовком, кавычками и названиями", () => {
+            const graph = Graph.fromEdgeList([
+                'Source;Target;Weight;Comment',
+                '"Склад; север";Магазин;"2,5";"ночная ""смена"""',
+                'Магазин;Офис;;',
+                'Архив;;;',
+                ''
+            ].join('\r\n'), { delimiter: ';', directed: false });
+            expect(graph.directed).toBe(false);
+            expect(graph.labels).toEqual({ 0: 'Склад; север', 1: 'Магазин', 2: 'Офис', 3: 'Архив' });
+            expect(graph.edges).toEqual([{ from: 0, to: 1, weight: 2.5 }, { from: 1, to: 2 }]);
+            expect(Graph.fromEdgeList('from\tto\n3\t5\n', { delimiter: '\t' }).vertices).toEqual([3, 5]);
+        });
+
+        it("сохраняет граф при записи и чтении", () => {
+            expect(weighted.toEdgeList()).toBe('from,to,weight\n3,,\n4,,\n0,1,2.5\n1,2,-1\n0,2,\n2,0,4\n');
+            for (const graph of [weighted, randomWeightedGraph(30, 0.1, -5, 20, true, 4), randomWeightedGraph(30, 0.2, 1, 9, false, 5)]) {
+                expect(Graph.fromEdgeList(graph.toEdgeList(), { directed: graph.directed }).asObject).toEqual(graph.asObject);
+                expect(Graph.fromEdgeList(graph.toEdgeList('\t'), { delimiter: '\t', directed: graph.directed }).asObject)
+                    .toEqual(graph.asObject);
+            }
+            for (const graph of [randomWeightedGraph(30, 0.1, -5, 20, true, 4), randomWeightedGraph(30, 0.2, 1, 9, false, 5)]) {
+                expect(Graph.fromMatrixMarket(graph.asMatrixMarket).asObject).toEqual(graph.asObject);
+            }
+            // Формат real требует значения у каждого элемента: дуга без веса получает вес 1
+            expect(Graph.fromMatrixMarket(weighted.asMatrixMarket).edges[2]).toEqual({ from: 0, to: 2, weight: 1 });
+            const unweighted = erdosRenyiGraph(15, 0.3, false, 6);
+            expect(Graph.fromMatrixMarket(unweighted.asMatrixMarket).asObject).toEqual(unweighted.asObject);
+        });
+
+        it("записывает и читает матрицы таблицей", () => {
+            expect(weighted.toMatrixTable('distance')).toBe('0\t2.5\t1\t\t\n\t0\t-1\t\t\n4\t\t0\t\t\n\t\t\t0\t\n\t\t\t\t0\n');
+            expect(Graph.fromMatrixTable(weighted.toMatrixTable('distance'), 'distance').asDistanceMatrix).toEqual(weighted.asDistanceMatrix);
+            expect(Graph.fromMatrixTable(weighted.toMatrixTable()).asAdjMatrix).toEqual(weighted.asAdjMatrix);
+            expect(Graph.fromMatrixTable('0\t1,5\t∞\n\t0\tinf\n-\t3\n', 'distance').edges)
+                .toEqual([{ from: 0, to: 1, weight: 1.5 }, { from: 2, to: 1, weight: 3 }]);
+            expect(Graph.fromMatrixTable('0;1\n1;0', 'adjacency', { delimiter: ';', directed: false }).edges).toEqual([{ from: 0, to: 1 }]);
+        });
+
+        it("записывает неориентированный граф симметричной матрицей Matrix Market", () => {
+            const graph = new Graph({ vertices: [2, 5, 7], edges: [{ from: 2, to: 5 }, { from: 5, to: 7 }], directed: false });
+            expect(graph.asMatrixMarket).toBe('%%MatrixMarket matrix coordinate pattern symmetric\n3 3 2\n2 1\n3 2\n');
+            expect(Graph.fromMatrixMarket([
+                '%%MatrixMarket matrix coordinate integer general',
+                '% комментарий',
+                '',
+                '3 3 2',
+                '1 3 7',
+                '3 3 -2'
+            ].join('\n')).edges).toEqual([{ from: 0, to: 2, weight: 7 }, { from: 2, to: 2, weight: -2 }]);
+        });
+
+        it("сообщает об ошибках", () => {
+            expect(() => Graph.fromEdgeList('a,b\n1,2')).toThrow(/столбцы from и to/);
+            expect(() => Graph.fromEdgeList('')).toThrow(/заголовка/);
+            expect(() => Graph.fromEdgeList('from,to,weight\n1,2,много')).toThrow(/должен быть числом/);
+            expect(() => Graph.fromEdgeList('from,to\n,2')).toThrow(/строке 2/);
+            expect(() => Graph.fromEdgeList('from,to\n"1,2')).toThrow(/Незакрытые кавычки/);
+            expect(() => Graph.fromEdgeList('from,to', { delimiter: ',,' })).toThrow(GraphArgumentError);
+            expect(() => Graph.fromMatrixTable('0\tx\n1\t0')).toThrow(/строке 1, столбце 2/);
+            expect(() => Graph.fromMatrixTable('0\t1\t1\n1\t0\t1')).toThrow(/квадратной/);
+            expect(() => Graph.fromMatrixMarket('1 1 0')).toThrow(/%%MatrixMarket/);
+            expect(() => Graph.fromMatrixMarket('%%MatrixMarket matrix array real general\n2 2\n')).toThrow(/array/);
+            expect(() => Graph.fromMatrixMarket('%%MatrixMarket matrix coordinate complex general\n1 1 0')).toThrow(/complex/);
+            expect(() => Graph.fromMatrixMarket('%%MatrixMarket matrix coordinate real hermitian\n1 1 0')).toThrow(/hermitian/);
+            expect(() => Graph.fromMatrixMarket('%%MatrixMarket matrix coordinate real general\n2 3 0')).toThrow(/квадратной/);
+            expect(() => Graph.fromMatrixMarket('%%MatrixMarket matrix coordinate real general\n2 2 2\n1 2 1')).toThrow(/найдено 1/);
+            expect(() => Graph.fromMatrixMarket('%%MatrixMarket matrix coordinate real general\n2 2 1\n1 3 1')).toThrow(/строка 3/);
+            expect(() => Graph.fromMatrixMarket('%%MatrixMarket matrix coordinate real general\n2 2 1\n1 2')).toThrow(/нет значения/);
+        });
+
+        it("читает разреженный граф из 10000 элементов Matrix Market", () => {
+            const size = 10000;
+            const lines = Array.from({ length: size }, (_, i) => `${i + 1} ${(i + 1) % size + 1} ${i % 7}`);
+            const text = ['%%MatrixMarket matrix coordinate integer general', `${size} ${size} ${size}`, ...lines].join('\n');
+            const graph = Graph.fromMatrixMarket(text);
+            expect(graph.vertices).toHaveLength(size);
+            expect(graph.edges).toHaveLength(size);
+            expect(graph.asMatrixMarket).toBe(text.replace('integer', 'real') + '\n');
+        });
+    });
+});
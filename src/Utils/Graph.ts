@@ -1,5 +1,8 @@
 import { MinPriorityQueue } from "@datastructures-js/priority-queue";
-import type { Edge, IGraphData, Vertex } from "../Types/GraphData.types";
+import { parseDot, quoteDotId, type DotDocument } from "./Dot";
+import { escapeXml, parseXml, type XmlElement } from "./Xml";
+import { formatDelimited, parseDelimited, parseNumberTable } from "./Delimited";
+import type { ActivityEstimate, ActivitySchedule, AllPairsShortestPaths, Connectivity, CriticalPathResult, DelimitedOptions, DotExportOptions, Edge, EdgeChange, EventTimes, FeedbackArcSet, FloydWarshallResult, GraphDiff, GraphDocumentIssue, GraphMetrics, IGraphData, MatrixTableKind, MaxFlowResult, PertResult, ShortestPath, ShortestPathTree, SpanningForest, Vertex, VertexAttributes } from "../Types/GraphData.types";
 
 /**
  * Ошибка валидации графа.
@@ -30,7 +33,65 @@ export class GraphArgumentError extends Error {
 }
 
 /**
- * Класс неизменяемого ориентированного графа.
+ * Ошибка цикла в графе.
+ * Возникает, если алгоритм неприменим к графу с циклом; содержит найденный цикл,
+ * чтобы его можно было показать пользователю.
+ */
+export class GraphCycleError extends GraphValidationError {
+    /**
+     * Вершины цикла в порядке обхода (за последней следует первая).
+     */
+    readonly cycle: Vertex[];
+
+    /**
+     * Дуги цикла в порядке обхода.
+     */
+    readonly edges: Edge[];
+
+    /**
+     * Суммарный вес цикла (для цикла отрицательного веса).
+     */
+    readonly weight?: number;
+
+    /**
+     * @param {string} message Сообщение об ошибке
+     * @param {Vertex[]} cycle Вершины цикла в порядке обхода
+     * @param {Edge[]} edges Дуги цикла в порядке обхода
+     * @param {number} [weight] Суммарный вес цикла
+     */
+    constructor(message: string, cycle: Vertex[], edges: Edge[], weight?: number) {
+        super(message);
+        this.name = "GraphCycleError";
+        this.cycle = cycle;
+        this.edges = edges;
+        this.weight = weight;
+    }
+}
+
+/**
+ * Ошибка документа графа.
+ * Возникает, если сохранённый файл графа не соответствует формату; содержит все найденные
+ * нарушения с путями JSON, чтобы пользователь мог исправить файл за один раз.
+ */
+export class GraphDocumentError extends GraphArgumentError {
+    /**
+     * Нарушения формата с путями JSON (например, $.edges[2].to).
+     */
+    readonly issues: GraphDocumentIssue[];
+
+    /**
+     * @param {string} message Сообщение об ошибке
+     * @param {GraphDocumentIssue[]} issues Нарушения формата
+     */
+    constructor(message: string, issues: GraphDocumentIssue[]) {
+        super(message);
+        this.name = "GraphDocumentError";
+        this.issues = issues;
+    }
+}
+
+/**
+ * Класс неизменяемого графа (ориентированного или неориентированного).
  * Позволяет создавать граф, преобразовывать его между различными представлениями,
  * а также добавлять и удалять вершины и рёбра.
  */
@@ -47,6 +108,48 @@ export class Graph {
      */
     private readonly _edges: ReadonlyArray<Edge>;
 
+    /**
+     * @group Properties
+     * Признак ориентированного графа.
+     */
+    private readonly _directed: boolean;
+
+    /**
+     * @group Properties
+     * Названия вершин графа.
+     */
+    private readonly _labels: Readonly<Record<Vertex, string>>;
+
+    /**
+     * @group Properties
+     * Атрибуты вершин графа.
+     */
+    private readonly _attributes: Readonly<Record<Vertex, Readonly<VertexAttributes>>>;
+
+    /**
+     * @group Properties
+     * Индекс вершины в списке вершин графа.
+     */
+    private readonly _indexOf: ReadonlyMap<Vertex, number>;
+
+    /**
+     * @group Properties
+     * Исходящие рёбра каждой вершины.
+     */
+    private readonly _outEdges: ReadonlyMap<Vertex, ReadonlyArray<Edge>>;
+
+    /**
+     * @group Properties
+     * Входящие рёбра каждой вершины.
+     */
+    private readonly _inEdges: ReadonlyMap<Vertex, ReadonlyArray<Edge>>;
+
+    /**
+     * @group Properties
+     * Дуги графа: рёбра неориентированного графа представлены двумя встречными дугами.
+     */
+    private readonly _arcs: ReadonlyArray<Edge>;
+
     /**
      * @group Properties
      * Возвращает список вершин графа.
@@ -59,23 +162,89 @@ export class Graph {
      */
     get edges(): ReadonlyArray<Edge> { return this._edges; }
 
+    /**
+     * @group Properties
+     * Возвращает true, если граф ориентированный.
+     */
+    get directed(): boolean { return this._directed; }
+
+    /**
+     * @group Properties
+     * Возвращает true, если хотя бы одно ребро графа имеет вес.
+     */
+    get weighted(): boolean { return this._edges.some(edge => edge.weight !== undefined); }
+
+    /**
+     * @group Properties
+     * Возвращает названия вершин, заданные явно.
+     */
+    get labels(): Readonly<Record<Vertex, string>> { return this._labels; }
+
+    /**
+     * @group Properties
+     * Возвращает атрибуты вершин.
+     */
+    get attributes(): Readonly<Record<Vertex, Readonly<VertexAttributes>>> { return this._attributes; }
+
     /**
      * @group Constructors
      * Создаёт новый экземпляр графа.
-     * @param {Partial<IGraphData>} [params] Объект с вершинами и рёбрами графа
-     * @throws {GraphArgumentError} Если вершины или рёбра заданы неверно
-     * @throws {GraphValidationError} Если рёбра ссылаются на несуществующие вершины
+     * @param {Partial<IGraphData>} [params] Объект с вершинами, рёбрами и метаданными вершин графа
+     * @throws {GraphArgumentError} Если вершины, рёбра или метаданные заданы неверно
+     * @throws {GraphValidationError} Если рёбра или метаданные ссылаются на несуществующие вершины
      */
-    public constructor({ vertices = [], edges = [] }: Partial<IGraphData> = {}) {
+    public constructor({ vertices = [], edges = [], directed = true, labels = {}, attributes = {} }: Partial<IGraphData> = {}) {
         if (!Array.isArray(vertices)) {
             throw new GraphArgumentError("Вершины должны быть массивом");
         }
         if (!Array.isArray(edges)) {
             throw new GraphArgumentError("Рёбра должны быть массивом");
         }
+        if (typeof directed !== 'boolean') {
+            throw new GraphArgumentError("Признак ориентированности должен быть логическим значением");
+        }
+        if (!labels || typeof labels !== 'object' || Array.isArray(labels)) {
+            throw new GraphArgumentError("Названия вершин должны быть объектом");
+        }
+        if (!attributes || typeof attributes !== 'object' || Array.isArray(attributes)) {
+            throw new GraphArgumentError("Атрибуты вершин должны быть объектом");
+        }
         this._vertices = Object.freeze([...vertices]);
         this._edges = Object.freeze([...edges]);
+        this._directed = directed;
+        this._labels = Object.freeze({ ...labels });
+        this._attributes = Object.freeze(Object.fromEntries(
+            Object.entries(attributes).map(([vertex, values]) => [vertex, Object.freeze({ ...values })])
+        ));
+
+        const indexOf = new Map<Vertex, number>();
+        const outEdges = new Map<Vertex, Edge[]>();
+        const inEdges = new Map<Vertex, Edge[]>();
+        this._vertices.forEach((vertex, index) => {
+            if (indexOf.has(vertex)) return;
+            indexOf.set(vertex, index);
+            outEdges.set(vertex, []);
+            inEdges.set(vertex, []);
+        });
+        this._indexOf = indexOf;
+        this._outEdges = outEdges;
+        this._inEdges = inEdges;
         this.validateGraph();
+        this.validateMeta();
+
+        const arcs: Edge[] = [];
+        for (const edge of this._edges) {
+            outEdges.get(edge.from)!.push(edge);
+            inEdges.get(edge.to)!.push(edge);
+            arcs.push(edge);
+            if (!directed && edge.from !== edge.to) {
+                const reversed = { ...edge, from: edge.to, to: edge.from };
+                outEdges.get(reversed.from)!.push(reversed);
+                inEdges.get(reversed.to)!.push(reversed);
+                arcs.push(reversed);
+            }
+        }
+        this._arcs = Object.freeze(arcs);
     }
 
     /**
@@ -112,10 +281,10 @@ export class Graph {
      * @throws {GraphValidationError} Если вершины ребра отсутствуют в графе
      */
     private validateEdgeVertices(edge: Edge): void {
-        if (!this._vertices.includes(edge.from)) {
+        if (!this._indexOf.has(edge.from)) {
             throw new GraphValidationError(`Вершина ${edge.from} не найдена в графе`);
         }
-        if (!this._vertices.includes(edge.to)) {
+        if (!this._indexOf.has(edge.to)) {
             throw new GraphValidationError(`Вершина ${edge.to} не найдена в графе`);
         }
     }
@@ -127,25 +296,53 @@ export class Graph {
      * @throws {GraphValidationError} Если найдено некорректное ребро
      */
     private validateGraph(): void {
-        const vertexSet = new Set(this._vertices);
         for (const { from, to } of this._edges) {
-            if (!vertexSet.has(from)) {
+            if (!this._indexOf.has(from)) {
                 throw new GraphValidationError(`Вершина ${from} не найдена в графе`);
             }
-            if (!vertexSet.has(to)) {
+            if (!this._indexOf.has(to)) {
                 throw new GraphValidationError(`Вершина ${to} не найдена в графе`);
             }
         }
     }
 
+    /**
+     * @group Validation
+     * Проверяет, что названия и атрибуты заданы только для существующих вершин.
+     * @private
+     * @throws {GraphArgumentError} Если название или атрибуты имеют неверный тип
+     * @throws {GraphValidationError} Если метаданные ссылаются на несуществующую вершину
+     */
+    private validateMeta(): void {
+        for (const [vertex, label] of Object.entries(this._labels)) {
+            if (!this._indexOf.has(Number(vertex))) {
+                throw new GraphValidationError(`Вершина ${vertex} не найдена в графе`);
+            }
+            if (typeof label !== 'string') {
+                throw new GraphArgumentError(`Название вершины ${vertex} должно быть строкой`);
+            }
+        }
+        for (const [vertex, values] of Object.entries(this._attributes)) {
+            if (!this._indexOf.has(Number(vertex))) {
+                throw new GraphValidationError(`Вершина ${vertex} не найдена в графе`);
+            }
+            if (!values || typeof values !== 'object' || Array.isArray(values)) {
+                throw new GraphArgumentError(`Атрибуты вершины ${vertex} должны быть объектом`);
+            }
+        }
+    }
+
     /**
      * @group Factory Methods
      * Создаёт граф из матрицы смежности.
+     * Во взвешенном режиме ненулевое значение ячейки становится весом дуги, иначе дуги невзвешенные.
      * @param {number[][]} matrix Матрица смежности
+     * @param {boolean} [directed=true] Ориентированный ли граф
+     * @param {boolean} [weighted=false] Считать ли значения ячеек весами
      * @returns {Graph} Новый граф
      * @throws {GraphArgumentError} Если матрица некорректна
      */
-    static fromAdjMatrix(matrix: number[][]): Graph {
+    static fromAdjMatrix(matrix: number[][], directed: boolean = true, weighted: boolean = false): Graph {
         if (!Array.isArray(matrix)) {
             throw new GraphArgumentError("Матрица должна быть не-null массивом");
         }
@@ -155,26 +352,33 @@ export class Graph {
         const vertices: Vertex[] = matrix.map((_, i) => i);
         const edges: Edge[] = matrix.flatMap((row, i) =>
             row.flatMap((val, j) =>
-                val !== 0 ? [{ from: i, to: j }] : []
+                val !== 0 ? [weighted ? { from: i, to: j, weight: val } : { from: i, to: j }] : []
             )
         );
-        return new Graph({ vertices, edges });
+        return Graph.fromUniqueEdges(vertices, edges, directed);
     }
 
-    static fromDisMatrix(matrix: (number | null)[][]): Graph {
+    /**
+     * @group Factory Methods
+     * Создаёт взвешенный граф из матрицы расстояний.
+     * Ячейка (i, j) задаёт вес дуги i → j; null и ∞ означают отсутствие дуги, диагональ не учитывается.
+     * @param {(number | null)[][]} matrix Матрица расстояний
+     * @param {boolean} [directed=true] Ориентированный ли граф
+     * @returns {Graph} Новый граф
+     * @throws {GraphArgumentError} Если матрица некорректна
+     */
+    static fromDisMatrix(matrix: (number | null)[][], directed: boolean = true): Graph {
         if (!Array.isArray(matrix)) throw new GraphArgumentError("Матрица должна быть не-null массивом");
         if (matrix.length > 0 && !matrix.every(row => row.length === matrix.length)) {
             throw new GraphArgumentError("Матрица расстояний должна быть квадратной");
         }
         const vertices: Vertex[] = matrix.map((_, i) => i);
         const edges: Edge[] = matrix.flatMap((row, i) =>
-            row.map((distance, j) => {
-                if (i !== j && distance !== null) {
-                    return { from: i, to: j, distance}
-                }
-            }).filter(Boolean) as Edge[]
+            row.flatMap((distance, j) =>
+                i !== j && distance !== null && distance !== Infinity ? [{ from: i, to: j, weight: distance }] : []
+            )
         )
-        return new Graph({ vertices, edges })
+        return Graph.fromUniqueEdges(vertices, edges, directed);
     }
 
     /**
@@ -182,10 +386,11 @@ export class Graph {
      * Создаёт граф из списка инцидентности.
      * @param {Record<Vertex, number[]>} list Список инцидентности
      * @param {"left"|"right"} [side="left"] Сторона (откуда-куда)
+     * @param {boolean} [directed=true] Ориентированный ли граф
      * @returns {Graph} Новый граф
      * @throws {GraphArgumentError} Если список или сторона некорректны
      */
-    static fromIncList(list: Record<Vertex, number[]>, side: "left" | "right" = "left"): Graph {
+    static fromIncList(list: Record<Vertex, number[]>, side: "left" | "right" = "left", directed: boolean = true): Graph {
         if (!list || typeof list !== 'object') {
             throw new GraphArgumentError("Список инцидентности должен быть объектом");
         }
@@ -208,7 +413,24 @@ export class Graph {
             });
         });
         // console.log("Ребра полученные на выходе: ", edges );
-        return new Graph({ vertices, edges });
+        return Graph.fromUniqueEdges(vertices, edges, directed);
+    }
+
+    /**
+     * @group Factory Methods
+     * Строит граф, удаляя повторяющиеся рёбра неориентированного графа: пары (u, v) и (v, u) считаются одним ребром.
+     * Рёбра ориентированного графа добавляются без изменений.
+     * @param {Vertex[]} vertices Вершины
+     * @param {Edge[]} edges Рёбра
+     * @param {boolean} directed Ориентированный ли граф
+     * @returns {Graph} Новый граф
+     */
+    private static fromUniqueEdges(vertices: Vertex[], edges: Edge[], directed: boolean): Graph {
+        const builder = new GraphBuilder({ vertices, directed });
+        for (const edge of edges) {
+            if (directed || !builder.hasEdge(edge.from, edge.to)) builder.addEdge(edge);
+        }
+        return builder.build();
     }
 
     /**
@@ -234,8 +456,427 @@ export class Graph {
         }
         return new Graph({
             vertices: data.vertices,
-            edges: data.edges
+            edges: data.edges,
+            directed: data.directed,
+            labels: data.labels,
+            attributes: data.attributes
+        });
+    }
+
+    /**
+     * @group Factory Methods
+     * Создаёт граф из текста на языке Graphviz DOT (подмножество digraph и graph).
+     * Если все идентификаторы вершин — неотрицательные целые числа, они становятся номерами вершин,
+     * иначе вершины нумеруются по порядку первого упоминания. Название вершины берётся из атрибута label,
+     * а для нечисловых идентификаторов — из самого идентификатора. Вес ребра берётся из атрибута weight
+     * или из числового атрибута label.
+     * @param {string} text Текст на языке DOT
+     * @returns {Graph} Новый граф
+     * @throws {GraphArgumentError} Если текст не удаётся разобрать или вес ребра не является числом
+     */
+    static fromDOT(text: string): Graph {
+        let document: DotDocument;
+        try {
+            document = parseDot(text);
+        } catch (e) {
+            throw new GraphArgumentError("Ошибка разбора DOT: " + (e instanceof Error ? e.message : String(e)));
+        }
+        return Graph.fromInterchange(
+            document.directed,
+            document.nodes.map(({ id, attributes }) => ({ id, label: attributes.label })),
+            document.edges.map(({ from, to, attributes }) => {
+                const label = attributes.label?.trim() ? Number(attributes.label) : NaN;
+                return {
+                    source: from,
+                    target: to,
+                    weight: attributes.weight !== undefined
+                        ? Graph.parseWeight(attributes.weight, from, to)
+                        : Number.isFinite(label) ? label : undefined
+                };
+            }),
+            /^(\d+)$/
+        );
+    }
+
+    /**
+     * @group Factory Methods
+     * Создаёт граф из документа GraphML (в том числе сохранённого yEd).
+     * Ключ label (или графика вершины yEd) задаёт названия вершин, ключ weight — веса рёбер,
+     * прочие ключи вершин становятся атрибутами с учётом attr.type и значений по умолчанию.
+     * Идентификаторы вида n0, n1, … становятся номерами вершин, иначе вершины нумеруются по порядку.
+     * @param {string} xml Текст документа GraphML
+     * @returns {Graph} Новый граф
+     * @throws {GraphArgumentError} Если документ некорректен или содержит гиперрёбра,
+     * вложенные графы, порты или рёбра разной ориентированности
+     */
+    static fromGraphML(xml: string): Graph {
+        const root = Graph.parseInterchangeXml(xml, 'graphml', 'GraphML');
+        const graph = Graph.singleGraphElement(root, 'GraphML');
+        const directed = (graph.attributes.edgedefault ?? 'directed') === 'directed';
+
+        const keys = new Map(root.children.filter(child => child.name === 'key').map(key => [key.attributes.id, {
+            for: key.attributes.for ?? 'all',
+            name: key.attributes['attr.name'] ?? key.attributes.id,
+            type: key.attributes['attr.type'] ?? 'string',
+            graphics: key.attributes['yfiles.type'],
+            default: key.children.find(child => child.name === 'default')?.text.trim()
+        }]));
+        const keysFor = (kind: 'node' | 'edge') => [...keys].filter(([, key]) => key.for === kind || key.for === 'all');
+        const labelKey = keysFor('node').find(([, key]) => key.name.toLowerCase() === 'label')?.[0];
+        const weightKey = keysFor('edge').find(([, key]) => key.name.toLowerCase() === 'weight')?.[0];
+        const dataOf = (element: XmlElement) => new Map(element.children
+            .filter(child => child.name === 'data')
+            .map(data => [data.attributes.key, data]));
+
+        const nodes: { id: string, label?: string, attributes?: VertexAttributes }[] = [];
+        const edges: { source: string, target: string, weight?: number }[] = [];
+        for (const element of graph.children) {
+            if (element.name === 'hyperedge') {
+                throw new GraphArgumentError(`Гиперрёбра GraphML не поддерживаются (строка ${element.line})`);
+            }
+            if (element.name === 'node') {
+                if (element.children.some(child => child.name === 'graph')) {
+                    throw new GraphArgumentError(`Вложенные графы GraphML не поддерживаются (строка ${element.line})`);
+                }
+                if (element.children.some(child => child.name === 'port')) {
+                    throw new GraphArgumentError(`Порты вершин GraphML не поддерживаются (строка ${element.line})`);
+                }
+                const data = dataOf(element);
+                const attributes: VertexAttributes = {};
+                let label = labelKey !== undefined ? data.get(labelKey)?.text.trim() : undefined;
+                for (const [id, key] of keysFor('node')) {
+                    if (id === labelKey) continue;
+                    if (key.graphics) {
+                        // Название вершины yEd хранится в графике вершины
+                        if (key.graphics === 'nodegraphics' && data.has(id) && label === undefined) {
+                            label = Graph.findXmlElement(data.get(id)!, 'NodeLabel')?.text.trim();
+                        }
+                        continue;
+                    }
+                    const value = data.get(id)?.text.trim() ?? key.default;
+                    if (value !== undefined) attributes[key.name] = Graph.parseXmlValue(value, key.type);
+                }
+                nodes.push({ id: element.attributes.id, label, attributes });
+            }
+            if (element.name === 'edge') {
+                const edgeDirected = element.attributes.directed;
+                if (edgeDirected !== undefined && (edgeDirected === 'true') !== directed) {
+                    throw new GraphArgumentError(`Рёбра разной ориентированности не поддерживаются (строка ${element.line})`);
+                }
+                const { source, target } = element.attributes;
+                const weight = weightKey !== undefined ? dataOf(element).get(weightKey)?.text.trim() ?? keys.get(weightKey)!.default : undefined;
+                edges.push({ source, target, weight: weight !== undefined ? Graph.parseWeight(weight, source, target) : undefined });
+            }
+        }
+        return Graph.fromInterchange(directed, nodes, edges, /^n?(\d+)$/);
+    }
+
+    /**
+     * @group Factory Methods
+     * Создаёт граф из документа GEXF (в том числе сохранённого Gephi).
+     * Атрибут label задаёт названия вершин, weight — веса рёбер, значения атрибутов вершин
+     * (attvalues) становятся атрибутами с учётом их типа и значений по умолчанию.
+     * @param {string} xml Текст документа GEXF
+     * @returns {Graph} Новый граф
+     * @throws {GraphArgumentError} Если документ некорректен или содержит вложенные вершины,
+     * динамический граф или рёбра разной ориентированности
+     */
+    static fromGEXF(xml: string): Graph {
+        const root = Graph.parseInterchangeXml(xml, 'gexf', 'GEXF');
+        const graph = Graph.singleGraphElement(root, 'GEXF');
+        if (graph.attributes.mode === 'dynamic') {
+            throw new GraphArgumentError(`Динамические графы GEXF не поддерживаются (строка ${graph.line})`);
+        }
+        const edgeType = graph.attributes.defaultedgetype ?? 'undirected';
+        if (edgeType === 'mutual') {
+            throw new GraphArgumentError(`Взаимные рёбра GEXF не поддерживаются (строка ${graph.line})`);
+        }
+        const directed = edgeType === 'directed';
+
+        const section = (name: string) => graph.children.filter(child => child.name === name).flatMap(child => child.children);
+        const attributeDefinitions = new Map(graph.children
+            .filter(child => child.name === 'attributes' && child.attributes.class === 'node')
+            .flatMap(child => child.children)
+            .map(attribute => [attribute.attributes.id, {
+                title: attribute.attributes.title ?? attribute.attributes.id,
+                type: attribute.attributes.type ?? 'string',
+                default: attribute.children.find(child => child.name === 'default')?.text.trim()
+            }]));
+
+        const nodes = section('nodes').filter(element => element.name === 'node').map(element => {
+            if (element.attributes.pid !== undefined || element.children.some(child => child.name === 'nodes' || child.name === 'parents')) {
+                throw new GraphArgumentError(`Вложенные вершины GEXF не поддерживаются (строка ${element.line})`);
+            }
+            const values = new Map(element.children
+                .filter(child => child.name === 'attvalues')
+                .flatMap(child => child.children)
+                .map(value => [value.attributes.for ?? value.attributes.id, value.attributes.value]));
+            const attributes: VertexAttributes = {};
+            for (const [id, definition] of attributeDefinitions) {
+                const value = values.get(id) ?? definition.default;
+                if (value !== undefined) attributes[definition.title] = Graph.parseXmlValue(value, definition.type);
+            }
+            return { id: element.attributes.id, label: element.attributes.label, attributes };
+        });
+
+        const edges = section('edges').filter(element => element.name === 'edge').map(element => {
+            const type = element.attributes.type ?? edgeType;
+            if ((type === 'directed') !== directed || type === 'mutual') {
+                throw new GraphArgumentError(`Рёбра разной ориентированности не поддерживаются (строка ${element.line})`);
+            }
+            const { source, target, weight } = element.attributes;
+            return { source, target, weight: weight !== undefined ? Graph.parseWeight(weight, source, target) : undefined };
+        });
+        return Graph.fromInterchange(directed, nodes, edges, /^(\d+)$/);
+    }
+
+    /**
+     * @group Factory Methods
+     * Создаёт граф из списка рёбер в формате CSV или TSV.
+     * Первая строка — заголовок со столбцами from (или source), to (или target) и необязательным weight.
+     * Строка с пустым столбцом to объявляет изолированную вершину. Если все вершины — целые неотрицательные
+     * числа, они становятся номерами вершин по возрастанию, иначе вершины нумеруются по порядку появления,
+     * а значения становятся названиями. При разделителе, отличном от запятой, вес может содержать десятичную запятую.
+     * @param {string} text Текст таблицы
+     * @param {DelimitedOptions} [options] Разделитель (по умолчанию запятая) и ориентированность
+     * @returns {Graph} Новый граф
+     * @throws {GraphArgumentError} Если таблица некорректна, в заголовке нет нужных столбцов или вес не является числом
+     */
+    static fromEdgeList(text: string, { delimiter = ',', directed = true }: DelimitedOptions = {}): Graph {
+        let rows: string[][];
+        try {
+            rows = parseDelimited(text, delimiter);
+        } catch (e) {
+            throw new GraphArgumentError("Ошибка разбора списка рёбер: " + (e instanceof Error ? e.message : String(e)));
+        }
+        if (rows.length === 0) {
+            throw new GraphArgumentError("Список рёбер должен начинаться с заголовка");
+        }
+        const header = rows[0].map(name => name.trim().toLowerCase());
+        const column = (...names: string[]) => header.findIndex(name => names.includes(name));
+        const fromColumn = column('from', 'source');
+        const toColumn = column('to', 'target');
+        const weightColumn = column('weight');
+        if (fromColumn === -1 || toColumn === -1) {
+            throw new GraphArgumentError("Заголовок списка рёбер должен содержать столбцы from и to");
+        }
+
+        const ids = new Set<string>();
+        const edges: { source: string, target: string, weight?: number }[] = [];
+        rows.slice(1).forEach((row, index) => {
+            const [source, target, weight] = [fromColumn, toColumn, weightColumn].map(i => (row[i] ?? '').trim());
+            if (source === '') {
+                throw new GraphArgumentError(`В строке ${index + 2} списка рёбер не указана вершина from`);
+            }
+            ids.add(source);
+            if (target === '') return;
+            ids.add(target);
+            // Электронные таблицы с русской локалью записывают десятичную запятую
+            const value = delimiter !== ',' ? weight.replace(',', '.') : weight;
+            edges.push({ source, target, weight: weight !== '' ? Graph.parseWeight(value, source, target) : undefined });
+        });
+        // Номера вершин упорядочиваются по возрастанию, названия — по первому появлению
+        const nodes = [...ids].every(id => /^\d+$/.test(id)) ? [...ids].sort((a, b) => Number(a) - Number(b)) : [...ids];
+        return Graph.fromInterchange(directed, nodes.map(id => ({ id })), edges, /^(\d+)$/);
+    }
+
+    /**
+     * @group Factory Methods
+     * Создаёт граф из матрицы смежности или расстояний, записанной таблицей (по умолчанию TSV без заголовков),
+     * например скопированной из электронной таблицы.
+     * В матрице смежности ненулевые ячейки задают дуги, в матрице расстояний — веса дуг;
+     * пустые ячейки и «∞» означают отсутствие дуги.
+     * @param {string} text Текст таблицы
+     * @param {MatrixTableKind} [kind='adjacency'] Вид матрицы
+     * @param {DelimitedOptions} [options] Разделитель (по умолчанию табуляция) и ориентированность
+     * @returns {Graph} Новый граф
+     * @throws {GraphArgumentError} Если ячейка не является числом или матрица не квадратная
+     */
+    static fromMatrixTable(text: string, kind: MatrixTableKind = 'adjacency', { delimiter = '\t', directed = true }: DelimitedOptions = {}): Graph {
+        let matrix: (number | null)[][];
+        try {
+            matrix = parseNumberTable(text, delimiter);
+        } catch (e) {
+            throw new GraphArgumentError("Ошибка разбора матрицы: " + (e instanceof Error ? e.message : String(e)));
+        }
+        return kind === 'distance'
+            ? Graph.fromDisMatrix(matrix, directed)
+            : Graph.fromAdjMatrix(matrix.map(row => row.map(value => value ?? 0)), directed);
+    }
+
+    /**
+     * @group Factory Methods
+     * Создаёт граф из файла Matrix Market в координатном формате (matrix coordinate).
+     * Строки и столбцы матрицы — вершины 1…n, ненулевые элементы — дуги, значения элементов — веса
+     * (в формате pattern дуги без весов). Симметричная матрица задаёт неориентированный граф.
+     * @param {string} text Текст файла
+     * @returns {Graph} Новый граф
+     * @throws {GraphArgumentError} Если заголовок не поддерживается (array, complex, skew-symmetric, hermitian),
+     * матрица не квадратная, индексы выходят за её границы или число элементов не совпадает с объявленным
+     */
+    static fromMatrixMarket(text: string): Graph {
+        const lines = text.split(/\r?\n/);
+        const header = /^%%MatrixMarket\s+matrix\s+(\S+)\s+(\S+)\s+(\S+)\s*$/i.exec(lines[0] ?? '');
+        if (!header) {
+            throw new GraphArgumentError("Файл Matrix Market должен начинаться с заголовка %%MatrixMarket matrix");
+        }
+        const [format, field, symmetry] = header.slice(1).map(value => value.toLowerCase());
+        if (format !== 'coordinate') {
+            throw new GraphArgumentError(`Формат Matrix Market «${format}» не поддерживается, ожидается coordinate`);
+        }
+        if (!['real', 'integer', 'pattern'].includes(field)) {
+            throw new GraphArgumentError(`Тип элементов Matrix Market «${field}» не поддерживается`);
+        }
+        if (symmetry !== 'general' && symmetry !== 'symmetric') {
+            throw new GraphArgumentError(`Симметрия Matrix Market «${symmetry}» не поддерживается`);
+        }
+
+        const data = lines
+            .map((line, index) => ({ fields: line.trim().split(/\s+/), line: index + 1 }))
+            .filter(({ fields, line }) => line > 1 && fields[0] !== '' && !fields[0].startsWith('%'));
+        const [rows, columns, entries] = (data[0]?.fields ?? []).map(Number);
+        if (data.length === 0 || data[0].fields.length !== 3 || ![rows, columns, entries].every(Number.isInteger)) {
+            throw new GraphArgumentError("Строка размеров Matrix Market должна содержать три целых числа");
+        }
+        if (rows !== columns) {
+            throw new GraphArgumentError(`Матрица Matrix Market должна быть квадратной, получено ${rows}×${columns}`);
+        }
+        if (data.length - 1 !== entries) {
+            throw new GraphArgumentError(`Объявлено ${entries} элементов Matrix Market, найдено ${data.length - 1}`);
+        }
+
+        const builder = new GraphBuilder({ vertices: Array.from({ length: rows }, (_, i) => i), directed: symmetry === 'general' });
+        for (const { fields, line } of data.slice(1)) {
+            const [row, column] = fields.slice(0, 2).map(Number);
+            if (![row, column].every(index => Number.isInteger(index) && index >= 1 && index <= rows)) {
+                throw new GraphArgumentError(`Индексы элемента Matrix Market вне матрицы ${rows}×${columns} (строка ${line})`);
+            }
+            // Симметричная матрица хранит нижний треугольник: ребро записывается от меньшей вершины
+            const edge: Edge = symmetry === 'symmetric'
+                ? { from: Math.min(row, column) - 1, to: Math.max(row, column) - 1 }
+                : { from: row - 1, to: column - 1 };
+            if (field === 'pattern') {
+                builder.addEdge(edge);
+            } else {
+                if (fields[2] === undefined) {
+                    throw new GraphArgumentError(`У элемента Matrix Market нет значения (строка ${line})`);
+                }
+                builder.addEdge({ ...edge, weight: Graph.parseWeight(fields[2], String(row), String(column)) });
+            }
+        }
+        return builder.build();
+    }
+
+    /**
+     * @group Factory Methods
+     * Строит граф по вершинам и рёбрам, прочитанным из файла обмена (DOT, GraphML, GEXF, CSV).
+     * Если все идентификаторы соответствуют шаблону с номером, номера становятся вершинами,
+     * иначе вершины нумеруются по порядку, а идентификаторы становятся названиями.
+     * Название по умолчанию не сохраняется, чтобы экспорт и импорт не добавляли явных названий.
+     * @param {boolean} directed Ориентированный ли граф
+     * @param nodes Вершины с идентификаторами, названиями и атрибутами
+     * @param edges Рёбра между идентификаторами вершин
+     * @param {RegExp} idPattern Шаблон идентификатора, первая группа которого — номер вершины
+     * @returns {Graph} Новый граф
+     * @throws {GraphArgumentError} Если ребро ссылается на неизвестную вершину
+     */
+    private static fromInterchange(
+        directed: boolean,
+        nodes: { id: string, label?: string, attributes?: VertexAttributes }[],
+        edges: { source: string, target: string, weight?: number }[],
+        idPattern: RegExp
+    ): Graph {
+        const numbers = nodes.map(({ id }) => idPattern.exec(id ?? '')?.[1]);
+        const numeric = numbers.every(number => number !== undefined) && new Set(numbers).size === nodes.length;
+        const vertexOf = new Map(nodes.map(({ id }, index) => [id, numeric ? Number(numbers[index]) : index]));
+
+        const builder = new GraphBuilder({ directed });
+        nodes.forEach(({ id, label = numeric ? undefined : id, attributes = {} }) => {
+            const vertex = vertexOf.get(id)!;
+            builder
+                .addVertex(vertex)
+                .setLabel(vertex, label === `V${vertex + 1}` ? undefined : label)
+                .setAttributes(vertex, attributes);
         });
+        for (const { source, target, weight } of edges) {
+            const from = vertexOf.get(source);
+            const to = vertexOf.get(target);
+            if (from === undefined || to === undefined) {
+                throw new GraphArgumentError(`Ребро ${source} — ${target} ссылается на неизвестную вершину`);
+            }
+            builder.addEdge(weight !== undefined ? { from, to, weight } : { from, to });
+        }
+        return builder.build();
+    }
+
+    /**
+     * @group Factory Methods
+     * Разбирает вес ребра из текста файла обмена.
+     * @throws {GraphArgumentError} Если вес не является числом
+     */
+    private static parseWeight(value: string, source: string, target: string): number {
+        const weight = value.trim() ? Number(value) : NaN;
+        if (!Number.isFinite(weight)) {
+            throw new GraphArgumentError(`Вес ребра ${source} — ${target} должен быть числом, получено ${value}`);
+        }
+        return weight;
+    }
+
+    /**
+     * @group Factory Methods
+     * Разбирает XML-документ формата обмена и проверяет имя корневого элемента.
+     * @throws {GraphArgumentError} Если документ некорректен или имеет другой корневой элемент
+     */
+    private static parseInterchangeXml(xml: string, rootName: string, format: string): XmlElement {
+        let root: XmlElement;
+        try {
+            root = parseXml(xml);
+        } catch (e) {
+            throw new GraphArgumentError(`Ошибка разбора ${format}: ` + (e instanceof Error ? e.message : String(e)));
+        }
+        if (root.name !== rootName) {
+            throw new GraphArgumentError(`Документ ${format} должен начинаться с элемента <${rootName}>, получено <${root.name}>`);
+        }
+        return root;
+    }
+
+    /**
+     * @group Factory Methods
+     * Возвращает единственный элемент graph документа формата обмена.
+     * @throws {GraphArgumentError} Если графов нет или их несколько
+     */
+    private static singleGraphElement(root: XmlElement, format: string): XmlElement {
+        const graphs = root.children.filter(child => child.name === 'graph');
+        if (graphs.length !== 1) {
+            throw new GraphArgumentError(`Документ ${format} должен содержать ровно один граф, найдено ${graphs.length}`);
+        }
+        return graphs[0];
+    }
+
+    /**
+     * @group Factory Methods
+     * Находит первый потомок элемента с заданным именем (поиск в глубину).
+     */
+    private static findXmlElement(element: XmlElement, name: string): XmlElement | undefined {
+        for (const child of element.children) {
+            const found = child.name === name ? child : Graph.findXmlElement(child, name);
+            if (found) return found;
+        }
+        return undefined;
+    }
+
+    /**
+     * @group Factory Methods
+     * Преобразует текстовое значение атрибута по его типу из GraphML или GEXF.
+     */
+    private static parseXmlValue(value: string, type: string): string | number | boolean {
+        if (['int', 'integer', 'long', 'float', 'double'].includes(type) && value.trim() !== '' && Number.isFinite(Number(value))) {
+            return Number(value);
+        }
+        if (type === 'boolean' && (value === 'true' || value === 'false')) {
+            return value === 'true';
+        }
+        return value;
     }
 
     /**
@@ -247,12 +888,12 @@ export class Graph {
      */
     withVertex(vertex: Vertex): Graph {
         Graph.validateVertex(vertex);
-        if (this._vertices.includes(vertex)) {
+        if (this._indexOf.has(vertex)) {
             return this;
         }
         return new Graph({
-            vertices: [...this._vertices, vertex],
-            edges: [...this._edges]
+            ...this.asObject,
+            vertices: [...this._vertices, vertex]
         });
     }
 
@@ -265,14 +906,16 @@ export class Graph {
      */
     withoutVertex(vertex: Vertex): Graph {
         Graph.validateVertex(vertex);
-        if (!this._vertices.includes(vertex)) {
+        if (!this._indexOf.has(vertex)) {
             return this;
         }
         const newVertices = this._vertices.filter(v => v !== vertex);
         const newEdges = this._edges.filter(e => e.from !== vertex && e.to !== vertex);
         return new Graph({
             vertices: newVertices,
-            edges: newEdges
+            edges: newEdges,
+            directed: this._directed,
+            ...this.metaFor(newVertices)
         });
     }
 
@@ -287,11 +930,11 @@ export class Graph {
     withEdge(edge: Edge): Graph {
         Graph.validateEdge(edge);
         this.validateEdgeVertices(edge);
-        if (this._edges.some(e => e.from === edge.from && e.to === edge.to)) {
+        if (this.hasEdge(edge.from, edge.to)) {
             return this;
         }
         return new Graph({
-            vertices: [...this._vertices],
+            ...this.asObject,
             edges: [...this._edges, edge]
         });
     }
@@ -307,36 +950,130 @@ export class Graph {
     withoutEdge(edge: Edge): Graph {
         Graph.validateEdge(edge);
         this.validateEdgeVertices(edge);
-        if (!this._edges.some(e => e.from === edge.from && e.to === edge.to)) {
+        if (!this.hasEdge(edge.from, edge.to)) {
             return this;
         }
         return new Graph({
-            vertices: [...this._vertices],
-            edges: this._edges.filter(e => e.from !== edge.from || e.to !== edge.to)
+            ...this.asObject,
+            edges: this._edges.filter(e =>
+                (e.from !== edge.from || e.to !== edge.to) &&
+                (this._directed || e.from !== edge.to || e.to !== edge.from)
+            )
         });
     }
 
     /**
-     * @group Conversion Methods
-     * Преобразует граф в матрицу смежности.
-     * @returns {number[][]} Матрица смежности
-     * @throws {GraphValidationError} Если граф пустой
+     * @group Mutation Methods
+     * Возвращает новый граф после пакета изменений, внесённых в построитель.
+     * Граф пересобирается и проверяется один раз, поэтому множество изменений обходится
+     * линейным временем вместо квадратичного при цепочке вызовов withEdge и withoutEdge.
+     * @param {(draft: GraphBuilder) => void} recipe Функция, изменяющая построитель
+     * @returns {Graph} Новый граф
+     * @throws {GraphArgumentError} Если вершины, рёбра или метаданные заданы неверно
+     * @throws {GraphValidationError} Если рёбра или метаданные ссылаются на несуществующие вершины
      */
-    get asAdjMatrix(): number[][] {
-        if (this._vertices.length === 0) {
-            throw new GraphValidationError("Невозможно создать матрицу для пустого графа");
-        }
-        const matrix = Array.from({ length: this._vertices.length },
-            () => Array(this._vertices.length).fill(0));
-        for (const { from, to } of this._edges) {
-            const sourceIndex = this._vertices.indexOf(from);
-            const targetIndex = this._vertices.indexOf(to);
-            if (sourceIndex === -1 || targetIndex === -1) continue;
-            matrix[sourceIndex][targetIndex] = 1;
+    mutate(recipe: (draft: GraphBuilder) => void): Graph {
+        const draft = new GraphBuilder(this.asObject);
+        recipe(draft);
+        return draft.build();
+    }
+
+    /**
+     * @group Mutation Methods
+     * Возвращает новый граф с заданным названием вершины.
+     * Пустое или неуказанное название удаляет явно заданное название.
+     * @param {Vertex} vertex Вершина
+     * @param {string} [label] Название вершины
+     * @returns {Graph} Новый граф
+     * @throws {GraphValidationError} Если вершина отсутствует в графе
+     */
+    withLabel(vertex: Vertex, label?: string): Graph {
+        Graph.validateVertex(vertex);
+        if (!this._indexOf.has(vertex)) {
+            throw new GraphValidationError(`Вершина ${vertex} не найдена в графе`);
+        }
+        const labels: Record<Vertex, string> = { ...this._labels };
+        if (label) {
+            labels[vertex] = label;
+        } else {
+            delete labels[vertex];
+        }
+        return new Graph({ ...this.asObject, labels });
+    }
+
+    /**
+     * @group Mutation Methods
+     * Возвращает новый граф с заданными атрибутами вершины.
+     * Пустой набор атрибутов удаляет атрибуты вершины.
+     * @param {Vertex} vertex Вершина
+     * @param {VertexAttributes} values Атрибуты вершины
+     * @returns {Graph} Новый граф
+     * @throws {GraphValidationError} Если вершина отсутствует в графе
+     */
+    withAttributes(vertex: Vertex, values: VertexAttributes): Graph {
+        Graph.validateVertex(vertex);
+        if (!this._indexOf.has(vertex)) {
+            throw new GraphValidationError(`Вершина ${vertex} не найдена в графе`);
+        }
+        const attributes: Record<Vertex, VertexAttributes> = { ...this._attributes };
+        if (Object.keys(values).length > 0) {
+            attributes[vertex] = values;
+        } else {
+            delete attributes[vertex];
+        }
+        return new Graph({ ...this.asObject, attributes });
+    }
+
+    /**
+     * @group Conversion Methods
+     * Преобразует граф в матрицу смежности.
+     * @returns {number[][]} Матрица смежности
+     * @throws {GraphValidationError} Если граф пустой
+     */
+    get asAdjMatrix(): number[][] {
+        if (this._vertices.length === 0) {
+            throw new GraphValidationError("Невозможно создать матрицу для пустого графа");
+        }
+        const matrix = Array.from({ length: this._vertices.length },
+            () => Array(this._vertices.length).fill(0));
+        for (const { from, to } of this._arcs) {
+            matrix[this._indexOf.get(from)!][this._indexOf.get(to)!] = 1;
+        }
+        return matrix;
+    }
+
+    /**
+     * @group Conversion Methods
+     * Преобразует граф во взвешенную матрицу смежности: ячейка содержит вес дуги
+     * (дуга без веса имеет вес 1, из параллельных дуг берётся наименьший вес) или null, если дуги нет.
+     * @returns {(number | null)[][]} Взвешенная матрица смежности
+     * @throws {GraphValidationError} Если граф пустой
+     */
+    get asWeightedAdjMatrix(): (number | null)[][] {
+        if (this._vertices.length === 0) {
+            throw new GraphValidationError("Невозможно создать матрицу для пустого графа");
+        }
+        const matrix: (number | null)[][] = Array.from({ length: this._vertices.length },
+            () => Array(this._vertices.length).fill(null));
+        for (const edge of this._arcs) {
+            const row = matrix[this._indexOf.get(edge.from)!];
+            const column = this._indexOf.get(edge.to)!;
+            row[column] = Math.min(row[column] ?? Infinity, Graph.weightOf(edge));
         }
         return matrix;
     }
 
+    /**
+     * @group Conversion Methods
+     * Преобразует граф в матрицу расстояний, обратную Graph.fromDisMatrix: ячейка содержит длину
+     * кратчайшей из дуг между вершинами или ∞, если дуги нет; на диагонали — 0, петли не учитываются.
+     * @returns {number[][]} Матрица расстояний
+     * @throws {GraphValidationError} Если граф пустой
+     */
+    get asDistanceMatrix(): number[][] {
+        return this.asWeightedAdjMatrix.map((row, i) => row.map((value, j) => i === j ? 0 : value ?? Infinity));
+    }
+
     /**
      * @group Conversion Methods
      * Преобразует граф в матрицу инцидентности.
@@ -353,11 +1090,8 @@ export class Graph {
         const matrix = Array.from({ length: this._vertices.length },
             () => Array(this._edges.length).fill(0));
         this._edges.forEach(({ from, to }, index) => {
-            const sourceIndex = this._vertices.indexOf(from);
-            const targetIndex = this._vertices.indexOf(to);
-            if (sourceIndex === -1 || targetIndex === -1) return;
-            matrix[sourceIndex][index] = -1;
-            matrix[targetIndex][index] = 1;
+            matrix[this._indexOf.get(from)!][index] = this._directed ? -1 : 1;
+            matrix[this._indexOf.get(to)!][index] = 1;
         });
         return matrix;
     }
@@ -376,7 +1110,7 @@ export class Graph {
             rightInc[vertex] = [];
         });
     
-        this._edges.forEach(({ from, to }) => {
+        this._arcs.forEach(({ from, to }) => {
             leftInc[from].push(to);
             rightInc[to].push(from);
         });
@@ -403,12 +1137,21 @@ export class Graph {
      * @returns {Vertex[]} список инцидентных вершин.
      */
     getLeftIncList(vertex: Vertex): Vertex[] {
-        if (!this._vertices.includes(vertex)) {
+        if (!this._indexOf.has(vertex)) {
             throw new GraphValidationError(`Вершина ${vertex} не найдена в графе`);
         }
-        return this._edges
-            .filter(edge => edge.from === vertex)
-            .map(edge => edge.to);
+        return this._outEdges.get(vertex)!.map(edge => edge.to);
+    }
+
+    /**
+     * @group Conversion Methods
+     * Проверяет наличие дуги между двумя вершинами.
+     * @param {Vertex} from Начало дуги
+     * @param {Vertex} to Конец дуги
+     * @returns {boolean} true, если дуга существует
+     */
+    hasEdge(from: Vertex, to: Vertex): boolean {
+        return this._outEdges.get(from)?.some(edge => edge.to === to) ?? false;
     }
 
     /**
@@ -418,7 +1161,7 @@ export class Graph {
     get asAdjList(): Record<Vertex, { target: Vertex, weight?: number }[]> {
         const adjList: Record<Vertex, { target: Vertex, weight?: number }[]> = {};
         this._vertices.forEach(vertex => adjList[vertex] = []);
-        this._edges.forEach(({ from, to, weight }) => adjList[from].push({ target: to, weight }));
+        this._arcs.forEach(({ from, to, weight }) => adjList[from].push({ target: to, weight }));
         return adjList;
     }
 
@@ -431,17 +1174,237 @@ export class Graph {
     get asObject(): IGraphData {
         return {
             vertices: [...this._vertices],
-            edges: [...this._edges]
+            edges: [...this._edges],
+            ...(this._directed ? {} : { directed: false }),
+            ...this.metaFor(this._vertices)
+        };
+    }
+
+    /**
+     * @group Conversion Methods
+     * Возвращает название вершины: явно заданное или порядковое обозначение V{n}.
+     * @param {Vertex} vertex Вершина
+     * @returns {string} Название вершины
+     */
+    label(vertex: Vertex): string {
+        return this._labels[vertex] ?? `V${vertex + 1}`;
+    }
+
+    /**
+     * @group Conversion Methods
+     * Возвращает названия и атрибуты для указанных вершин.
+     * Пустые наборы не включаются в результат.
+     * @param {Iterable<Vertex>} vertices Вершины
+     * @returns Метаданные вершин в формате IGraphData
+     */
+    private metaFor(vertices: Iterable<Vertex>): Pick<IGraphData, 'labels' | 'attributes'> {
+        const labels: Record<Vertex, string> = {};
+        const attributes: Record<Vertex, VertexAttributes> = {};
+        for (const vertex of vertices) {
+            if (this._labels[vertex] !== undefined) labels[vertex] = this._labels[vertex];
+            if (this._attributes[vertex] !== undefined) attributes[vertex] = { ...this._attributes[vertex] };
+        }
+        return {
+            ...(Object.keys(labels).length > 0 ? { labels } : {}),
+            ...(Object.keys(attributes).length > 0 ? { attributes } : {})
         };
     }
 
     /**
      * @group Conversion Methods
      * Сериализует граф в строку JSON.
-     * @returns {string} Строка JSON с вершинами и рёбрами графа
+     * @returns {string} Строка JSON с вершинами, рёбрами и метаданными вершин графа
      */
     get asJSON(): string {
-        return JSON.stringify(this.asObject);
+        return JSON.stringify({ ...this.asObject, directed: this._directed });
+    }
+
+    /**
+     * @group Conversion Methods
+     * Записывает граф на языке Graphviz DOT. Вершины записываются номерами с атрибутом label,
+     * вес ребра — атрибутом label. Вершины можно сгруппировать: иерархические уровни
+     * выравниваются подграфами rank=same, подсистемы выделяются кластерами.
+     * @param {DotExportOptions} [options] Имя графа и способ группировки вершин
+     * @returns {string} Текст на языке DOT
+     * @throws {GraphValidationError} Если группировка по уровням запрошена для графа с циклом
+     */
+    toDOT({ name = 'G', groups = 'none' }: DotExportOptions = {}): string {
+        const operator = this._directed ? '->' : '--';
+        const lines = [`${this._directed ? 'digraph' : 'graph'} ${quoteDotId(name)} {`];
+        for (const vertex of this._vertices) {
+            lines.push(`    ${vertex} [label=${quoteDotId(this.label(vertex))}];`);
+        }
+        for (const { from, to, weight } of this._edges) {
+            lines.push(`    ${from} ${operator} ${to}${weight !== undefined ? ` [label=${quoteDotId(String(weight))}]` : ''};`);
+        }
+        if (groups === 'levels') {
+            for (const level of this.HL) {
+                lines.push(`    { rank=same; ${level.join('; ')}; }`);
+            }
+        } else if (groups === 'subsystems') {
+            this.condensation().subsystems.forEach((subsystem, index) => {
+                lines.push(`    subgraph cluster_${index + 1} { label="S${index + 1}"; ${subsystem.join('; ')}; }`);
+            });
+        }
+        lines.push('}');
+        return lines.join('\n') + '\n';
+    }
+
+    /**
+     * @group Conversion Methods
+     * Сериализует граф в формат GraphML (yEd, Gephi, NetworkX).
+     * Вершины записываются как n0, n1, …, названия и атрибуты вершин — как ключи данных,
+     * веса рёбер — ключом weight.
+     * @returns {string} Документ GraphML
+     */
+    get asGraphML(): string {
+        const attributes = this.attributeTypes;
+        const lines = [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+            '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+            ...attributes.map(([name, type], index) =>
+                `  <key id="a${index}" for="node" attr.name="${escapeXml(name)}" attr.type="${type}"/>`),
+            '  <key id="weight" for="edge" attr.name="weight" attr.type="double"/>',
+            `  <graph id="G" edgedefault="${this._directed ? 'directed' : 'undirected'}">`
+        ];
+        for (const vertex of this._vertices) {
+            const vertexAttributes = (this._attributes[vertex] ?? {});
+            lines.push(`    <node id="n${vertex}">`);
+            lines.push(`      <data key="label">${escapeXml(this.label(vertex))}</data>`);
+            attributes.forEach(([name], index) => {
+                if (name in vertexAttributes) {
+                    lines.push(`      <data key="a${index}">${escapeXml(String(vertexAttributes[name]))}</data>`);
+                }
+            });
+            lines.push('    </node>');
+        }
+        for (const { from, to, weight } of this._edges) {
+            lines.push(weight !== undefined
+                ? `    <edge source="n${from}" target="n${to}"><data key="weight">${weight}</data></edge>`
+                : `    <edge source="n${from}" target="n${to}"/>`);
+        }
+        lines.push('  </graph>', '</graphml>');
+        return lines.join('\n') + '\n';
+    }
+
+    /**
+     * @group Conversion Methods
+     * Сериализует граф в формат GEXF 1.3 (Gephi).
+     * Названия вершин записываются атрибутом label, атрибуты вершин — как attvalues,
+     * веса рёбер — атрибутом weight.
+     * @returns {string} Документ GEXF
+     */
+    get asGEXF(): string {
+        const attributes = this.attributeTypes;
+        const lines = [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<gexf xmlns="http://gexf.net/1.3" version="1.3">',
+            `  <graph mode="static" defaultedgetype="${this._directed ? 'directed' : 'undirected'}">`
+        ];
+        if (attributes.length > 0) {
+            lines.push('    <attributes class="node">');
+            attributes.forEach(([name, type], index) => {
+                lines.push(`      <attribute id="${index}" title="${escapeXml(name)}" type="${type}"/>`);
+            });
+            lines.push('    </attributes>');
+        }
+        lines.push('    <nodes>');
+        for (const vertex of this._vertices) {
+            const vertexAttributes = (this._attributes[vertex] ?? {});
+            const values = attributes
+                .map(([name], index) => name in vertexAttributes
+                    ? `<attvalue for="${index}" value="${escapeXml(String(vertexAttributes[name]))}"/>`
+                    : '')
+                .join('');
+            lines.push(values
+                ? `      <node id="${vertex}" label="${escapeXml(this.label(vertex))}"><attvalues>${values}</attvalues></node>`
+                : `      <node id="${vertex}" label="${escapeXml(this.label(vertex))}"/>`);
+        }
+        lines.push('    </nodes>', '    <edges>');
+        this._edges.forEach(({ from, to, weight }, index) => {
+            lines.push(`      <edge id="${index}" source="${from}" target="${to}"${weight !== undefined ? ` weight="${weight}"` : ''}/>`);
+        });
+        lines.push('    </edges>', '  </graph>', '</gexf>');
+        return lines.join('\n') + '\n';
+    }
+
+    /**
+     * @group Conversion Methods
+     * Записывает граф списком рёбер в формате CSV или TSV с заголовком from, to, weight,
+     * обратным {@link Graph.fromEdgeList}. Изолированные вершины записываются строками с пустым столбцом to.
+     * Названия и атрибуты вершин не сохраняются.
+     * @param {string} [delimiter=','] Разделитель полей
+     * @returns {string} Текст таблицы
+     */
+    toEdgeList(delimiter: string = ','): string {
+        const linked = new Set(this._edges.flatMap(({ from, to }) => [from, to]));
+        return formatDelimited([
+            ['from', 'to', 'weight'],
+            ...this._vertices.filter(vertex => !linked.has(vertex)).map(vertex => [String(vertex), '', '']),
+            ...this._edges.map(({ from, to, weight }) => [String(from), String(to), weight !== undefined ? String(weight) : ''])
+        ], delimiter);
+    }
+
+    /**
+     * @group Conversion Methods
+     * Записывает матрицу смежности или расстояний таблицей без заголовков, обратной {@link Graph.fromMatrixTable}.
+     * В матрице расстояний отсутствие дуги записывается пустой ячейкой.
+     * @param {MatrixTableKind} [kind='adjacency'] Вид матрицы
+     * @param {string} [delimiter='\t'] Разделитель ячеек
+     * @returns {string} Текст таблицы
+     * @throws {GraphValidationError} Если граф пустой
+     */
+    toMatrixTable(kind: MatrixTableKind = 'adjacency', delimiter: string = '\t'): string {
+        const matrix = kind === 'distance' ? this.asDistanceMatrix : this.asAdjMatrix;
+        return formatDelimited(matrix.map(row => row.map(value => value === Infinity ? '' : String(value))), delimiter);
+    }
+
+    /**
+     * @group Conversion Methods
+     * Записывает граф в координатном формате Matrix Market: вершины нумеруются с 1 в порядке графа,
+     * взвешенный граф записывается как real, невзвешенный — как pattern,
+     * неориентированный — как симметричная матрица (нижний треугольник).
+     * @returns {string} Текст файла Matrix Market
+     */
+    get asMatrixMarket(): string {
+        const field = this.weighted ? 'real' : 'pattern';
+        const symmetry = this._directed ? 'general' : 'symmetric';
+        const size = this._vertices.length;
+        const entries = this._edges.map(edge => {
+            let [row, column] = [this._indexOf.get(edge.from)! + 1, this._indexOf.get(edge.to)! + 1];
+            if (!this._directed && row < column) [row, column] = [column, row];
+            return field === 'real' ? `${row} ${column} ${Graph.weightOf(edge)}` : `${row} ${column}`;
+        });
+        return [`%%MatrixMarket matrix coordinate ${field} ${symmetry}`, `${size} ${size} ${entries.length}`, ...entries].join('\n') + '\n';
+    }
+
+    /**
+     * @group Conversion Methods
+     * Перечисляет имена атрибутов вершин с типами GraphML и GEXF (double, boolean, string).
+     * Атрибут со значениями разных типов записывается строкой.
+     * @returns Пары имени атрибута и его типа в порядке первого появления
+     */
+    private get attributeTypes(): [string, string][] {
+        const types = new Map<string, string>();
+        for (const vertex of this._vertices) {
+            for (const [name, value] of Object.entries((this._attributes[vertex] ?? {}))) {
+                const type = typeof value === 'number' ? 'double' : typeof value;
+                types.set(name, types.has(name) && types.get(name) !== type ? 'string' : type);
+            }
+        }
+        return [...types];
+    }
+
+    /**
+     * @group Conversion Methods
+     * Возвращает ориентированный граф, в котором каждое ребро неориентированного графа
+     * заменено двумя встречными дугами. Ориентированный граф возвращается без изменений.
+     * @returns {Graph} Ориентированный граф
+     */
+    get asDirected(): Graph {
+        if (this._directed) return this;
+        return new Graph({ ...this.asObject, edges: [...this._arcs], directed: true });
     }
 
     /**
@@ -450,10 +1413,196 @@ export class Graph {
      * @returns {Graph} Копия графа
      */
     clone(): Graph {
-        return new Graph({
-            vertices: [...this._vertices],
-            edges: [...this._edges]
+        return new Graph(this.asObject);
+    }
+
+    /**
+     * @group Utility Methods
+     * Сравнивает граф с другой версией модели.
+     * Рёбра сопоставляются по концам (в неориентированном графе — без учёта порядка),
+     * параллельные рёбра — по порядку следования в списке рёбер.
+     * Если изменилась ориентированность, оба графа сравниваются как ориентированные:
+     * ребро неориентированного графа соответствует двум встречным дугам.
+     * @param {Graph} other Новая версия графа
+     * @returns {GraphDiff} Добавленные и удалённые вершины и рёбра, рёбра с изменившимся весом, изменение ориентированности
+     */
+    diff(other: Graph): GraphDiff {
+        if (this._directed !== other.directed) {
+            return { ...this.asDirected.diff(other.asDirected), directedChanged: true };
+        }
+        // Ключ ребра и его порядковый номер среди параллельных рёбер
+        const numbered = (graph: Graph) => {
+            const counts = new Map<string, number>();
+            return graph.edges.map(edge => {
+                const { from, to } = edge;
+                const key = graph.directed || from <= to ? `${from}-${to}` : `${to}-${from}`;
+                const occurrence = counts.get(key) ?? 0;
+                counts.set(key, occurrence + 1);
+                return { edge, key: `${key}#${occurrence}` };
+            });
+        };
+        const before = numbered(this);
+        const after = new Map(numbered(other).map(({ edge, key }) => [key, edge]));
+        const matched = new Set<string>();
+
+        const removedEdges: Edge[] = [];
+        const changedEdges: EdgeChange[] = [];
+        before.forEach(({ edge, key }) => {
+            const match = after.get(key);
+            if (!match) {
+                removedEdges.push(edge);
+                return;
+            }
+            matched.add(key);
+            if (match.weight !== edge.weight) {
+                changedEdges.push({ from: edge.from, to: edge.to, oldWeight: edge.weight, newWeight: match.weight });
+            }
+        });
+
+        const otherVertices = new Set(other.vertices);
+        return {
+            addedVertices: other.vertices.filter(vertex => !this._indexOf.has(vertex)),
+            removedVertices: this._vertices.filter(vertex => !otherVertices.has(vertex)),
+            addedEdges: [...after].filter(([key]) => !matched.has(key)).map(([, edge]) => edge),
+            removedEdges,
+            changedEdges,
+            directedChanged: false
+        };
+    }
+
+    /**
+     * @group Isomorphism
+     * Канонически нумерует вершины методом индивидуализации и уточнения раскраски:
+     * - раскраска уточняется до устойчивой: вершины различаются по цветам и кратностям соседей по исходящим и входящим дугам;
+     * - если в раскраске остались классы из нескольких вершин, перебираются вершины первого такого класса:
+     *   каждая по очереди получает собственный цвет, и поиск продолжается;
+     * - из вершин-близнецов (перестановка которых — автоморфизм графа) перебирается только одна;
+     * - каноническим считается лексикографически наименьшее описание дуг среди всех листьев поиска.
+     * Веса рёбер и названия вершин не учитываются, кратность параллельных рёбер учитывается.
+     * @returns Каноническое описание графа и порядок вершин (индексы в списке вершин), на котором оно достигается
+     */
+    private canonicalLabeling(): { form: string, order: number[] } {
+        const n = this._vertices.length;
+        const out: Map<number, number>[] = this._vertices.map(() => new Map());
+        const inc: Map<number, number>[] = this._vertices.map(() => new Map());
+        for (const { from, to } of this._arcs) {
+            const i = this._indexOf.get(from)!;
+            const j = this._indexOf.get(to)!;
+            out[i].set(j, (out[i].get(j) ?? 0) + 1);
+            inc[j].set(i, (inc[j].get(i) ?? 0) + 1);
+        }
+
+        const distinct = (colors: number[]) => new Set(colors).size;
+        const refine = (colors: number[]): number[] => {
+            let current = colors;
+            for (;;) {
+                const neighbours = (adjacency: Map<number, number>) =>
+                    [...adjacency].map(([w, count]) => `${current[w]}x${count}`).sort().join(',');
+                const signatures = current.map((_, v) => `${neighbours(out[v])}|${neighbours(inc[v])}`);
+                const ranked = current
+                    .map((color, v) => ({ color, signature: signatures[v] }))
+                    .sort((a, b) => a.color - b.color || (a.signature < b.signature ? -1 : a.signature > b.signature ? 1 : 0));
+                const rank = new Map<string, number>();
+                ranked.forEach(({ color, signature }) => {
+                    const key = `${color}:${signature}`;
+                    if (!rank.has(key)) rank.set(key, rank.size);
+                });
+                const next = current.map((color, v) => rank.get(`${color}:${signatures[v]}`)!);
+                if (distinct(next) === distinct(current)) return next;
+                current = next;
+            }
+        };
+
+        const sameCounts = (a: Map<number, number>, b: Map<number, number>, u: number, v: number) =>
+            [...a].every(([w, count]) => w === u || w === v || b.get(w) === count) &&
+            [...b].every(([w, count]) => w === u || w === v || a.get(w) === count);
+        const twins = (u: number, v: number) =>
+            (out[u].get(u) ?? 0) === (out[v].get(v) ?? 0) &&
+            (out[u].get(v) ?? 0) === (out[v].get(u) ?? 0) &&
+            sameCounts(out[u], out[v], u, v) &&
+            sameCounts(inc[u], inc[v], u, v);
+
+        let best: { form: string, order: number[] } | null = null;
+        const search = (colors: number[]): void => {
+            const refined = refine(colors);
+            const cells = new Map<number, number[]>();
+            refined.forEach((color, v) => {
+                if (!cells.has(color)) cells.set(color, []);
+                cells.get(color)!.push(v);
+            });
+            const target = [...cells.keys()].sort((a, b) => a - b).find(color => cells.get(color)!.length > 1);
+
+            if (target === undefined) {
+                const order = refined.map((_, v) => v).sort((a, b) => refined[a] - refined[b]);
+                const arcs = order.flatMap((v, position) =>
+                    [...out[v]].map(([w, count]) => [position, refined[w], count])
+                ).sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+                const form = `${this._directed ? 'D' : 'U'}${n}:${arcs.map(([p, q, count]) => `${p}>${q}x${count}`).join(',')}`;
+                if (!best || form < best.form) best = { form, order };
+                return;
+            }
+
+            const branched: number[] = [];
+            for (const v of cells.get(target)!) {
+                if (branched.some(u => twins(u, v))) continue;
+                branched.push(v);
+                search(refined.map((color, u) => 2 * color + (color === target && u !== v ? 1 : 0)));
+            }
+        };
+        search(new Array<number>(n).fill(0));
+
+        return best!;
+    }
+
+    /**
+     * @group Isomorphism
+     * Возвращает каноническое описание графа: у изоморфных графов (одинаковых с точностью до нумерации вершин)
+     * описания совпадают, у неизоморфных — различаются. Веса рёбер и названия вершин не учитываются.
+     * @returns {string} Каноническое описание
+     */
+    canonicalForm(): string {
+        return this.canonicalLabeling().form;
+    }
+
+    /**
+     * @group Isomorphism
+     * Короткий хеш канонического описания (FNV-1a, 32 бита) для быстрого сравнения и хранения.
+     * Совпадение хешей не гарантирует изоморфизма; для проверки используйте isIsomorphicTo.
+     * @returns {string} Хеш из восьми шестнадцатеричных цифр
+     */
+    canonicalHash(): string {
+        let hash = 0x811c9dc5;
+        for (const char of this.canonicalForm()) {
+            hash = Math.imul(hash ^ char.charCodeAt(0), 0x01000193) >>> 0;
+        }
+        return hash.toString(16).padStart(8, '0');
+    }
+
+    /**
+     * @group Isomorphism
+     * Проверяет, изоморфен ли граф другому графу, сравнивая канонические описания.
+     * @param {Graph} other Другой граф
+     * @returns {Record<Vertex, Vertex> | null} Отображение вершин этого графа в вершины другого,
+     * сохраняющее дуги и их кратность, или null, если графы не изоморфны
+     */
+    isIsomorphicTo(other: Graph): Record<Vertex, Vertex> | null {
+        if (
+            this._directed !== other._directed ||
+            this._vertices.length !== other._vertices.length ||
+            this._edges.length !== other._edges.length
+        ) {
+            return null;
+        }
+        const own = this.canonicalLabeling();
+        const theirs = other.canonicalLabeling();
+        if (own.form !== theirs.form) {
+            return null;
+        }
+        const mapping: Record<Vertex, Vertex> = {};
+        own.order.forEach((index, position) => {
+            mapping[this._vertices[index]] = other._vertices[theirs.order[position]];
         });
+        return mapping;
     }
 
     /**
@@ -472,40 +1621,43 @@ export class Graph {
         }
 
         // Считаем входящие степени для всех вершин
-        const inDegree = new Map<Vertex, number>();
-        this._vertices.forEach(v => inDegree.set(v, 0));
-        this._edges.forEach(({ to }) => {
-            inDegree.set(to, (inDegree.get(to) ?? 0) + 1);
-        });
+        const inDegree = this._vertices.map(v => this._inEdges.get(v)!.length);
+        let currentLevel: number[] = [...this._indexOf.values()].filter(index => inDegree[index] === 0);
+        let processed = 0;
 
         const HL: number[][] = [];
-        const verticesLeft = new Set(this._vertices);
-
-        while (verticesLeft.size > 0) {
-            // Находим вершины с нулевой входящей степенью
-            const currentLevel: number[] = [];
-            for (const v of verticesLeft) {
-                if (inDegree.get(v) === 0) {
-                    currentLevel.push(v);
-                }
-            }
-
-            if (currentLevel.length === 0) {
-                throw new GraphValidationError("Граф содержит цикл, иерархические уровни не могут быть определены");
-                // break;
-            }
 
-            HL.push(currentLevel);
+        while (currentLevel.length > 0) {
+            HL.push(currentLevel.map(index => this._vertices[index]));
+            processed += currentLevel.length;
 
             // Удаляем вершины текущего уровня и обновляем входящие степени
-            for (const v of currentLevel) {
-                verticesLeft.delete(v);
-                this._edges.forEach(({ from, to }) => {
-                    if (from === v && verticesLeft.has(to)) {
-                        inDegree.set(to, (inDegree.get(to) ?? 1) - 1);
+            const nextLevel: number[] = [];
+            for (const index of currentLevel) {
+                for (const { to } of this._outEdges.get(this._vertices[index])!) {
+                    const target = this._indexOf.get(to)!;
+                    if (--inDegree[target] === 0) {
+                        nextLevel.push(target);
                     }
-                });
+                }
+            }
+            currentLevel = nextLevel.sort((x, y) => x - y);
+        }
+
+        if (processed < this._indexOf.size) {
+            // Каждая оставшаяся вершина имеет входящую дугу из оставшейся вершины:
+            // идём по ним назад, пока не встретим уже пройденную вершину
+            const remaining = (vertex: Vertex) => inDegree[this._indexOf.get(vertex)!] > 0;
+            const walk: Vertex[] = [];
+            const position = new Map<Vertex, number>();
+            let current = this._vertices.find(remaining)!;
+            while (!position.has(current)) {
+                position.set(current, walk.length);
+                walk.push(current);
+                current = this._inEdges.get(current)!.find(edge => remaining(edge.from))!.from;
             }
+            const cycle = walk.slice(position.get(current)!).reverse();
+            throw this.cycleError(cycle, `иерархические уровни не могут быть определены`);
         }
 
         return HL;
@@ -523,21 +1675,24 @@ export class Graph {
     }
 
     /**
-     * Вспомогательный рекурсивный метод для поиска в глубину.
-     * @param {Vertex} from Текущая вершина
+     * Вспомогательный метод для поиска в глубину с явным стеком.
+     * @param {Vertex} from Начальная вершина
      * @param {Vertex} to Целевая вершина
      * @param {Set<Vertex>} visited Множество посещённых вершин
      * @returns {boolean} true, если найден путь, иначе false
      */
     private _dfshelper(from: Vertex, to: Vertex, visited: Set<Vertex>): boolean {
-        visited.add(from);
-        if (from === to) {
-            return true;
-        }
-        for (const edge of this._edges) {
-            if (edge.from === from && !visited.has(edge.to)) {
-                if (this._dfshelper(edge.to, to, visited)) {
-                    return true;
+        const stack: Vertex[] = [from];
+        while (stack.length > 0) {
+            const current = stack.pop()!;
+            if (visited.has(current)) continue;
+            visited.add(current);
+            if (current === to) {
+                return true;
+            }
+            for (const edge of this._outEdges.get(current) ?? []) {
+                if (!visited.has(edge.to)) {
+                    stack.push(edge.to);
                 }
             }
         }
@@ -551,16 +1706,16 @@ export class Graph {
      * @returns {boolean} true, если существует путь из from в to, иначе false
      */
     BFS(from: Vertex, to: Vertex): boolean {
-        const visited = new Set<Vertex>();
+        const visited = new Set<Vertex>([from]);
         const queue: Vertex[] = [from];
-        while (queue.length > 0) {
-            const current = queue.shift()!;
+        for (let head = 0; head < queue.length; head++) {
+            const current = queue[head];
             if (current === to) {
                 return true;
             }
-            visited.add(current);
-            for (const edge of this._edges) {
-                if (edge.from === current && !visited.has(edge.to) && !queue.includes(edge.to)) {
+            for (const edge of this._outEdges.get(current) ?? []) {
+                if (!visited.has(edge.to)) {
+                    visited.add(edge.to);
                     queue.push(edge.to);
                 }
             }
@@ -568,142 +1723,1595 @@ export class Graph {
         return false;
     }
 
-    decompose(): { subGraphs: Set<Graph>, links: Set<{ from: number, to: number }>} {
-        const subs: Set<Graph> = new Set<Graph>();
-        const notUsedV = new Set<Vertex>(this._vertices);
-    
-        // Шаг 1: Разбиваем граф на сильно связанные компоненты (подграфы)
-        while (notUsedV.size > 0) {
-            const firstVertex = [...notUsedV][0];
-            const R = new Set<Vertex>();
-            const Q = new Set<Vertex>();
-    
-            notUsedV.forEach(vertex => {
-                if (this.DFS(firstVertex, vertex)) R.add(vertex);
-                if (this.DFS(vertex, firstVertex)) Q.add(vertex);
-            });
-    
-            const intersection = [...R].filter(vertex => Q.has(vertex));
-            const subgraph = { 
-                vertices: intersection, 
-                edges: this._edges.filter(edge => 
-                    intersection.includes(edge.from) && intersection.includes(edge.to)
-                ) 
-            };
-            subs.add(new Graph(subgraph));
-    
-            for (const vertex of intersection) {
-                notUsedV.delete(vertex);
-            }
-        }
-    
-        // Шаг 2: Создаем карту вершина -> индекс подграфа
-        const subArray = Array.from(subs);
-        const vertexToSubIndex = new Map<Vertex, number>();
-        subArray.forEach((graph, index) => {
-            graph.vertices.forEach(vertex => {
-                vertexToSubIndex.set(vertex, index);
-            });
-        });
-    
-        // Шаг 3: Собираем связи между подграфами
-        const links = new Set<{ from: number, to: number }>();
-        this._edges.forEach(edge => {
-            const fromIndex = vertexToSubIndex.get(edge.from);
-            const toIndex = vertexToSubIndex.get(edge.to);
-            
-            if (fromIndex !== undefined && toIndex !== undefined && fromIndex !== toIndex) {
-                // Проверяем, что связь еще не добавлена
-                const linkExists = Array.from(links).some(
-                    link => link.from === fromIndex && link.to === toIndex
-                );
-                
-                if (!linkExists) {
-                    links.add({ from: fromIndex, to: toIndex });
+    /**
+     * @group Graph Analysis
+     * Строит отношение достижимости поиском в ширину из каждой вершины за O(V · (V + E)).
+     * Вершина достижима из себя, только если лежит на цикле; в неориентированном графе — только по петле.
+     * @returns {boolean[][]} reachable[i][j] — существует путь ненулевой длины из i-й вершины в j-ю
+     */
+    private reachability(): boolean[][] {
+        return this._vertices.map((start, i) => {
+            const reachable = new Array<boolean>(this._vertices.length).fill(false);
+            const queue: Vertex[] = [start];
+            for (let head = 0; head < queue.length; head++) {
+                for (const { to } of this._outEdges.get(queue[head])!) {
+                    const index = this._indexOf.get(to)!;
+                    if (!reachable[index]) {
+                        reachable[index] = true;
+                        queue.push(to);
+                    }
                 }
             }
+            if (!this._directed) {
+                reachable[i] = this.hasEdge(start, start);
+            }
+            return reachable;
         });
-    
-        return {
-            subGraphs: subs,
-            links
-        };
     }
 
-    bellmanFord(start: Vertex): Record<Vertex, number> {
-        const distances: Record<Vertex, number> = {};
+    /**
+     * @group Graph Analysis
+     * Строит транзитивное замыкание графа: дуга u → v есть, если v достижима из u путём ненулевой длины.
+     * Петля u → u появляется у вершин, лежащих на цикле. Веса рёбер не сохраняются.
+     * @returns {Graph} Граф транзитивного замыкания с теми же вершинами и метаданными
+     */
+    transitiveClosure(): Graph {
+        const edges: Edge[] = [];
+        this.reachability().forEach((row, i) => row.forEach((reachable, j) => {
+            if (reachable && (this._directed || i <= j)) {
+                edges.push({ from: this._vertices[i], to: this._vertices[j] });
+            }
+        }));
+        return new Graph({ ...this.asObject, edges });
+    }
 
-        this._vertices.forEach(vertex => distances[vertex] = vertex === start ? 0 : Infinity);
+    /**
+     * @group Graph Analysis
+     * Возвращает матрицу достижимости: единица, если из вершины строки можно попасть в вершину столбца.
+     * Каждая вершина считается достижимой из себя самой.
+     * @returns {number[][]} Матрица достижимости
+     * @throws {GraphValidationError} Если граф пустой
+     */
+    get reachabilityMatrix(): number[][] {
+        if (this._vertices.length === 0) {
+            throw new GraphValidationError("Невозможно создать матрицу для пустого графа");
+        }
+        return this.reachability().map((row, i) => row.map((reachable, j) => reachable || i === j ? 1 : 0));
+    }
 
-        for (let i = 0; i < this._vertices.length - 1; i++) {
-            this._edges.forEach(({ from, to, weight }) => {
-                if (distances[from] !== Infinity && distances[from] + (weight || 1) < distances[to]) {
-                    distances[to] = distances[from] + (weight || 1);
-                }
-            })
+    /**
+     * @group Graph Analysis
+     * Строит транзитивное сокращение ациклического графа (диаграмму Хассе):
+     * дуга u → v сохраняется, если v недостижима из u другим путём.
+     * Потомки вершин накапливаются в обратном топологическом порядке; из параллельных дуг остаётся первая.
+     * @returns {Graph} Граф без транзитивных дуг с теми же вершинами и метаданными
+     * @throws {GraphValidationError} Если граф неориентированный или содержит цикл
+     */
+    transitiveReduction(): Graph {
+        if (!this._directed) {
+            throw new GraphValidationError("Транзитивное сокращение определено только для ориентированного графа");
+        }
+        if (this._vertices.length === 0) {
+            return this;
         }
 
-        this._edges.forEach(({ from, to, weight }) => {
-            if (distances[from]!== Infinity && distances[from] + (weight || 1) < distances[to]) {
-                throw new GraphValidationError("Граф содержит цикл отрицательного веса");
-            }
-        })
+        const descendants = new Map<Vertex, Set<Vertex>>();
+        const indirect = new Map<Vertex, Set<Vertex>>();
+        for (const vertex of this.HL.flat().reverse()) {
+            const successors = new Set(this._outEdges.get(vertex)!.map(edge => edge.to));
+            const viaSuccessors = new Set<Vertex>();
+            successors.forEach(successor => descendants.get(successor)!.forEach(v => viaSuccessors.add(v)));
+            indirect.set(vertex, viaSuccessors);
+            descendants.set(vertex, new Set([...successors, ...viaSuccessors]));
+        }
 
-        return distances;
+        const seen = new Set<string>();
+        const edges = this._edges.filter(({ from, to }) => {
+            const key = `${from}-${to}`;
+            if (seen.has(key) || indirect.get(from)!.has(to)) return false;
+            seen.add(key);
+            return true;
+        });
+        return new Graph({ ...this.asObject, edges });
     }
 
-    dijkstra(start: Vertex): Record<Vertex, number> {
-        const adjList = this.asAdjList;
-        const distances: Record<Vertex, number> = {};
-        this._vertices.forEach(vertex => distances[vertex] = vertex === start ? 0 : Infinity);
-        const queue = new MinPriorityQueue<{ vertex: Vertex, weight: number}>(item => item.weight);
-        queue.enqueue({ vertex: start, weight: 0 });
-
+    /**
+     * @group Graph Analysis
+     * Возвращает подграфы сильно связанных компонент графа.
+     */
+    get subgraphs(): Set<Graph> {
+        return this.decompose().subGraphs;
+    }
+
+    /**
+     * @group Graph Analysis
+     * Находит сильно связанные компоненты графа итеративным алгоритмом Тарьяна за O(V + E).
+     * Компоненты упорядочены по позиции первой вершины в списке вершин графа,
+     * вершины внутри компоненты — в порядке списка вершин.
+     * @returns {Vertex[][]} Список компонент
+     */
+    stronglyConnectedComponents(): Vertex[][] {
+        const n = this._vertices.length;
+        const adjacency: number[][] = this._vertices.map(vertex =>
+            this._outEdges.get(vertex)!.map(edge => this._indexOf.get(edge.to)!)
+        );
+
+        const order = new Array<number>(n).fill(-1);
+        const lowLink = new Array<number>(n).fill(0);
+        const onStack = new Array<boolean>(n).fill(false);
+        const component = new Array<number>(n).fill(-1);
+        const stack: number[] = [];
+        let counter = 0;
+        let components = 0;
+
+        for (let root = 0; root < n; root++) {
+            if (order[root] !== -1) continue;
+            // Явный стек вызовов: вершина и позиция следующего соседа
+            const callStack: [number, number][] = [[root, 0]];
+            order[root] = lowLink[root] = counter++;
+            stack.push(root);
+            onStack[root] = true;
+
+            while (callStack.length > 0) {
+                const frame = callStack[callStack.length - 1];
+                const [v, next] = frame;
+                if (next < adjacency[v].length) {
+                    frame[1]++;
+                    const w = adjacency[v][next];
+                    if (order[w] === -1) {
+                        order[w] = lowLink[w] = counter++;
+                        stack.push(w);
+                        onStack[w] = true;
+                        callStack.push([w, 0]);
+                    } else if (onStack[w]) {
+                        lowLink[v] = Math.min(lowLink[v], order[w]);
+                    }
+                    continue;
+                }
+
+                callStack.pop();
+                if (callStack.length > 0) {
+                    const parent = callStack[callStack.length - 1][0];
+                    lowLink[parent] = Math.min(lowLink[parent], lowLink[v]);
+                }
+                if (lowLink[v] === order[v]) {
+                    let w: number;
+                    do {
+                        w = stack.pop()!;
+                        onStack[w] = false;
+                        component[w] = components;
+                    } while (w !== v);
+                    components++;
+                }
+            }
+        }
+
+        // Нумерация компонент по первой вершине в порядке списка вершин
+        const renumber = new Map<number, number>();
+        const result: Vertex[][] = [];
+        this._vertices.forEach((vertex, index) => {
+            if (!renumber.has(component[index])) {
+                renumber.set(component[index], result.length);
+                result.push([]);
+            }
+            result[renumber.get(component[index])!].push(vertex);
+        });
+        return result;
+    }
+
+    /**
+     * @group Graph Analysis
+     * Выполняет топологическую декомпозицию графа на сильно связанные подсистемы.
+     * Подсистемы нумеруются по позиции первой вершины в списке вершин графа.
+     * @returns Подграфы подсистем и связи между ними (индексы в списке подграфов)
+     */
+    decompose(): { subGraphs: Set<Graph>, links: Set<{ from: number, to: number }>} {
+        const components = this.stronglyConnectedComponents();
+
+        const vertexToSubIndex = new Map<Vertex, number>();
+        components.forEach((vertices, index) => {
+            vertices.forEach(vertex => vertexToSubIndex.set(vertex, index));
+        });
+
+        const componentEdges: Edge[][] = components.map(() => []);
+        const links = new Set<{ from: number, to: number }>();
+        const linkKeys = new Set<string>();
+        this._edges.forEach(edge => {
+            const fromIndex = vertexToSubIndex.get(edge.from)!;
+            const toIndex = vertexToSubIndex.get(edge.to)!;
+
+            if (fromIndex === toIndex) {
+                componentEdges[fromIndex].push(edge);
+                return;
+            }
+            const key = `${fromIndex}-${toIndex}`;
+            if (!linkKeys.has(key)) {
+                linkKeys.add(key);
+                links.add({ from: fromIndex, to: toIndex });
+            }
+        });
+
+        const subGraphs = new Set<Graph>(
+            components.map((vertices, index) => new Graph({
+                vertices,
+                edges: componentEdges[index],
+                directed: this._directed,
+                ...this.metaFor(vertices)
+            }))
+        );
+
+        return {
+            subGraphs,
+            links
+        };
+    }
+
+    /**
+     * @group Graph Analysis
+     * Строит конденсацию графа: каждая сильно связанная подсистема стягивается в одну вершину,
+     * параллельные связи между подсистемами объединяются.
+     * Подсистемы нумеруются в топологическом порядке (по иерархическим уровням конденсации)
+     * и подписываются S1, S2, …
+     * @returns Граф подсистем, отображение вершины в её подсистему и вершины каждой подсистемы
+     */
+    condensation(): { graph: Graph, vertexToSubsystem: Record<Vertex, Vertex>, subsystems: Vertex[][] } {
+        const components = this.stronglyConnectedComponents();
+        if (components.length === 0) {
+            return { graph: new Graph(), vertexToSubsystem: {}, subsystems: [] };
+        }
+
+        const componentOf = new Map<Vertex, number>();
+        components.forEach((vertices, index) => vertices.forEach(vertex => componentOf.set(vertex, index)));
+        const linkKeys = new Set<string>();
+        const links: Edge[] = [];
+        for (const edge of this._edges) {
+            const from = componentOf.get(edge.from)!;
+            const to = componentOf.get(edge.to)!;
+            if (from !== to && !linkKeys.has(`${from}-${to}`)) {
+                linkKeys.add(`${from}-${to}`);
+                links.push({ from, to });
+            }
+        }
+
+        // Конденсация ациклична, поэтому уровни всегда определены
+        const order = new Graph({ vertices: components.map((_, index) => index), edges: links }).HL.flat();
+        const subsystemOf = new Array<Vertex>(components.length);
+        order.forEach((component, subsystem) => subsystemOf[component] = subsystem);
+
+        const subsystems = order.map(component => components[component]);
+        const vertexToSubsystem: Record<Vertex, Vertex> = {};
+        componentOf.forEach((component, vertex) => vertexToSubsystem[vertex] = subsystemOf[component]);
+
+        return {
+            graph: new Graph({
+                vertices: subsystems.map((_, subsystem) => subsystem),
+                edges: links
+                    .map(({ from, to }) => ({ from: subsystemOf[from], to: subsystemOf[to] }))
+                    .sort((a, b) => a.from - b.from || a.to - b.to),
+                directed: this._directed,
+                labels: Object.fromEntries(subsystems.map((_, subsystem) => [subsystem, `S${subsystem + 1}`]))
+            }),
+            vertexToSubsystem,
+            subsystems
+        };
+    }
+
+    /**
+     * @group Graph Analysis
+     * Наибольший размер сильно связанной компоненты, для которой множество обратных дуг ищется точно.
+     */
+    private static readonly EXACT_FEEDBACK_ARC_SET_LIMIT = 16;
+
+    /**
+     * @group Graph Analysis
+     * Находит множество обратных дуг — дуги, после удаления которых граф становится ациклическим.
+     * Петли удаляются всегда, остальные дуги ищутся отдельно в каждой сильно связанной компоненте:
+     * - компоненты до 16 вершин решаются точно динамическим программированием по подмножествам вершин;
+     * - более крупные — эвристикой Идса–Лина–Смита, после чего лишние дуги возвращаются в граф.
+     * Параллельные дуги считаются одной дугой.
+     * @returns {FeedbackArcSet} Дуги для удаления в порядке списка рёбер и признак минимальности решения
+     * @throws {GraphValidationError} Если граф неориентированный
+     */
+    feedbackArcSet(): FeedbackArcSet {
+        if (!this._directed) {
+            throw new GraphValidationError("Множество обратных дуг определено только для ориентированного графа");
+        }
+
+        const removed = new Set<string>(
+            this._edges.filter(edge => edge.from === edge.to).map(edge => `${edge.from}-${edge.to}`)
+        );
+        let exact = true;
+
+        for (const component of this.stronglyConnectedComponents()) {
+            if (component.length < 2) continue;
+
+            const local = new Map<Vertex, number>(component.map((vertex, index) => [vertex, index]));
+            const adjacency: number[][] = component.map(vertex => [...new Set(
+                this._outEdges.get(vertex)!
+                    .filter(edge => edge.to !== vertex && local.has(edge.to))
+                    .map(edge => local.get(edge.to)!)
+            )]);
+
+            const small = component.length <= Graph.EXACT_FEEDBACK_ARC_SET_LIMIT;
+            exact &&= small;
+            const order = small ? Graph.minimumFeedbackOrder(adjacency) : Graph.eadesLinSmythOrder(adjacency);
+
+            // Обратные дуги — дуги, ведущие к вершине, стоящей раньше в найденном порядке
+            const position = new Array<number>(component.length);
+            order.forEach((v, index) => position[v] = index);
+            let backward: [number, number][] = adjacency.flatMap((targets, v) =>
+                targets.filter(w => position[w] < position[v]).map(w => [v, w] as [number, number])
+            );
+            if (!small) {
+                backward = Graph.restoreRedundantArcs(adjacency, backward);
+            }
+            backward.forEach(([v, w]) => removed.add(`${component[v]}-${component[w]}`));
+        }
+
+        // Из параллельных дуг берём первую: ключ удаляется из множества при первом совпадении
+        const edges = this._edges.filter(edge => removed.delete(`${edge.from}-${edge.to}`));
+        return { edges, exact };
+    }
+
+    /**
+     * @group Graph Analysis
+     * Точный порядок вершин сильно связанной компоненты с минимальным числом обратных дуг.
+     * dp[S] — наименьшее число обратных дуг, если вершины множества S стоят в начале порядка;
+     * вершина v, поставленная после S, добавляет свои дуги в S. Сложность O(2^n · n).
+     * @param {number[][]} adjacency Списки смежности компоненты в локальной нумерации
+     * @returns {number[]} Порядок вершин
+     */
+    private static minimumFeedbackOrder(adjacency: number[][]): number[] {
+        const n = adjacency.length;
+        const outMask = adjacency.map(targets => targets.reduce((mask, w) => mask | (1 << w), 0));
+        const full = (1 << n) - 1;
+        const cost = new Array<number>(full + 1).fill(Infinity);
+        const last = new Int8Array(full + 1);
+        cost[0] = 0;
+
+        for (let set = 0; set < full; set++) {
+            for (let v = 0; v < n; v++) {
+                if (set & (1 << v)) continue;
+                let arcs = outMask[v] & set;
+                let count = 0;
+                for (; arcs; arcs &= arcs - 1) count++;
+                const next = set | (1 << v);
+                if (cost[set] + count < cost[next]) {
+                    cost[next] = cost[set] + count;
+                    last[next] = v;
+                }
+            }
+        }
+
+        const order: number[] = [];
+        for (let set = full; set; set &= ~(1 << last[set])) {
+            order.push(last[set]);
+        }
+        return order.reverse();
+    }
+
+    /**
+     * @group Graph Analysis
+     * Порядок вершин по эвристике Идса–Лина–Смита: стоки уходят в конец порядка, источники — в начало,
+     * а при их отсутствии в начало ставится вершина с наибольшей разностью полустепеней исхода и захода.
+     * @param {number[][]} adjacency Списки смежности компоненты в локальной нумерации
+     * @returns {number[]} Порядок вершин
+     */
+    private static eadesLinSmythOrder(adjacency: number[][]): number[] {
+        const n = adjacency.length;
+        const incoming: number[][] = adjacency.map(() => []);
+        adjacency.forEach((targets, v) => targets.forEach(w => incoming[w].push(v)));
+        const outDegree = adjacency.map(targets => targets.length);
+        const inDegree = incoming.map(sources => sources.length);
+        const placed = new Array<boolean>(n).fill(false);
+
+        // Ленивая очередь по убыванию разности полустепеней, при равенстве — меньший номер вершины
+        const queue = new MinPriorityQueue<{ vertex: number, delta: number }>(item => -item.delta * n + item.vertex);
+        const candidates: number[] = [];
+        const touch = (v: number) => {
+            queue.enqueue({ vertex: v, delta: outDegree[v] - inDegree[v] });
+            candidates.push(v);
+        };
+        adjacency.forEach((_, v) => touch(v));
+
+        const head: number[] = [];
+        const tail: number[] = [];
+        const place = (v: number, list: number[]) => {
+            placed[v] = true;
+            list.push(v);
+            adjacency[v].forEach(w => { if (!placed[w]) { inDegree[w]--; touch(w); } });
+            incoming[v].forEach(u => { if (!placed[u]) { outDegree[u]--; touch(u); } });
+        };
+
+        while (head.length + tail.length < n) {
+            const v = candidates.pop();
+            if (v !== undefined) {
+                if (placed[v]) continue;
+                if (outDegree[v] === 0) place(v, tail);
+                else if (inDegree[v] === 0) place(v, head);
+                continue;
+            }
+            let top = queue.dequeue()!;
+            while (placed[top.vertex] || top.delta !== outDegree[top.vertex] - inDegree[top.vertex]) {
+                top = queue.dequeue()!;
+            }
+            place(top.vertex, head);
+        }
+
+        return [...head, ...tail.reverse()];
+    }
+
+    /**
+     * @group Graph Analysis
+     * Возвращает в граф обратные дуги, не замыкающие цикл, чтобы множество стало минимальным по включению.
+     * @param {number[][]} adjacency Списки смежности компоненты в локальной нумерации
+     * @param {[number, number][]} backward Обратные дуги
+     * @returns {[number, number][]} Дуги, которые действительно нужно удалить
+     */
+    private static restoreRedundantArcs(adjacency: number[][], backward: [number, number][]): [number, number][] {
+        const isBackward = new Set(backward.map(([v, w]) => `${v}-${w}`));
+        const kept = adjacency.map((targets, v) => targets.filter(w => !isBackward.has(`${v}-${w}`)));
+        const reaches = (from: number, to: number): boolean => {
+            const visited = new Set<number>([from]);
+            const stack = [from];
+            while (stack.length > 0) {
+                const v = stack.pop()!;
+                if (v === to) return true;
+                for (const w of kept[v]) {
+                    if (!visited.has(w)) {
+                        visited.add(w);
+                        stack.push(w);
+                    }
+                }
+            }
+            return false;
+        };
+
+        return backward.filter(([v, w]) => {
+            if (reaches(w, v)) return true;
+            kept[v].push(w);
+            return false;
+        });
+    }
+
+    /**
+     * @group Graph Analysis
+     * Погрешность сравнения вещественных сроков, весов и расстояний.
+     */
+    static readonly EPSILON = 1e-9;
+
+    /**
+     * @group Graph Analysis
+     * Вес ребра с учётом значения по умолчанию: ребро без веса считается единичным.
+     * @param {Edge} edge Ребро
+     * @returns {number} Вес ребра
+     */
+    private static weightOf(edge: Edge): number {
+        return edge.weight ?? 1;
+    }
+
+    /**
+     * @group Graph Analysis
+     * Алгоритм Беллмана-Форда с восстановлением дерева кратчайших путей.
+     * @param {Vertex} start Начальная вершина
+     * @returns {ShortestPathTree} Расстояния и предшественники для всех вершин
+     * @throws {GraphValidationError} Если граф содержит цикл отрицательного веса
+     */
+    bellmanFordTree(start: Vertex): ShortestPathTree {
+        const distances: Record<Vertex, number> = {};
+        const predecessors: Record<Vertex, Vertex | null> = {};
+
+        this._vertices.forEach(vertex => {
+            distances[vertex] = vertex === start ? 0 : Infinity;
+            predecessors[vertex] = null;
+        });
+
+        for (let i = 0; i < this._vertices.length - 1; i++) {
+            let changed = false;
+            this._arcs.forEach(edge => {
+                const { from, to } = edge;
+                if (distances[from] !== Infinity && distances[from] + Graph.weightOf(edge) < distances[to]) {
+                    distances[to] = distances[from] + Graph.weightOf(edge);
+                    predecessors[to] = from;
+                    changed = true;
+                }
+            });
+            if (!changed) break;
+        }
+
+        this._arcs.forEach(edge => {
+            const { from, to } = edge;
+            if (distances[from] !== Infinity && distances[from] + Graph.weightOf(edge) < distances[to]) {
+                predecessors[to] = from;
+                throw this.negativeCycleError(predecessors, to);
+            }
+        });
+
+        return { distances, predecessors };
+    }
+
+    /**
+     * @group Graph Analysis
+     * Алгоритм Беллмана-Форда: кратчайшие расстояния от вершины до всех остальных.
+     * @param {Vertex} start Начальная вершина
+     * @returns {Record<Vertex, number>} Расстояния до вершин (Infinity для недостижимых)
+     * @throws {GraphValidationError} Если граф содержит цикл отрицательного веса
+     */
+    bellmanFord(start: Vertex): Record<Vertex, number> {
+        return this.bellmanFordTree(start).distances;
+    }
+
+    /**
+     * @group Graph Analysis
+     * Алгоритм Дейкстры с восстановлением дерева кратчайших путей.
+     * Корректен только для графов с неотрицательными весами рёбер.
+     * @param {Vertex} start Начальная вершина
+     * @returns {ShortestPathTree} Расстояния и предшественники для всех вершин
+     */
+    dijkstraTree(start: Vertex): ShortestPathTree {
+        const distances: Record<Vertex, number> = {};
+        const predecessors: Record<Vertex, Vertex | null> = {};
+        this._vertices.forEach(vertex => {
+            distances[vertex] = vertex === start ? 0 : Infinity;
+            predecessors[vertex] = null;
+        });
+        const queue = new MinPriorityQueue<{ vertex: Vertex, weight: number}>(item => item.weight);
+        queue.enqueue({ vertex: start, weight: 0 });
+
         while (!queue.isEmpty()) {
-            const { vertex, } = queue.dequeue()!;
-            for (const { target, weight: edgeWeight } of adjList[vertex]) {
-                if (distances[vertex]!== Infinity && distances[vertex] + (edgeWeight || 1) < distances[target]) {
-                    distances[target] = distances[vertex] + (edgeWeight || 1);
-                    queue.enqueue({ vertex: target, weight: distances[target] });
+            const { vertex, weight } = queue.dequeue()!;
+            if (weight > distances[vertex]) continue;
+            for (const edge of this._outEdges.get(vertex)!) {
+                if (distances[vertex] + Graph.weightOf(edge) < distances[edge.to]) {
+                    distances[edge.to] = distances[vertex] + Graph.weightOf(edge);
+                    predecessors[edge.to] = vertex;
+                    queue.enqueue({ vertex: edge.to, weight: distances[edge.to] });
                 }
             }
         }
 
-        return distances;
+        return { distances, predecessors };
     }
 
-    johnson(): Record<Vertex, Record<Vertex, number>> {
-        const { vertices, edges } = { ...this.asObject };
+    /**
+     * @group Graph Analysis
+     * Алгоритм Дейкстры: кратчайшие расстояния от вершины до всех остальных.
+     * @param {Vertex} start Начальная вершина
+     * @returns {Record<Vertex, number>} Расстояния до вершин (Infinity для недостижимых)
+     */
+    dijkstra(start: Vertex): Record<Vertex, number> {
+        return this.dijkstraTree(start).distances;
+    }
+
+    /**
+     * @group Graph Analysis
+     * Алгоритм Джонсона с восстановлением путей.
+     * Перевзвешивает рёбра потенциалами, найденными алгоритмом Беллмана-Форда,
+     * после чего запускает алгоритм Дейкстры из каждой вершины.
+     * @returns {AllPairsShortestPaths} Матрица расстояний и предшественники для каждой начальной вершины
+     * @throws {GraphValidationError} Если граф содержит цикл отрицательного веса
+     */
+    johnsonPaths(): AllPairsShortestPaths {
+        const result: Record<Vertex, Record<Vertex, number>> = {};
+        const predecessors: Record<Vertex, Record<Vertex, Vertex | null>> = {};
+        if (this._vertices.length === 0) {
+            return { distances: result, predecessors };
+        }
+        if (!this._directed) {
+            return this.asDirected.johnsonPaths();
+        }
+
+        const { vertices, edges } = this.asObject;
         const q = Math.max(...this._vertices) + 1;
         vertices.push(q);
-        edges.push(...vertices.filter(v => v !== q).map(v => ({ from: q, to: v, weight: 0 } as Edge)));
-        let distances: Record<Vertex, number>;
-        try {
-            distances = new Graph({ vertices, edges }).bellmanFord(q);
-        } catch {
-            throw new GraphValidationError("Граф содержит цикл отрицательного веса");
-        }
-        const result: Record<Vertex, Record<Vertex, number>> = {};
+        edges.push(...this._vertices.map(v => ({ from: q, to: v, weight: 0 } as Edge)));
+        // Вспомогательная вершина q не имеет входящих дуг и не входит в найденный цикл;
+        // названия передаются, чтобы сообщение о цикле совпадало с bellmanFord
+        const potentials = new Graph({ vertices, edges, labels: this._labels }).bellmanFord(q);
         const reweightedGraph = new Graph({
             ...this.asObject,
             edges: this._edges.map(
                 edge => ({
                     ...edge,
-                    weight: (edge.weight || 1) + distances[edge.from] - distances[edge.to]
+                    weight: Graph.weightOf(edge) + potentials[edge.from] - potentials[edge.to]
                 })
             )
-        })
+        });
         for (const from of this._vertices) {
-            distances = reweightedGraph.dijkstra(from);
+            const tree = reweightedGraph.dijkstraTree(from);
             result[from] = {};
             for (const to of this._vertices) {
-                result[from][to] = distances[to] === Infinity ? Infinity : distances[to] + distances[to] - distances[from];
+                result[from][to] = tree.distances[to] === Infinity
+                    ? Infinity
+                    : tree.distances[to] - potentials[from] + potentials[to];
             }
+            predecessors[from] = tree.predecessors;
         }
-        return result;
+        return { distances: result, predecessors };
+    }
+
+    /**
+     * @group Graph Analysis
+     * Алгоритм Джонсона: матрица кратчайших расстояний между всеми парами вершин.
+     * @returns {Record<Vertex, Record<Vertex, number>>} Матрица расстояний
+     * @throws {GraphValidationError} Если граф содержит цикл отрицательного веса
+     */
+    johnson(): Record<Vertex, Record<Vertex, number>> {
+        return this.johnsonPaths().distances;
+    }
+
+    /**
+     * @group Graph Analysis
+     * Алгоритм Флойда-Уоршелла: кратчайшие расстояния между всеми парами вершин
+     * и матрица следующих вершин на кратчайших путях.
+     * @returns {FloydWarshallResult} Матрица расстояний и матрица следующих вершин
+     * @throws {GraphValidationError} Если граф содержит цикл отрицательного веса
+     */
+    floydWarshall(): FloydWarshallResult {
+        const distances: Record<Vertex, Record<Vertex, number>> = {};
+        const next: Record<Vertex, Record<Vertex, Vertex | null>> = {};
+
+        for (const from of this._vertices) {
+            distances[from] = {};
+            next[from] = {};
+            for (const to of this._vertices) {
+                distances[from][to] = from === to ? 0 : Infinity;
+                next[from][to] = from === to ? to : null;
+            }
+        }
+        for (const edge of this._arcs) {
+            const { from, to } = edge;
+            if (Graph.weightOf(edge) < distances[from][to]) {
+                distances[from][to] = Graph.weightOf(edge);
+                next[from][to] = to;
+            }
+        }
+
+        for (const k of this._vertices) {
+            for (const i of this._vertices) {
+                if (distances[i][k] === Infinity) continue;
+                for (const j of this._vertices) {
+                    if (distances[i][k] + distances[k][j] < distances[i][j]) {
+                        distances[i][j] = distances[i][k] + distances[k][j];
+                        next[i][j] = next[i][k];
+                    }
+                }
+            }
+        }
+
+        if (this._vertices.some(v => distances[v][v] < 0)) {
+            throw this.findNegativeCycle();
+        }
+
+        return { distances, next };
+    }
+
+    /**
+     * @group Graph Analysis
+     * Восстанавливает путь по матрице следующих вершин алгоритма Флойда-Уоршелла.
+     * @param {Record<Vertex, Record<Vertex, Vertex | null>>} next Матрица следующих вершин
+     * @param {Vertex} from Начальная вершина
+     * @param {Vertex} to Конечная вершина
+     * @returns {ShortestPath | null} Путь или null, если вершина недостижима
+     */
+    traceNextHops(next: Record<Vertex, Record<Vertex, Vertex | null>>, from: Vertex, to: Vertex): ShortestPath | null {
+        if (next[from]?.[to] === null || next[from]?.[to] === undefined) {
+            return null;
+        }
+        const vertices: Vertex[] = [from];
+        let current = from;
+        while (current !== to) {
+            const hop = next[current][to];
+            if (hop === null || vertices.length > this._vertices.length) {
+                return null;
+            }
+            vertices.push(hop);
+            current = hop;
+        }
+        return this.pathFromVertices(vertices);
+    }
+
+    /**
+     * @group Graph Analysis
+     * Формирует ошибку цикла с перечислением его вершин.
+     * @param {Vertex[]} cycle Вершины цикла в порядке обхода
+     * @param {string} reason Пояснение, почему цикл недопустим
+     * @param {boolean} [negative=false] Цикл отрицательного веса
+     * @returns {GraphCycleError} Ошибка цикла
+     */
+    private cycleError(cycle: Vertex[], reason: string, negative: boolean = false): GraphCycleError {
+        // Цикл начинается с вершины, которая раньше других встречается в списке вершин
+        const start = cycle.reduce((best, v, i) => this._indexOf.get(v)! < this._indexOf.get(cycle[best])! ? i : best, 0);
+        cycle = [...cycle.slice(start), ...cycle.slice(0, start)];
+        const { edges, weight } = this.pathFromVertices([...cycle, cycle[0]]);
+        const route = [...cycle, cycle[0]].map(v => this.label(v)).join(" → ");
+        return negative
+            ? new GraphCycleError(`Граф содержит цикл отрицательного веса ${route} (вес ${weight}), ${reason}`, cycle, edges, weight)
+            : new GraphCycleError(`Граф содержит цикл ${route}, ${reason}`, cycle, edges);
+    }
+
+    /**
+     * @group Graph Analysis
+     * Выделяет цикл отрицательного веса из массива предшественников алгоритма Беллмана-Форда.
+     * Вершина, улучшенная на V-й итерации, достижима из цикла: после V шагов назад
+     * по предшественникам мы гарантированно оказываемся на цикле.
+     * @param {Record<Vertex, Vertex | null>} predecessors Предшественники вершин
+     * @param {Vertex} vertex Вершина, расстояние до которой удалось улучшить
+     * @returns {GraphCycleError} Ошибка с найденным циклом
+     */
+    private negativeCycleError(predecessors: Record<Vertex, Vertex | null>, vertex: Vertex): GraphCycleError {
+        const reason = "кратчайшие пути не определены";
+        let current = vertex;
+        for (let i = 0; i < this._vertices.length; i++) {
+            current = predecessors[current]!;
+        }
+        const cycle: Vertex[] = [current];
+        for (let v = predecessors[current]!; v !== current; v = predecessors[v]!) {
+            cycle.push(v);
+        }
+        return this.cycleError(cycle.reverse(), reason, true);
+    }
+
+    /**
+     * @group Graph Analysis
+     * Ищет цикл отрицательного веса алгоритмом Беллмана-Форда от фиктивного источника,
+     * связанного со всеми вершинами дугами нулевого веса.
+     * @returns {GraphCycleError} Ошибка с найденным циклом
+     */
+    private findNegativeCycle(): GraphCycleError {
+        const distances: Record<Vertex, number> = {};
+        const predecessors: Record<Vertex, Vertex | null> = {};
+        this._vertices.forEach(vertex => {
+            distances[vertex] = 0;
+            predecessors[vertex] = null;
+        });
+        let relaxed: Vertex | null = null;
+        for (let i = 0; i < this._vertices.length; i++) {
+            relaxed = null;
+            for (const edge of this._arcs) {
+                if (distances[edge.from] + Graph.weightOf(edge) < distances[edge.to]) {
+                    distances[edge.to] = distances[edge.from] + Graph.weightOf(edge);
+                    predecessors[edge.to] = edge.from;
+                    relaxed = edge.to;
+                }
+            }
+            if (relaxed === null) break;
+        }
+        if (relaxed === null) {
+            throw new GraphArgumentError("Граф не содержит цикла отрицательного веса");
+        }
+        return this.negativeCycleError(predecessors, relaxed);
+    }
+
+    /**
+     * @group Graph Analysis
+     * Восстанавливает путь по массиву предшественников, полученному от одного источника.
+     * Из параллельных рёбер выбирается ребро с наименьшим весом.
+     * @param {Record<Vertex, Vertex | null>} predecessors Предшественники вершин
+     * @param {Vertex} from Начальная вершина
+     * @param {Vertex} to Конечная вершина
+     * @returns {ShortestPath | null} Путь или null, если вершина недостижима
+     */
+    tracePath(predecessors: Record<Vertex, Vertex | null>, from: Vertex, to: Vertex): ShortestPath | null {
+        const vertices: Vertex[] = [to];
+        let current = to;
+        while (current !== from) {
+            const previous = predecessors[current];
+            if (previous === null || previous === undefined || vertices.length > this._vertices.length) {
+                return null;
+            }
+            vertices.unshift(previous);
+            current = previous;
+        }
+        return this.pathFromVertices(vertices);
+    }
+
+    /**
+     * @group Graph Analysis
+     * Собирает описание пути по последовательности вершин.
+     * @param {Vertex[]} vertices Последовательность вершин пути
+     * @returns {ShortestPath} Вершины, рёбра и суммарный вес пути
+     */
+    private pathFromVertices(vertices: Vertex[]): ShortestPath {
+        const edges: Edge[] = [];
+        for (let i = 1; i < vertices.length; i++) {
+            const candidates = this._outEdges.get(vertices[i - 1])!.filter(e => e.to === vertices[i]);
+            edges.push(candidates.reduce((best, e) => Graph.weightOf(e) < Graph.weightOf(best) ? e : best));
+        }
+        const weight = edges.reduce((sum, edge) => sum + Graph.weightOf(edge), 0);
+        return { vertices, edges, weight };
     }
 
+    /**
+     * @group Graph Analysis
+     * Находит кратчайший путь между двумя вершинами алгоритмом Беллмана-Форда.
+     * @param {Vertex} from Начальная вершина
+     * @param {Vertex} to Конечная вершина
+     * @returns {ShortestPath | null} Путь или null, если вершина недостижима
+     * @throws {GraphValidationError} Если вершины отсутствуют в графе или граф содержит цикл отрицательного веса
+     */
+    shortestPath(from: Vertex, to: Vertex): ShortestPath | null {
+        if (!this._indexOf.has(from)) {
+            throw new GraphValidationError(`Вершина ${from} не найдена в графе`);
+        }
+        if (!this._indexOf.has(to)) {
+            throw new GraphValidationError(`Вершина ${to} не найдена в графе`);
+        }
+        return this.tracePath(this.bellmanFordTree(from).predecessors, from, to);
+    }
+
+    /**
+     * @group Conversion Methods
+     * Возвращает матрицу кратчайших путей между всеми парами вершин.
+     */
     get asShortestPathsMatrix(): Record<Vertex, Record<Vertex, number>> {
         return this.johnson();
     }
-}
\ No newline at end of file
+
+    /**
+     * @group Graph Metrics
+     * Вычисляет сводные метрики графа:
+     * - полустепени захода и исхода (для неориентированного графа обе равны степени вершины);
+     * - плотность — доля имеющихся рёбер без петель от наибольшего возможного числа;
+     * - эксцентриситет вершины — наибольшее кратчайшее расстояние от неё до остальных вершин (алгоритм Джонсона),
+     *   радиус и диаметр — наименьший и наибольший эксцентриситеты, центр и периферия — вершины, на которых они достигаются;
+     * - связность: сильная, односторонняя, слабая или граф несвязен.
+     * Если какая-то вершина недостижима, эксцентриситет равен бесконечности.
+     * @returns {GraphMetrics} Метрики графа
+     * @throws {GraphValidationError} Если граф пустой или содержит цикл отрицательного веса
+     */
+    metrics(): GraphMetrics {
+        if (this._vertices.length === 0) {
+            throw new GraphValidationError("Невозможно вычислить метрики пустого графа");
+        }
+
+        const inDegrees: Record<Vertex, number> = {};
+        const outDegrees: Record<Vertex, number> = {};
+        this._vertices.forEach(vertex => {
+            inDegrees[vertex] = this._inEdges.get(vertex)!.length;
+            outDegrees[vertex] = this._outEdges.get(vertex)!.length;
+        });
+
+        const n = this._vertices.length;
+        const pairs = new Set(
+            this._arcs.filter(({ from, to }) => from !== to).map(({ from, to }) => `${from}-${to}`)
+        ).size;
+        const density = n > 1 ? pairs / (n * (n - 1)) : 0;
+
+        const distances = this.johnson();
+        const eccentricities: Record<Vertex, number> = {};
+        this._vertices.forEach(vertex => {
+            eccentricities[vertex] = Math.max(...this._vertices.map(to => distances[vertex][to]));
+        });
+        const values = Object.values(eccentricities);
+        const radius = Math.min(...values);
+        const diameter = Math.max(...values);
+
+        return {
+            inDegrees,
+            outDegrees,
+            density,
+            eccentricities,
+            radius,
+            diameter,
+            center: this._vertices.filter(vertex => eccentricities[vertex] === radius),
+            periphery: this._vertices.filter(vertex => eccentricities[vertex] === diameter),
+            connectivity: this.connectivity()
+        };
+    }
+
+    /**
+     * @group Graph Metrics
+     * Определяет вид связности графа:
+     * - сильная — граф состоит из одной сильно связанной компоненты;
+     * - односторонняя — конденсация содержит гамильтонов путь, то есть соседние в топологическом порядке подсистемы связаны;
+     * - слабая — связен граф, полученный отбрасыванием ориентации.
+     * Неориентированный связный граф считается сильно связным.
+     * @returns {Connectivity} Вид связности
+     */
+    connectivity(): Connectivity {
+        if (this.stronglyConnectedComponents().length <= 1) {
+            return 'strong';
+        }
+        if (!this._directed) {
+            return 'disconnected';
+        }
+        const { graph: condensation } = this.condensation();
+        if (condensation.vertices.slice(1).every(subsystem => condensation.hasEdge(subsystem - 1, subsystem))) {
+            return 'unilateral';
+        }
+        const underlying = new Graph({ vertices: [...this._vertices], edges: [...this._edges], directed: false });
+        return underlying.stronglyConnectedComponents().length === 1 ? 'weak' : 'disconnected';
+    }
+
+    /**
+     * @group Centrality
+     * Проверяет, что веса рёбер неотрицательны: меры центральности опираются на алгоритм Дейкстры
+     * и на вероятности переходов, пропорциональные весам.
+     * @param {string} measure Название меры для сообщения об ошибке
+     * @throws {GraphArgumentError} Если есть ребро отрицательного веса
+     */
+    private validateNonNegativeWeights(measure: string): void {
+        const negative = this._edges.find(edge => Graph.weightOf(edge) < 0);
+        if (negative) {
+            throw new GraphArgumentError(
+                `${measure} не определена для ребра отрицательного веса ${this.label(negative.from)} → ${this.label(negative.to)}`
+            );
+        }
+    }
+
+    /**
+     * @group Centrality
+     * Центральность по степени: полустепень захода или исхода вершины, делённая на n - 1.
+     * Для неориентированного графа обе величины совпадают со степенью вершины.
+     * @param {'in' | 'out'} [direction='out'] Учитываемые рёбра: входящие или исходящие
+     * @returns {Record<Vertex, number>} Центральность каждой вершины
+     */
+    degreeCentrality(direction: 'in' | 'out' = 'out'): Record<Vertex, number> {
+        const edges = direction === 'in' ? this._inEdges : this._outEdges;
+        const scale = this._vertices.length > 1 ? 1 / (this._vertices.length - 1) : 0;
+        return Object.fromEntries(this._vertices.map(vertex => [vertex, edges.get(vertex)!.length * scale]));
+    }
+
+    /**
+     * @group Centrality
+     * Центральность по близости в варианте Вассермана–Фауст, применимом к несвязным графам:
+     * C(v) = (r - 1)² / ((n - 1) · Σ d(v, u)), где r — число вершин, достижимых из v (включая её саму).
+     * Вершина, из которой ничего не достижимо, имеет нулевую близость. Расстояния учитывают веса рёбер.
+     * @returns {Record<Vertex, number>} Центральность каждой вершины
+     * @throws {GraphArgumentError} Если есть ребро отрицательного веса
+     */
+    closenessCentrality(): Record<Vertex, number> {
+        this.validateNonNegativeWeights("Близость");
+        const n = this._vertices.length;
+        return Object.fromEntries(this._vertices.map(vertex => {
+            const reachable = Object.values(this.dijkstra(vertex)).filter(distance => distance !== Infinity);
+            const total = reachable.reduce((sum, distance) => sum + distance, 0);
+            const r = reachable.length;
+            return [vertex, total > 0 ? (r - 1) ** 2 / ((n - 1) * total) : 0];
+        }));
+    }
+
+    /**
+     * @group Centrality
+     * Центральность по посредничеству алгоритмом Брандеса за O(V · E · log V):
+     * для каждой вершины — сумма долей кратчайших путей между другими парами вершин, проходящих через неё.
+     * Кратчайшие пути ищутся алгоритмом Дейкстры, поэтому мера работает и для взвешенных, и для невзвешенных графов.
+     * В неориентированном графе каждая пара вершин учитывается один раз.
+     * @returns {Record<Vertex, number>} Центральность каждой вершины (без нормировки)
+     * @throws {GraphArgumentError} Если есть ребро отрицательного веса
+     */
+    betweennessCentrality(): Record<Vertex, number> {
+        this.validateNonNegativeWeights("Центральность по посредничеству");
+        const n = this._vertices.length;
+        const centrality = new Array<number>(n).fill(0);
+
+        for (let s = 0; s < n; s++) {
+            const distance = new Array<number>(n).fill(Infinity);
+            const paths = new Array<number>(n).fill(0);
+            const predecessors: number[][] = this._vertices.map(() => []);
+            const settled: number[] = [];
+            const done = new Array<boolean>(n).fill(false);
+            distance[s] = 0;
+            paths[s] = 1;
+
+            const queue = new MinPriorityQueue<{ index: number, distance: number }>(item => item.distance);
+            queue.enqueue({ index: s, distance: 0 });
+            while (!queue.isEmpty()) {
+                const { index: v } = queue.dequeue()!;
+                if (done[v]) continue;
+                done[v] = true;
+                settled.push(v);
+                for (const edge of this._outEdges.get(this._vertices[v])!) {
+                    const w = this._indexOf.get(edge.to)!;
+                    const candidate = distance[v] + Graph.weightOf(edge);
+                    if (candidate < distance[w] - Graph.EPSILON) {
+                        distance[w] = candidate;
+                        paths[w] = paths[v];
+                        predecessors[w] = [v];
+                        queue.enqueue({ index: w, distance: candidate });
+                    } else if (Math.abs(candidate - distance[w]) <= Graph.EPSILON && !done[w]) {
+                        paths[w] += paths[v];
+                        predecessors[w].push(v);
+                    }
+                }
+            }
+
+            // Накопление зависимостей в порядке убывания расстояния от источника
+            const dependency = new Array<number>(n).fill(0);
+            for (const w of settled.reverse()) {
+                for (const v of predecessors[w]) {
+                    dependency[v] += paths[v] / paths[w] * (1 + dependency[w]);
+                }
+                if (w !== s) {
+                    centrality[w] += dependency[w];
+                }
+            }
+        }
+
+        const scale = this._directed ? 1 : 0.5;
+        return Object.fromEntries(this._vertices.map((vertex, index) => [vertex, centrality[index] * scale]));
+    }
+
+    /**
+     * @group Centrality
+     * PageRank степенным методом. Вероятность перехода по ребру пропорциональна его весу;
+     * из вершин без исходящих рёбер (или с нулевым суммарным весом) переход равновероятен в любую вершину.
+     * @param {number} [damping=0.85] Коэффициент затухания — вероятность перехода по ребру, а не в случайную вершину
+     * @param {number} [tolerance=1e-10] Точность: итерации прекращаются, когда сумма изменений меньше неё
+     * @param {number} [maxIterations=100] Наибольшее число итераций
+     * @returns {Record<Vertex, number>} Ранг каждой вершины; сумма рангов равна единице
+     * @throws {GraphArgumentError} Если коэффициент затухания вне отрезка [0, 1] или есть ребро отрицательного веса
+     */
+    pageRank(damping: number = 0.85, tolerance: number = 1e-10, maxIterations: number = 100): Record<Vertex, number> {
+        if (!(damping >= 0 && damping <= 1)) {
+            throw new GraphArgumentError("Коэффициент затухания должен лежать в отрезке [0, 1]");
+        }
+        this.validateNonNegativeWeights("PageRank");
+
+        const n = this._vertices.length;
+        const totalWeight = this._vertices.map(vertex =>
+            this._outEdges.get(vertex)!.reduce((sum, edge) => sum + Graph.weightOf(edge), 0)
+        );
+        let rank = new Array<number>(n).fill(1 / n);
+
+        for (let iteration = 0; iteration < maxIterations; iteration++) {
+            const dangling = rank.reduce((sum, value, index) => totalWeight[index] > 0 ? sum : sum + value, 0);
+            const next = new Array<number>(n).fill((1 - damping) / n + damping * dangling / n);
+            this._vertices.forEach((vertex, index) => {
+                if (totalWeight[index] === 0) return;
+                for (const edge of this._outEdges.get(vertex)!) {
+                    next[this._indexOf.get(edge.to)!] += damping * rank[index] * Graph.weightOf(edge) / totalWeight[index];
+                }
+            });
+            const change = next.reduce((sum, value, index) => sum + Math.abs(value - rank[index]), 0);
+            rank = next;
+            if (change < tolerance) break;
+        }
+
+        return Object.fromEntries(this._vertices.map((vertex, index) => [vertex, rank[index]]));
+    }
+
+    /**
+     * @group Spanning Trees
+     * Строит минимальное остовное дерево, рассматривая рёбра как неориентированные и взвешенные.
+     * Для несвязного графа строится остовный лес — по дереву на каждую компоненту связности. Петли не учитываются.
+     * @param {'prim' | 'kruskal'} [algorithm='prim'] Алгоритм Прима или Краскала
+     * @returns {SpanningForest} Рёбра в порядке их принятия алгоритмом, суммарный вес и вершины каждого дерева
+     * @throws {GraphArgumentError} Если алгоритм неизвестен
+     */
+    minimumSpanningTree(algorithm: 'prim' | 'kruskal' = 'prim'): SpanningForest {
+        let edges: Edge[];
+        if (algorithm === 'prim') {
+            edges = this.primEdges();
+        } else if (algorithm === 'kruskal') {
+            edges = this.kruskalEdges();
+        } else {
+            throw new GraphArgumentError(`Неизвестный алгоритм построения остовного дерева: ${algorithm}`);
+        }
+
+        // Деревья леса — компоненты связности по принятым рёбрам, в порядке списка вершин
+        const parent = this._vertices.map((_, index) => index);
+        const find = (index: number): number => {
+            while (parent[index] !== index) {
+                index = parent[index] = parent[parent[index]];
+            }
+            return index;
+        };
+        edges.forEach(({ from, to }) => {
+            parent[find(this._indexOf.get(from)!)] = find(this._indexOf.get(to)!);
+        });
+        const treeOf = new Map<number, Vertex[]>();
+        this._vertices.forEach((vertex, index) => {
+            const root = find(index);
+            if (!treeOf.has(root)) treeOf.set(root, []);
+            treeOf.get(root)!.push(vertex);
+        });
+
+        return {
+            edges,
+            weight: edges.reduce((sum, edge) => sum + Graph.weightOf(edge), 0),
+            trees: [...treeOf.values()]
+        };
+    }
+
+    /**
+     * @group Spanning Trees
+     * Алгоритм Прима с ленивой очередью с приоритетом: дерево растёт из первой непокрытой вершины,
+     * каждый раз присоединяя самое лёгкое ребро, ведущее из дерева наружу.
+     * @returns {Edge[]} Рёбра остовного леса в порядке принятия
+     */
+    private primEdges(): Edge[] {
+        const incident = new Map<Vertex, { edge: Edge, to: Vertex }[]>(this._vertices.map(vertex => [vertex, []]));
+        for (const edge of this._edges) {
+            if (edge.from === edge.to) continue;
+            incident.get(edge.from)!.push({ edge, to: edge.to });
+            incident.get(edge.to)!.push({ edge, to: edge.from });
+        }
+
+        const inTree = new Set<Vertex>();
+        const accepted: Edge[] = [];
+        for (const root of this._vertices) {
+            if (inTree.has(root)) continue;
+            inTree.add(root);
+            const queue = new MinPriorityQueue<{ edge: Edge, to: Vertex, weight: number }>(item => item.weight);
+            incident.get(root)!.forEach(item => queue.enqueue({ ...item, weight: Graph.weightOf(item.edge) }));
+
+            while (!queue.isEmpty()) {
+                const { edge, to } = queue.dequeue()!;
+                if (inTree.has(to)) continue;
+                inTree.add(to);
+                accepted.push(edge);
+                incident.get(to)!
+                    .filter(item => !inTree.has(item.to))
+                    .forEach(item => queue.enqueue({ ...item, weight: Graph.weightOf(item.edge) }));
+            }
+        }
+        return accepted;
+    }
+
+    /**
+     * @group Spanning Trees
+     * Алгоритм Краскала: рёбра перебираются по возрастанию веса (при равенстве — в порядке списка рёбер),
+     * ребро принимается, если соединяет разные деревья системы непересекающихся множеств.
+     * @returns {Edge[]} Рёбра остовного леса в порядке принятия
+     */
+    private kruskalEdges(): Edge[] {
+        const parent = this._vertices.map((_, index) => index);
+        const size = this._vertices.map(() => 1);
+        const find = (index: number): number => {
+            while (parent[index] !== index) {
+                index = parent[index] = parent[parent[index]];
+            }
+            return index;
+        };
+
+        const accepted: Edge[] = [];
+        const sorted = [...this._edges].sort((a, b) => Graph.weightOf(a) - Graph.weightOf(b));
+        for (const edge of sorted) {
+            let a = find(this._indexOf.get(edge.from)!);
+            let b = find(this._indexOf.get(edge.to)!);
+            if (a === b) continue;
+            if (size[a] < size[b]) [a, b] = [b, a];
+            parent[b] = a;
+            size[a] += size[b];
+            accepted.push(edge);
+            if (accepted.length === this._vertices.length - 1) break;
+        }
+        return accepted;
+    }
+
+    /**
+     * @group Flows
+     * Находит максимальный поток из истока в сток алгоритмом Эдмондса–Карпа за O(V · E²).
+     * Вес ребра — его пропускная способность; ребро без веса имеет единичную пропускную способность.
+     * Ребро неориентированного графа пропускает поток в любом направлении, петли не учитываются.
+     * Минимальный разрез — вершины, достижимые из истока в остаточной сети, и остальные вершины.
+     * @param {Vertex} source Исток
+     * @param {Vertex} sink Сток
+     * @returns {MaxFlowResult} Величина потока, поток по каждому ребру в порядке списка рёбер
+     * (отрицательный — против направления ребра) и минимальный разрез
+     * @throws {GraphArgumentError} Если исток совпадает со стоком или пропускная способность отрицательна
+     * @throws {GraphValidationError} Если исток или сток отсутствуют в графе
+     */
+    maxFlow(source: Vertex, sink: Vertex): MaxFlowResult {
+        this.validateEdgeVertices({ from: source, to: sink });
+        if (source === sink) {
+            throw new GraphArgumentError("Исток и сток должны быть различными вершинами");
+        }
+
+        // Остаточная сеть: дуга 2i — ребро i, дуга 2i + 1 — встречная к нему
+        const n = this._vertices.length;
+        const residual: number[] = [];
+        const target: number[] = [];
+        const incident: number[][] = this._vertices.map(() => []);
+        this._edges.forEach(edge => {
+            const capacity = Graph.weightOf(edge);
+            if (capacity < 0) {
+                throw new GraphArgumentError(`Пропускная способность ребра ${this.label(edge.from)} → ${this.label(edge.to)} не может быть отрицательной`);
+            }
+            const from = this._indexOf.get(edge.from)!;
+            const to = this._indexOf.get(edge.to)!;
+            const arc = residual.length;
+            residual.push(from === to ? 0 : capacity, from === to || this._directed ? 0 : capacity);
+            target.push(to, from);
+            incident[from].push(arc);
+            incident[to].push(arc + 1);
+        });
+        const initial = [...residual];
+
+        const s = this._indexOf.get(source)!;
+        const t = this._indexOf.get(sink)!;
+        const reachable = (via: number[]): boolean[] => {
+            const visited = new Array<boolean>(n).fill(false);
+            visited[s] = true;
+            const queue = [s];
+            for (let head = 0; head < queue.length && !visited[t]; head++) {
+                for (const arc of incident[queue[head]]) {
+                    const next = target[arc];
+                    if (!visited[next] && residual[arc] > Graph.EPSILON) {
+                        visited[next] = true;
+                        via[next] = arc;
+                        queue.push(next);
+                    }
+                }
+            }
+            return visited;
+        };
+
+        let value = 0;
+        const via = new Array<number>(n).fill(-1);
+        let visited = reachable(via);
+        while (visited[t]) {
+            // Кратчайший по числу дуг увеличивающий путь: ищем узкое место и проталкиваем поток
+            let bottleneck = Infinity;
+            for (let v = t; v !== s; v = target[via[v] ^ 1]) {
+                bottleneck = Math.min(bottleneck, residual[via[v]]);
+            }
+            for (let v = t; v !== s; v = target[via[v] ^ 1]) {
+                residual[via[v]] -= bottleneck;
+                residual[via[v] ^ 1] += bottleneck;
+            }
+            value += bottleneck;
+            visited = reachable(via);
+        }
+
+        const sourceSide = this._vertices.filter((_, index) => visited[index]);
+        const sinkSide = this._vertices.filter((_, index) => !visited[index]);
+        const cut = this._edges.filter(({ from, to }) => {
+            const fromSide = visited[this._indexOf.get(from)!];
+            const toSide = visited[this._indexOf.get(to)!];
+            return this._directed ? fromSide && !toSide : fromSide !== toSide;
+        });
+
+        return {
+            value,
+            flows: this._edges.map((_, index) => residual[2 * index + 1] - initial[2 * index + 1]),
+            sourceSide,
+            sinkSide,
+            cut
+        };
+    }
+
+    /**
+     * @group Network Planning
+     * Метод критического пути (CPM) для сетевого графика «работы на дугах».
+     * Вершины — события, рёбра — работы, вес ребра — длительность работы.
+     * Порядок событий берётся из иерархических уровней (алгоритм Кана).
+     * @returns {CriticalPathResult} Ранние и поздние сроки событий, резервы работ и критические пути
+     * @throws {GraphValidationError} Если граф пустой или содержит цикл
+     * @throws {GraphArgumentError} Если длительность работы отрицательна
+     */
+    criticalPath(): CriticalPathResult {
+        const order = this.HL.flat();
+        for (const edge of this._edges) {
+            if (Graph.weightOf(edge) < 0) {
+                throw new GraphArgumentError(`Длительность работы ${this.label(edge.from)} → ${this.label(edge.to)} не может быть отрицательной`);
+            }
+        }
+
+        const early = new Map<Vertex, number>(order.map(v => [v, 0]));
+        for (const v of order) {
+            for (const edge of this._outEdges.get(v)!) {
+                early.set(edge.to, Math.max(early.get(edge.to)!, early.get(v)! + Graph.weightOf(edge)));
+            }
+        }
+        const duration = Math.max(...early.values());
+
+        const late = new Map<Vertex, number>(order.map(v => [v, duration]));
+        for (const v of [...order].reverse()) {
+            for (const edge of this._outEdges.get(v)!) {
+                late.set(v, Math.min(late.get(v)!, late.get(edge.to)! - Graph.weightOf(edge)));
+            }
+        }
+
+        // Погрешность дробных длительностей (например, оценок PERT) не должна давать событию ненулевой резерв
+        for (const v of order) {
+            if (Math.abs(late.get(v)! - early.get(v)!) < Graph.EPSILON) late.set(v, early.get(v)!);
+        }
+
+        const events: Record<Vertex, EventTimes> = {};
+        for (const v of this._vertices) {
+            events[v] = { early: early.get(v)!, late: late.get(v)!, slack: late.get(v)! - early.get(v)! };
+        }
+
+        const activities: ActivitySchedule[] = this._edges.map(edge => {
+            const duration = Graph.weightOf(edge);
+            const earlyStart = early.get(edge.from)!;
+            const lateFinish = late.get(edge.to)!;
+            const totalSlack = lateFinish - earlyStart - duration;
+            return {
+                edge,
+                duration,
+                earlyStart,
+                earlyFinish: earlyStart + duration,
+                lateStart: lateFinish - duration,
+                lateFinish,
+                totalSlack,
+                freeSlack: early.get(edge.to)! - earlyStart - duration,
+                critical: Math.abs(totalSlack) < Graph.EPSILON
+            };
+        });
+
+        // Критические пути: цепочки критических работ от начального события до завершающего
+        const criticalOut = new Map<Vertex, Vertex[]>(order.map(v => [v, []]));
+        const hasCriticalIn = new Set<Vertex>();
+        for (const { edge, critical } of activities) {
+            if (!critical) continue;
+            if (!criticalOut.get(edge.from)!.includes(edge.to)) {
+                criticalOut.get(edge.from)!.push(edge.to);
+            }
+            hasCriticalIn.add(edge.to);
+        }
+        const criticalPaths: Vertex[][] = [];
+        const extend = (path: Vertex[]): void => {
+            const last = path[path.length - 1];
+            const next = criticalOut.get(last)!;
+            if (next.length === 0) {
+                if (Math.abs(early.get(last)! - duration) < Graph.EPSILON) criticalPaths.push(path);
+                return;
+            }
+            next.forEach(v => extend([...path, v]));
+        };
+        order
+            .filter(v => early.get(v) === 0 && !hasCriticalIn.has(v) && (criticalOut.get(v)!.length > 0 || duration === 0))
+            .forEach(v => extend([v]));
+
+        return { duration, events, activities, criticalPaths };
+    }
+
+    /**
+     * @group Network Planning
+     * Метод PERT: ожидаемые длительности работ по трёхточечным оценкам
+     * t = (a + 4m + b) / 6 и их дисперсии σ² = ((b - a) / 6)².
+     * Работы без оценки сохраняют свою длительность и нулевую дисперсию.
+     * Дисперсия срока проекта — наибольшая сумма дисперсий вдоль критического пути.
+     * @param {ReadonlyArray<ActivityEstimate | undefined>} estimates Оценки работ в порядке рёбер графа
+     * @returns {PertResult} Результат метода критического пути для ожидаемых длительностей и дисперсия срока проекта
+     * @throws {GraphArgumentError} Если оценки некорректны
+     * @throws {GraphValidationError} Если граф пустой или содержит цикл
+     */
+    pert(estimates: ReadonlyArray<ActivityEstimate | undefined>): PertResult {
+        const expectedDurations: number[] = [];
+        const variances: number[] = [];
+        this._edges.forEach((edge, index) => {
+            const estimate = estimates[index];
+            if (!estimate) {
+                expectedDurations.push(Graph.weightOf(edge));
+                variances.push(0);
+                return;
+            }
+            const { optimistic, mostLikely, pessimistic } = estimate;
+            if (!(optimistic <= mostLikely && mostLikely <= pessimistic)) {
+                throw new GraphArgumentError(
+                    `Оценки работы ${this.label(edge.from)} → ${this.label(edge.to)} должны удовлетворять условию a ≤ m ≤ b`
+                );
+            }
+            expectedDurations.push((optimistic + 4 * mostLikely + pessimistic) / 6);
+            variances.push(((pessimistic - optimistic) / 6) ** 2);
+        });
+
+        const expected = new Graph({
+            ...this.asObject,
+            edges: this._edges.map((edge, index) => ({ ...edge, weight: expectedDurations[index] }))
+        });
+        const result = expected.criticalPath();
+
+        const varianceOf = new Map<string, number>();
+        this._edges.forEach(({ from, to }, index) => {
+            if (result.activities[index].critical) {
+                const key = `${from}-${to}`;
+                varianceOf.set(key, Math.max(varianceOf.get(key) ?? 0, variances[index]));
+            }
+        });
+        const variance = Math.max(0, ...result.criticalPaths.map(path =>
+            path.slice(1).reduce((sum, v, i) => sum + varianceOf.get(`${path[i]}-${v}`)!, 0)
+        ));
+
+        return {
+            ...result,
+            expectedDurations,
+            variances,
+            variance,
+            standardDeviation: Math.sqrt(variance)
+        };
+    }
+}
+
+/**
+ * Изменяемый построитель графа.
+ * Накапливает изменения без пересборки индексов и проверяет граф один раз — при вызове build().
+ * В отличие от withEdge, повторное ребро добавляется как параллельное; при необходимости
+ * его наличие проверяется через hasEdge.
+ */
+export class GraphBuilder {
+    /**
+     * Вершины в порядке добавления.
+     */
+    private readonly _vertices: Set<Vertex>;
+
+    /**
+     * Рёбра в порядке добавления.
+     */
+    private _edges: Edge[];
+
+    /**
+     * Число рёбер между парой вершин; для неориентированного графа пара неупорядочена.
+     */
+    private readonly _edgeCount: Map<string, number>;
+
+    /**
+     * Признак ориентированного графа.
+     */
+    private readonly _directed: boolean;
+
+    /**
+     * Названия вершин.
+     */
+    private readonly _labels: Record<Vertex, string>;
+
+    /**
+     * Атрибуты вершин.
+     */
+    private readonly _attributes: Record<Vertex, VertexAttributes>;
+
+    /**
+     * @param {Partial<IGraphData>} [params] Исходные вершины, рёбра и метаданные
+     */
+    constructor({ vertices = [], edges = [], directed = true, labels = {}, attributes = {} }: Partial<IGraphData> = {}) {
+        this._vertices = new Set(vertices);
+        this._edges = [];
+        this._edgeCount = new Map();
+        this._directed = directed;
+        this._labels = { ...labels };
+        this._attributes = { ...attributes };
+        edges.forEach(edge => this.addEdge(edge));
+    }
+
+    /**
+     * Ключ пары вершин в счётчике рёбер.
+     */
+    private key(from: Vertex, to: Vertex): string {
+        return this._directed || from <= to ? `${from}-${to}` : `${to}-${from}`;
+    }
+
+    /**
+     * Проверяет, есть ли вершина в построителе.
+     * @param {Vertex} vertex Вершина
+     * @returns {boolean} true, если вершина добавлена
+     */
+    hasVertex(vertex: Vertex): boolean {
+        return this._vertices.has(vertex);
+    }
+
+    /**
+     * Проверяет, есть ли ребро между вершинами (в неориентированном графе — в любом направлении).
+     * @param {Vertex} from Начальная вершина
+     * @param {Vertex} to Конечная вершина
+     * @returns {boolean} true, если ребро добавлено
+     */
+    hasEdge(from: Vertex, to: Vertex): boolean {
+        return this._edgeCount.has(this.key(from, to));
+    }
+
+    /**
+     * Добавляет вершину; существующая вершина не дублируется.
+     * @param {Vertex} vertex Вершина
+     * @returns {GraphBuilder} Этот же построитель
+     * @throws {GraphArgumentError} Если вершина не является числом
+     */
+    addVertex(vertex: Vertex): GraphBuilder {
+        if (typeof vertex !== 'number') {
+            throw new GraphArgumentError("Вершина должна быть числом");
+        }
+        this._vertices.add(vertex);
+        return this;
+    }
+
+    /**
+     * Удаляет вершину вместе с инцидентными рёбрами и метаданными.
+     * @param {Vertex} vertex Вершина
+     * @returns {GraphBuilder} Этот же построитель
+     */
+    removeVertex(vertex: Vertex): GraphBuilder {
+        if (!this._vertices.delete(vertex)) return this;
+        this._edges = this._edges.filter(edge => {
+            if (edge.from !== vertex && edge.to !== vertex) return true;
+            this.forgetEdge(edge);
+            return false;
+        });
+        delete this._labels[vertex];
+        delete this._attributes[vertex];
+        return this;
+    }
+
+    /**
+     * Добавляет ребро. Наличие его вершин проверяется при построении графа.
+     * @param {Edge} edge Ребро
+     * @returns {GraphBuilder} Этот же построитель
+     * @throws {GraphArgumentError} Если ребро или его вершины некорректны
+     */
+    addEdge(edge: Edge): GraphBuilder {
+        if (!edge || typeof edge !== 'object') {
+            throw new GraphArgumentError("Ребро должно быть объектом");
+        }
+        if (typeof edge.from !== 'number' || typeof edge.to !== 'number') {
+            throw new GraphArgumentError("Вершины ребра должны быть числами");
+        }
+        const key = this.key(edge.from, edge.to);
+        this._edgeCount.set(key, (this._edgeCount.get(key) ?? 0) + 1);
+        this._edges.push(edge);
+        return this;
+    }
+
+    /**
+     * Удаляет все рёбра между вершинами (в неориентированном графе — в обоих направлениях).
+     * @param {Edge} edge Ребро
+     * @returns {GraphBuilder} Этот же построитель
+     */
+    removeEdge({ from, to }: Edge): GraphBuilder {
+        const key = this.key(from, to);
+        if (!this._edgeCount.delete(key)) return this;
+        this._edges = this._edges.filter(edge => this.key(edge.from, edge.to) !== key);
+        return this;
+    }
+
+    /**
+     * Уменьшает счётчик рёбер пары вершин удаляемого ребра.
+     */
+    private forgetEdge({ from, to }: Edge): void {
+        const key = this.key(from, to);
+        const count = this._edgeCount.get(key)! - 1;
+        if (count > 0) {
+            this._edgeCount.set(key, count);
+        } else {
+            this._edgeCount.delete(key);
+        }
+    }
+
+    /**
+     * Задаёт название вершины; пустое название удаляет его.
+     * @param {Vertex} vertex Вершина
+     * @param {string} [label] Название
+     * @returns {GraphBuilder} Этот же построитель
+     */
+    setLabel(vertex: Vertex, label?: string): GraphBuilder {
+        if (label) {
+            this._labels[vertex] = label;
+        } else {
+            delete this._labels[vertex];
+        }
+        return this;
+    }
+
+    /**
+     * Задаёт атрибуты вершины; пустой набор удаляет их.
+     * @param {Vertex} vertex Вершина
+     * @param {VertexAttributes} values Атрибуты
+     * @returns {GraphBuilder} Этот же построитель
+     */
+    setAttributes(vertex: Vertex, values: VertexAttributes): GraphBuilder {
+        if (Object.keys(values).length > 0) {
+            this._attributes[vertex] = values;
+        } else {
+            delete this._attributes[vertex];
+        }
+        return this;
+    }
+
+    /**
+     * Строит неизменяемый граф, проверяя его целиком. Построитель можно использовать дальше.
+     * @returns {Graph} Новый граф
+     * @throws {GraphArgumentError} Если метаданные заданы неверно
+     * @throws {GraphValidationError} Если рёбра или метаданные ссылаются на несуществующие вершины
+     */
+    build(): Graph {
+        return new Graph({
+            vertices: [...this._vertices],
+            edges: this._edges,
+            directed: this._directed,
+            labels: this._labels,
+            attributes: this._attributes
+        });
+    }
+}
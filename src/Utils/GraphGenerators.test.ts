@@ -0,0 +1,106 @@
+import { GraphArgumentError } from "./Graph";
+import {
+    completeGraph,
+    createRandom,
+    cycleGraph,
+    erdosRenyiGraph,
+    gridGraph,
+    pathGraph,
+    randomDag,
+    randomWeightedGraph,
+    starGraph
+} from "./GraphGenerators";
+
+describe("GraphGenerators", () => {
+    it("воспроизводит последовательность по зерну", () => {
+        const first = createRandom(42);
+        const second = createRandom(42);
+        const values = Array.from({ length: 5 }, () => first());
+        expect(Array.from({ length: 5 }, () => second())).toEqual(values);
+        expect(values.every(value => value >= 0 && value < 1)).toBe(true);
+        expect(createRandom(43)()).not.toBe(values[0]);
+    });
+
+    it("строит одинаковые графы для одного зерна", () => {
+        expect(erdosRenyiGraph(12, 0.3, true, 7).asObject).toEqual(erdosRenyiGraph(12, 0.3, true, 7).asObject);
+        expect(randomDag(4, 15, 0.2, 3).asObject).toEqual(randomDag(4, 15, 0.2, 3).asObject);
+        expect(randomWeightedGraph(10, 0.4, -5, 10, true, 9).asObject)
+            .toEqual(randomWeightedGraph(10, 0.4, -5, 10, true, 9).asObject);
+        expect(erdosRenyiGraph(12, 0.3, true, 7).edges).not.toEqual(erdosRenyiGraph(12, 0.3, true, 8).edges);
+    });
+
+    describe("случайный ациклический граф", () => {
+        it("имеет заданное число иерархических уровней", () => {
+            for (let seed = 1; seed <= 20; seed++) {
+                const levels = 1 + seed % 6;
+                const dag = randomDag(levels, 20, 0.15, seed);
+                expect(dag.vertices).toHaveLength(20);
+                expect(dag.HL).toHaveLength(levels);
+            }
+        });
+
+        it("проверяет параметры", () => {
+            expect(() => randomDag(5, 3)).toThrow(GraphArgumentError);
+            expect(() => randomDag(0, 3)).toThrow(GraphArgumentError);
+            expect(() => randomDag(2, 4, 1.5)).toThrow(GraphArgumentError);
+            expect(randomDag(0, 0).vertices).toHaveLength(0);
+        });
+    });
+
+    it("строит G(n, p) без петель", () => {
+        const directed = erdosRenyiGraph(10, 0.5, true, 5);
+        const undirected = erdosRenyiGraph(10, 0.5, false, 5);
+        expect(directed.edges.every(({ from, to }) => from !== to)).toBe(true);
+        expect(undirected.edges.every(({ from, to }) => from < to)).toBe(true);
+        expect(erdosRenyiGraph(6, 0).edges).toHaveLength(0);
+        expect(() => erdosRenyiGraph(-1, 0.5)).toThrow(GraphArgumentError);
+    });
+
+    it("строит стандартные графы", () => {
+        expect(completeGraph(5).edges).toHaveLength(10);
+        expect(completeGraph(5, true).edges).toHaveLength(20);
+        expect(cycleGraph(4).asAdjMatrix).toEqual([
+            [0, 1, 0, 0],
+            [0, 0, 1, 0],
+            [0, 0, 0, 1],
+            [1, 0, 0, 0]
+        ]);
+        expect(() => cycleGraph(2)).toThrow(GraphArgumentError);
+        expect(pathGraph(4).HL).toEqual([[0], [1], [2], [3]]);
+        expect(pathGraph(1).edges).toHaveLength(0);
+        expect(starGraph(5).degreeCentrality()[0]).toBe(1);
+        expect(gridGraph(2, 3).edges).toEqual([
+            { from: 0, to: 1 }, { from: 0, to: 3 },
+            { from: 1, to: 2 }, { from: 1, to: 4 },
+            { from: 2, to: 5 },
+            { from: 3, to: 4 },
+            { from: 4, to: 5 }
+        ]);
+    });
+
+    describe("взвешенный граф", () => {
+        it("выбирает веса из заданного диапазона", () => {
+            const graph = randomWeightedGraph(12, 0.5, 3, 8, false, 2);
+            expect(graph.directed).toBe(false);
+            expect(graph.edges.length).toBeGreaterThan(0);
+            expect(graph.edges.every(({ weight }) => weight! >= 3 && weight! <= 8)).toBe(true);
+        });
+
+        it("не создаёт циклов отрицательного веса", () => {
+            for (let seed = 1; seed <= 20; seed++) {
+                const graph = randomWeightedGraph(10, 0.5, -10, 10, true, seed);
+                expect(graph.edges.every(({ weight }) => weight! >= -10 && weight! <= 10)).toBe(true);
+                expect(() => graph.johnson()).not.toThrow();
+            }
+            const weights = Array.from({ length: 5 }, (_, seed) => randomWeightedGraph(10, 0.5, -10, 10, true, seed))
+                .flatMap(graph => graph.edges.map(({ weight }) => weight!));
+            expect(weights.some(weight => weight < 0)).toBe(true);
+        });
+
+        it("проверяет диапазон весов", () => {
+            expect(() => randomWeightedGraph(5, 0.5, 4, 2)).toThrow(GraphArgumentError);
+            expect(() => randomWeightedGraph(5, 0.5, -1, 2, false)).toThrow(GraphArgumentError);
+            expect(() => randomWeightedGraph(5, 0.5, -3, -1)).toThrow(GraphArgumentError);
+        });
+    });
+});
@@ -0,0 +1,239 @@
+import { Graph, GraphArgumentError } from "./Graph";
+import type { Edge, Vertex } from "../Types/GraphData.types";
+
+/**
+ * Создаёт генератор псевдослучайных чисел mulberry32.
+ * Одно и то же зерно всегда даёт одну и ту же последовательность.
+ * @param {number} seed Зерно генератора
+ * @returns {() => number} Функция, возвращающая числа из [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+    let state = seed | 0;
+    return () => {
+        state = (state + 0x6D2B79F5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Случайное целое число из отрезка [min, max].
+ */
+function randomInt(random: () => number, min: number, max: number): number {
+    return min + Math.floor(random() * (max - min + 1));
+}
+
+/**
+ * Проверяет, что число вершин — неотрицательное целое.
+ */
+function validateSize(size: number, minimum: number = 0): void {
+    if (!Number.isInteger(size) || size < minimum) {
+        throw new GraphArgumentError(`Число вершин должно быть целым числом не меньше ${minimum}, получено ${size}`);
+    }
+}
+
+/**
+ * Проверяет, что вероятность лежит в отрезке [0, 1].
+ */
+function validateProbability(probability: number): void {
+    if (!(probability >= 0 && probability <= 1)) {
+        throw new GraphArgumentError(`Вероятность должна лежать в отрезке [0, 1], получено ${probability}`);
+    }
+}
+
+/**
+ * Вершины 0, 1, …, size - 1.
+ */
+function range(size: number): Vertex[] {
+    return Array.from({ length: size }, (_, index) => index);
+}
+
+/**
+ * Создаёт случайный ациклический орграф с заданным числом иерархических уровней.
+ * Вершины нумеруются по уровням; каждая вершина уровня k > 0 получает дугу
+ * хотя бы из одной вершины уровня k - 1, поэтому Graph.HL возвращает ровно levels уровней.
+ * Прочие дуги ведут с младших уровней на старшие с вероятностью density.
+ * @param {number} levels Число уровней
+ * @param {number} size Число вершин (не меньше числа уровней)
+ * @param {number} [density=0.3] Вероятность дополнительной дуги
+ * @param {number} [seed=1] Зерно генератора
+ * @returns {Graph} Ориентированный ациклический граф
+ * @throws {GraphArgumentError} Если параметры некорректны
+ */
+export function randomDag(levels: number, size: number, density: number = 0.3, seed: number = 1): Graph {
+    validateSize(size);
+    validateProbability(density);
+    if (!Number.isInteger(levels) || levels < (size > 0 ? 1 : 0) || levels > size) {
+        throw new GraphArgumentError(`Число уровней должно быть целым числом от 1 до ${size}, получено ${levels}`);
+    }
+    const random = createRandom(seed);
+
+    // Каждый уровень получает хотя бы одну вершину, остальные распределяются случайно
+    const levelOf = [
+        ...range(levels),
+        ...Array.from({ length: size - levels }, () => randomInt(random, 0, levels - 1))
+    ].sort((a, b) => a - b);
+    const byLevel: Vertex[][] = range(levels).map(() => []);
+    levelOf.forEach((level, vertex) => byLevel[level].push(vertex));
+
+    const edges: Edge[] = [];
+    const parentOf = new Map<Vertex, Vertex>();
+    for (let level = 1; level < levels; level++) {
+        for (const vertex of byLevel[level]) {
+            const previous = byLevel[level - 1];
+            const parent = previous[randomInt(random, 0, previous.length - 1)];
+            parentOf.set(vertex, parent);
+            edges.push({ from: parent, to: vertex });
+        }
+    }
+    for (let from = 0; from < size; from++) {
+        for (let to = 0; to < size; to++) {
+            if (levelOf[from] < levelOf[to] && parentOf.get(to) !== from && random() < density) {
+                edges.push({ from, to });
+            }
+        }
+    }
+    return new Graph({ vertices: range(size), edges, directed: true });
+}
+
+/**
+ * Создаёт случайный граф Эрдёша — Реньи G(n, p): каждая пара различных вершин
+ * соединяется независимо с вероятностью probability.
+ * @param {number} size Число вершин
+ * @param {number} probability Вероятность ребра
+ * @param {boolean} [directed=true] Ориентированный ли граф
+ * @param {number} [seed=1] Зерно генератора
+ * @returns {Graph} Случайный граф
+ * @throws {GraphArgumentError} Если параметры некорректны
+ */
+export function erdosRenyiGraph(size: number, probability: number, directed: boolean = true, seed: number = 1): Graph {
+    validateSize(size);
+    validateProbability(probability);
+    const random = createRandom(seed);
+    const edges: Edge[] = [];
+    for (let from = 0; from < size; from++) {
+        for (let to = directed ? 0 : from + 1; to < size; to++) {
+            if (from !== to && random() < probability) edges.push({ from, to });
+        }
+    }
+    return new Graph({ vertices: range(size), edges, directed });
+}
+
+/**
+ * Создаёт полный граф: все различные вершины попарно смежны.
+ * @param {number} size Число вершин
+ * @param {boolean} [directed=false] Ориентированный ли граф
+ * @returns {Graph} Полный граф
+ * @throws {GraphArgumentError} Если число вершин некорректно
+ */
+export function completeGraph(size: number, directed: boolean = false): Graph {
+    return erdosRenyiGraph(size, 1, directed);
+}
+
+/**
+ * Создаёт простой цикл 0 → 1 → … → size - 1 → 0.
+ * @param {number} size Число вершин (не меньше трёх)
+ * @param {boolean} [directed=true] Ориентированный ли граф
+ * @returns {Graph} Цикл
+ * @throws {GraphArgumentError} Если число вершин некорректно
+ */
+export function cycleGraph(size: number, directed: boolean = true): Graph {
+    validateSize(size, 3);
+    const edges = range(size).map(from => ({ from, to: (from + 1) % size }));
+    return new Graph({ vertices: range(size), edges, directed });
+}
+
+/**
+ * Создаёт простую цепь 0 → 1 → … → size - 1.
+ * @param {number} size Число вершин
+ * @param {boolean} [directed=true] Ориентированный ли граф
+ * @returns {Graph} Цепь
+ * @throws {GraphArgumentError} Если число вершин некорректно
+ */
+export function pathGraph(size: number, directed: boolean = true): Graph {
+    validateSize(size);
+    const edges = range(Math.max(size - 1, 0)).map(from => ({ from, to: from + 1 }));
+    return new Graph({ vertices: range(size), edges, directed });
+}
+
+/**
+ * Создаёт звезду: вершина 0 соединена со всеми остальными (в ориентированном графе — дугами из центра).
+ * @param {number} size Число вершин вместе с центром
+ * @param {boolean} [directed=false] Ориентированный ли граф
+ * @returns {Graph} Звезда
+ * @throws {GraphArgumentError} Если число вершин некорректно
+ */
+export function starGraph(size: number, directed: boolean = false): Graph {
+    validateSize(size, 1);
+    const edges = range(size).slice(1).map(to => ({ from: 0, to }));
+    return new Graph({ vertices: range(size), edges, directed });
+}
+
+/**
+ * Создаёт прямоугольную решётку rows × columns. Вершина (r, c) имеет номер r * columns + c
+ * и соединена с правой и нижней соседками (в ориентированном графе — дугами вправо и вниз).
+ * @param {number} rows Число строк
+ * @param {number} columns Число столбцов
+ * @param {boolean} [directed=false] Ориентированный ли граф
+ * @returns {Graph} Решётка
+ * @throws {GraphArgumentError} Если размеры некорректны
+ */
+export function gridGraph(rows: number, columns: number, directed: boolean = false): Graph {
+    if (!Number.isInteger(rows) || rows < 1 || !Number.isInteger(columns) || columns < 1) {
+        throw new GraphArgumentError(`Размеры решётки должны быть натуральными числами, получено ${rows} × ${columns}`);
+    }
+    const edges: Edge[] = [];
+    for (let row = 0; row < rows; row++) {
+        for (let column = 0; column < columns; column++) {
+            const vertex = row * columns + column;
+            if (column + 1 < columns) edges.push({ from: vertex, to: vertex + 1 });
+            if (row + 1 < rows) edges.push({ from: vertex, to: vertex + columns });
+        }
+    }
+    return new Graph({ vertices: range(rows * columns), edges, directed });
+}
+
+/**
+ * Создаёт случайный взвешенный граф G(n, p) с целыми весами из отрезка [minWeight, maxWeight].
+ * Отрицательные веса допускаются только в ориентированном графе и не образуют циклов
+ * отрицательного веса: вес дуги u → v равен w' + h(u) - h(v), где w' ≥ 0, а h — случайные потенциалы,
+ * поэтому вес любого цикла равен сумме неотрицательных w'.
+ * @param {number} size Число вершин
+ * @param {number} probability Вероятность ребра
+ * @param {number} minWeight Наименьший вес
+ * @param {number} maxWeight Наибольший вес
+ * @param {boolean} [directed=true] Ориентированный ли граф
+ * @param {number} [seed=1] Зерно генератора
+ * @returns {Graph} Взвешенный граф без циклов отрицательного веса
+ * @throws {GraphArgumentError} Если параметры некорректны
+ */
+export function randomWeightedGraph(
+    size: number,
+    probability: number,
+    minWeight: number,
+    maxWeight: number,
+    directed: boolean = true,
+    seed: number = 1
+): Graph {
+    if (!Number.isInteger(minWeight) || !Number.isInteger(maxWeight) || minWeight > maxWeight) {
+        throw new GraphArgumentError(`Некорректный диапазон весов [${minWeight}, ${maxWeight}]`);
+    }
+    if (minWeight < 0 && !directed) {
+        throw new GraphArgumentError("Ребро отрицательного веса в неориентированном графе образует цикл отрицательного веса");
+    }
+    if (minWeight < 0 && maxWeight < 0) {
+        throw new GraphArgumentError("При отрицательных весах наибольший вес должен быть неотрицательным");
+    }
+    const skeleton = erdosRenyiGraph(size, probability, directed, seed);
+    const random = createRandom(seed ^ 0x5bd1e995);
+
+    // При неотрицательном диапазоне потенциалы нулевые и веса распределены равномерно
+    const bound = minWeight < 0 ? Math.min(-minWeight, maxWeight) : 0;
+    const potential = range(size).map(() => randomInt(random, 0, bound));
+    const edges = skeleton.edges.map(({ from, to }) => {
+        const shift = potential[from] - potential[to];
+        return { from, to, weight: randomInt(random, Math.max(minWeight, shift), maxWeight) };
+    });
+    return new Graph({ vertices: range(size), edges, directed });
+}
@@ -0,0 +1,152 @@
+import { Graph, GraphArgumentError, GraphDocumentError } from "./Graph";
+import { randomWeightedGraph } from "./GraphGenerators";
+import {
+    graphDocumentVersion,
+    legacyGraphFormat,
+    migrateGraphDocument,
+    parseGraphDocument,
+    parseSavedGraph,
+    stringifyGraphDocument,
+    toGraphDocument,
+    validateGraphDocument
+} from "./SavedGraph";
+
+describe("SavedGraph", () => {
+    const graph = new Graph({
+        vertices: [0, 1, 2],
+        edges: [{ from: 0, to: 1, weight: 2.5 }, { from: 1, to: 2 }],
+        labels: { 0: 'Склад' },
+        attributes: { 2: { layer: 1, critical: true } }
+    });
+
+    /**
+     * Возвращает нарушения, о которых сообщает ошибка документа.
+     */
+    function issuesOf(action: () => unknown) {
+        try {
+            action();
+        } catch (e) {
+            if (e instanceof GraphDocumentError) return e.issues;
+            throw e;
+        }
+        throw new Error("Ожидалась ошибка документа");
+    }
+
+    describe("документ графа", () => {
+        it("записывает вершины с названиями, рёбра и метаданные", () => {
+            expect(toGraphDocument(graph, { name: 'Склады' })).toEqual({
+                version: graphDocumentVersion,
+                directed: true,
+                vertices: [{ id: 0, label: 'Склад' }, { id: 1 }, { id: 2, attributes: { layer: 1, critical: true } }],
+                edges: [{ from: 0, to: 1, weight: 2.5 }, { from: 1, to: 2 }],
+                metadata: { name: 'Склады' }
+            });
+        });
+
+        it("сохраняет граф при записи и чтении", () => {
+            for (const source of [graph, randomWeightedGraph(15, 0.3, 1, 9, false, 3), new Graph()]) {
+                const content = stringifyGraphDocument(source, { createdAt: '2024-05-01T10:00:00.000Z' });
+                expect(validateGraphDocument(JSON.parse(content))).toEqual([]);
+                expect(parseSavedGraph(content).asObject).toEqual(source.asObject);
+                expect(parseSavedGraph(content).directed).toBe(source.directed);
+            }
+        });
+
+        it("сообщает обо всех нарушениях с путями JSON", () => {
+            expect(validateGraphDocument({
+                version: 1,
+                directed: 'да',
+                vertices: [{ id: 0, label: 5 }, { id: 0 }, 'V3', { id: -1, attributes: { color: 'red', size: [1] } }],
+                edges: [{ from: 0, to: 7 }, { from: 'a', to: 0, weight: '3' }, null],
+                metadata: { name: 1, createdAt: 'вчера', 'custom key': [] }
+            })).toEqual([
+                { path: '$.directed', message: 'Поле должно быть логическим значением, получено "да"' },
+                { path: '$.vertices[0].label', message: 'Название вершины должно быть строкой, получено 5' },
+                { path: '$.vertices[1].id', message: 'Вершина 0 уже объявлена в $.vertices[0]' },
+                { path: '$.vertices[2]', message: 'Вершина должна быть объектом с полем id, получено "V3"' },
+                { path: '$.vertices[3].id', message: 'Номер вершины должен быть целым неотрицательным числом, получено -1' },
+                { path: '$.vertices[3].attributes.size', message: 'Значение атрибута должно быть строкой, числом или логическим значением, получено [1]' },
+                { path: '$.edges[0].to', message: 'Вершина 7 не объявлена' },
+                { path: '$.edges[1].from', message: 'Конец ребра должен быть номером вершины, получено "a"' },
+                { path: '$.edges[1].weight', message: 'Вес ребра должен быть числом, получено "3"' },
+                { path: '$.edges[2]', message: 'Ребро должно быть объектом с полями from и to, получено null' },
+                { path: '$.metadata.name', message: 'Поле должно быть строкой, получено 1' },
+                { path: '$.metadata.createdAt', message: 'Дата создания должна быть в формате ISO 8601, получено "вчера"' }
+            ]);
+            expect(validateGraphDocument({ version: 1 }).map(({ path }) => path)).toEqual(['$.directed', '$.vertices', '$.edges']);
+            expect(validateGraphDocument([])).toEqual([{ path: '$', message: 'Документ графа должен быть объектом, получено []' }]);
+        });
+
+        it("отклоняет документ более новой версии", () => {
+            const content = JSON.stringify({ version: graphDocumentVersion + 1, directed: true, vertices: [], edges: [] });
+            expect(issuesOf(() => parseSavedGraph(content))).toEqual([{
+                path: '$.version',
+                message: `Версия ${graphDocumentVersion + 1} новее поддерживаемой (${graphDocumentVersion}), обновите приложение`
+            }]);
+            expect(issuesOf(() => parseSavedGraph('{"version": "1", "directed": true, "vertices": [], "edges": []}'))[0].path)
+                .toBe('$.version');
+        });
+
+        it("перечисляет нарушения в сообщении ошибки", () => {
+            expect(() => parseSavedGraph('{"version": 1, "directed": true, "vertices": [], "edges": [{"from": 0, "to": 1}]}'))
+                .toThrow('Файл графа содержит ошибки (2):\n$.edges[0].from: Вершина 0 не объявлена\n$.edges[0].to: Вершина 1 не объявлена');
+            expect(() => parseSavedGraph('{"version": 1')).toThrow(GraphArgumentError);
+        });
+    });
+
+    describe("файлы прежних форматов", () => {
+        it("читает матрицу расстояний DistanceMatrixInput", () => {
+            const content = JSON.stringify([[null, 4, null], [null, null, -1], [2, null, null]]);
+            const document = parseGraphDocument(content);
+            expect(document.version).toBe(graphDocumentVersion);
+            expect(document.edges).toEqual([{ from: 0, to: 1, weight: 4 }, { from: 1, to: 2, weight: -1 }, { from: 2, to: 0, weight: 2 }]);
+            expect(parseSavedGraph(JSON.stringify([[0, 3], [3, 0]]), { directed: false }).edges).toEqual([{ from: 0, to: 1, weight: 3 }]);
+        });
+
+        it("читает список инцидентов IncListInput с учётом стороны", () => {
+            const content = JSON.stringify({ 0: [], 1: [0], 2: [0, 1] });
+            expect(parseSavedGraph(content).edges).toEqual([{ from: 0, to: 1 }, { from: 0, to: 2 }, { from: 1, to: 2 }]);
+            expect(parseSavedGraph(content, { incListSide: 'right' }).edges).toEqual([{ from: 1, to: 0 }, { from: 2, to: 0 }, { from: 2, to: 1 }]);
+            expect(parseSavedGraph('{}').vertices).toEqual([]);
+        });
+
+        it("читает граф в формате Graph.asJSON", () => {
+            expect(parseSavedGraph(graph.asJSON).asObject).toEqual(graph.asObject);
+            const undirected = new Graph({ ...graph.asObject, directed: false });
+            expect(migrateGraphDocument(JSON.parse(undirected.asJSON))).toEqual(toGraphDocument(undirected));
+        });
+
+        it("определяет прежний формат файла", () => {
+            expect(legacyGraphFormat('[[null, 1], [null, null]]')).toBe('matrix');
+            expect(legacyGraphFormat('{"0": [], "1": [0]}')).toBe('incList');
+            expect(legacyGraphFormat(graph.asJSON)).toBe('graph');
+            expect(legacyGraphFormat(stringifyGraphDocument(graph))).toBeNull();
+            expect(legacyGraphFormat('{"name": "граф"}')).toBeNull();
+            expect(legacyGraphFormat('{"version": 1')).toBeNull();
+        });
+
+        it("сообщает о нарушениях с путями в исходном файле", () => {
+            expect(issuesOf(() => parseSavedGraph(JSON.stringify([[0, 1, 2], [1, 'x', 0], [2]])))).toEqual([
+                { path: '$[1][1]', message: 'Ячейка должна быть числом или null, получено "x"' },
+                { path: '$[2]', message: 'Строка матрицы должна быть массивом из 3 ячеек, получено [2]' }
+            ]);
+            expect(issuesOf(() => parseSavedGraph(JSON.stringify({ 0: [1, 5], 1: 'нет' })))).toEqual([
+                { path: '$["0"][1]', message: 'Вершина 5 не объявлена' },
+                { path: '$["1"]', message: 'Инциденты вершины должны быть массивом, получено "нет"' }
+            ]);
+            expect(issuesOf(() => parseSavedGraph(JSON.stringify({
+                vertices: [0, 1, 1],
+                edges: [{ from: 0, to: 2 }],
+                labels: { 0: 'A', 3: 'D' },
+                attributes: { 1: { tags: null } }
+            })))).toEqual([
+                { path: '$.vertices[2]', message: 'Вершина 1 объявлена повторно' },
+                { path: '$.edges[0].to', message: 'Вершина 2 не объявлена' },
+                { path: '$.labels["3"]', message: 'Вершина 3 не объявлена' },
+                { path: '$.attributes["1"].tags', message: 'Значение атрибута должно быть строкой, числом или логическим значением, получено null' }
+            ]);
+            expect(issuesOf(() => parseSavedGraph('{"name": "граф"}'))[0].path).toBe('$');
+            expect(issuesOf(() => parseSavedGraph('42'))[0].path).toBe('$');
+        });
+    });
+});
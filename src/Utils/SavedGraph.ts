@@ -0,0 +1,474 @@
+import { Graph, GraphArgumentError, GraphDocumentError } from "./Graph";
+import type {
+    Edge,
+    GraphDocument,
+    GraphDocumentIssue,
+    GraphDocumentMetadata,
+    LegacyGraphFormat,
+    LegacyGraphOptions,
+    MatrixTableKind,
+    Vertex,
+    VertexAttributes
+} from "../Types/GraphData.types";
+
+/**
+ * Текущая версия формата документа графа.
+ */
+export const graphDocumentVersion = 1;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isVertexId = (value: unknown): value is Vertex =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+/**
+ * Путь JSON к элементу массива или полю объекта: $.edges[0].from, $.labels["3"].
+ */
+function pathOf(path: string, key: string | number): string {
+    if (typeof key === 'number') return `${path}[${key}]`;
+    return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Краткое представление значения для сообщения об ошибке.
+ */
+function show(value: unknown): string {
+    return value === undefined ? 'ничего' : JSON.stringify(value);
+}
+
+/**
+ * Проверяет атрибуты вершины: объект со строковыми, числовыми или логическими значениями.
+ */
+function checkAttributes(value: unknown, path: string, issues: GraphDocumentIssue[]): void {
+    if (!isObject(value)) {
+        issues.push({ path, message: `Атрибуты вершины должны быть объектом, получено ${show(value)}` });
+        return;
+    }
+    for (const [key, item] of Object.entries(value)) {
+        if (!['string', 'number', 'boolean'].includes(typeof item)) {
+            issues.push({ path: pathOf(path, key), message: `Значение атрибута должно быть строкой, числом или логическим значением, получено ${show(item)}` });
+        }
+    }
+}
+
+/**
+ * Проверяет рёбра: объекты с номерами объявленных вершин from и to и необязательным числовым весом.
+ * @param declared Объявленные вершины или null, если вершины сами заданы неверно
+ */
+function checkEdges(value: unknown, path: string, declared: Set<Vertex> | null, issues: GraphDocumentIssue[]): void {
+    if (!Array.isArray(value)) {
+        issues.push({ path, message: `Рёбра должны быть массивом, получено ${show(value)}` });
+        return;
+    }
+    value.forEach((edge: unknown, index) => {
+        const edgePath = pathOf(path, index);
+        if (!isObject(edge)) {
+            issues.push({ path: edgePath, message: `Ребро должно быть объектом с полями from и to, получено ${show(edge)}` });
+            return;
+        }
+        for (const end of ['from', 'to']) {
+            const vertex = edge[end];
+            if (!isVertexId(vertex)) {
+                issues.push({ path: pathOf(edgePath, end), message: `Конец ребра должен быть номером вершины, получено ${show(vertex)}` });
+            } else if (declared && !declared.has(vertex)) {
+                issues.push({ path: pathOf(edgePath, end), message: `Вершина ${vertex} не объявлена` });
+            }
+        }
+        if (edge.weight !== undefined && !(typeof edge.weight === 'number' && Number.isFinite(edge.weight))) {
+            issues.push({ path: pathOf(edgePath, 'weight'), message: `Вес ребра должен быть числом, получено ${show(edge.weight)}` });
+        }
+    });
+}
+
+/**
+ * Проверяет метаданные документа. Неизвестные поля допускаются, чтобы файлы новых версий приложения
+ * с дополнительными метаданными оставались читаемыми.
+ */
+function checkMetadata(value: unknown, path: string, issues: GraphDocumentIssue[]): void {
+    if (!isObject(value)) {
+        issues.push({ path, message: `Метаданные должны быть объектом, получено ${show(value)}` });
+        return;
+    }
+    for (const key of ['name', 'description', 'createdAt', 'source']) {
+        if (value[key] !== undefined && typeof value[key] !== 'string') {
+            issues.push({ path: pathOf(path, key), message: `Поле должно быть строкой, получено ${show(value[key])}` });
+        }
+    }
+    if (typeof value.createdAt === 'string' && Number.isNaN(Date.parse(value.createdAt))) {
+        issues.push({ path: pathOf(path, 'createdAt'), message: `Дата создания должна быть в формате ISO 8601, получено ${show(value.createdAt)}` });
+    }
+}
+
+/**
+ * Проверяет документ графа и перечисляет все нарушения формата с путями JSON.
+ * @param {unknown} data Разобранный JSON
+ * @returns {GraphDocumentIssue[]} Нарушения; пустой массив, если документ корректен
+ */
+export function validateGraphDocument(data: unknown): GraphDocumentIssue[] {
+    if (!isObject(data)) {
+        return [{ path: '$', message: `Документ графа должен быть объектом, получено ${show(data)}` }];
+    }
+    const issues: GraphDocumentIssue[] = [];
+    if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+        issues.push({ path: '$.version', message: `Версия должна быть целым положительным числом, получено ${show(data.version)}` });
+    } else if (data.version > graphDocumentVersion) {
+        issues.push({ path: '$.version', message: `Версия ${data.version} новее поддерживаемой (${graphDocumentVersion}), обновите приложение` });
+    }
+    if (typeof data.directed !== 'boolean') {
+        issues.push({ path: '$.directed', message: `Поле должно быть логическим значением, получено ${show(data.directed)}` });
+    }
+
+    const declared = new Map<Vertex, string>();
+    if (!Array.isArray(data.vertices)) {
+        issues.push({ path: '$.vertices', message: `Вершины должны быть массивом, получено ${show(data.vertices)}` });
+    } else {
+        data.vertices.forEach((vertex: unknown, index) => {
+            const vertexPath = pathOf('$.vertices', index);
+            if (!isObject(vertex)) {
+                issues.push({ path: vertexPath, message: `Вершина должна быть объектом с полем id, получено ${show(vertex)}` });
+                return;
+            }
+            if (!isVertexId(vertex.id)) {
+                issues.push({ path: pathOf(vertexPath, 'id'), message: `Номер вершины должен быть целым неотрицательным числом, получено ${show(vertex.id)}` });
+            } else if (declared.has(vertex.id)) {
+                issues.push({ path: pathOf(vertexPath, 'id'), message: `Вершина ${vertex.id} уже объявлена в ${declared.get(vertex.id)}` });
+            } else {
+                declared.set(vertex.id, vertexPath);
+            }
+            if (vertex.label !== undefined && typeof vertex.label !== 'string') {
+                issues.push({ path: pathOf(vertexPath, 'label'), message: `Название вершины должно быть строкой, получено ${show(vertex.label)}` });
+            }
+            if (vertex.attributes !== undefined) {
+                checkAttributes(vertex.attributes, pathOf(vertexPath, 'attributes'), issues);
+            }
+        });
+    }
+    checkEdges(data.edges, '$.edges', Array.isArray(data.vertices) ? new Set(declared.keys()) : null, issues);
+    if (data.metadata !== undefined) {
+        checkMetadata(data.metadata, '$.metadata', issues);
+    }
+    return issues;
+}
+
+/**
+ * Проверяет матрицу расстояний, которую раньше сохранял DistanceMatrixInput.
+ */
+function checkLegacyMatrix(data: unknown[]): GraphDocumentIssue[] {
+    const issues: GraphDocumentIssue[] = [];
+    data.forEach((row, i) => {
+        if (!Array.isArray(row) || row.length !== data.length) {
+            issues.push({ path: pathOf('$', i), message: `Строка матрицы должна быть массивом из ${data.length} ячеек, получено ${show(row)}` });
+            return;
+        }
+        row.forEach((cell: unknown, j) => {
+            if (cell !== null && !(typeof cell === 'number' && Number.isFinite(cell))) {
+                issues.push({ path: pathOf(pathOf('$', i), j), message: `Ячейка должна быть числом или null, получено ${show(cell)}` });
+            }
+        });
+    });
+    return issues;
+}
+
+/**
+ * Проверяет список инцидентов, который раньше сохранял IncListInput.
+ */
+function checkLegacyIncList(data: Record<string, unknown>): GraphDocumentIssue[] {
+    const issues: GraphDocumentIssue[] = [];
+    const declared = new Set(Object.keys(data).map(Number));
+    for (const [key, list] of Object.entries(data)) {
+        if (!Array.isArray(list)) {
+            issues.push({ path: pathOf('$', key), message: `Инциденты вершины должны быть массивом, получено ${show(list)}` });
+            continue;
+        }
+        list.forEach((vertex: unknown, index) => {
+            if (!isVertexId(vertex)) {
+                issues.push({ path: pathOf(pathOf('$', key), index), message: `Инцидент должен быть номером вершины, получено ${show(vertex)}` });
+            } else if (!declared.has(vertex)) {
+                issues.push({ path: pathOf(pathOf('$', key), index), message: `Вершина ${vertex} не объявлена` });
+            }
+        });
+    }
+    return issues;
+}
+
+/**
+ * Проверяет граф в формате Graph.asJSON: массив номеров вершин, рёбра, названия и атрибуты по номерам вершин.
+ */
+function checkLegacyGraph(data: Record<string, unknown>): GraphDocumentIssue[] {
+    const issues: GraphDocumentIssue[] = [];
+    const declared = new Set<Vertex>();
+    if (!Array.isArray(data.vertices)) {
+        issues.push({ path: '$.vertices', message: `Вершины должны быть массивом, получено ${show(data.vertices)}` });
+    } else {
+        data.vertices.forEach((vertex: unknown, index) => {
+            if (!isVertexId(vertex)) {
+                issues.push({ path: pathOf('$.vertices', index), message: `Номер вершины должен быть целым неотрицательным числом, получено ${show(vertex)}` });
+            } else if (declared.has(vertex)) {
+                issues.push({ path: pathOf('$.vertices', index), message: `Вершина ${vertex} объявлена повторно` });
+            } else {
+                declared.add(vertex);
+            }
+        });
+    }
+    checkEdges(data.edges, '$.edges', Array.isArray(data.vertices) ? declared : null, issues);
+    if (data.directed !== undefined && typeof data.directed !== 'boolean') {
+        issues.push({ path: '$.directed', message: `Поле должно быть логическим значением, получено ${show(data.directed)}` });
+    }
+    for (const field of ['labels', 'attributes']) {
+        const meta = data[field];
+        if (meta === undefined) continue;
+        if (!isObject(meta)) {
+            issues.push({ path: pathOf('$', field), message: `Поле должно быть объектом, получено ${show(meta)}` });
+            continue;
+        }
+        for (const [key, value] of Object.entries(meta)) {
+            const path = pathOf(pathOf('$', field), key);
+            if (!declared.has(Number(key))) {
+                issues.push({ path, message: `Вершина ${key} не объявлена` });
+            } else if (field === 'labels' && typeof value !== 'string') {
+                issues.push({ path, message: `Название вершины должно быть строкой, получено ${show(value)}` });
+            } else if (field === 'attributes') {
+                checkAttributes(value, path, issues);
+            }
+        }
+    }
+    return issues;
+}
+
+/**
+ * Создаёт ошибку документа со списком всех нарушений.
+ */
+function documentError(issues: GraphDocumentIssue[]): GraphDocumentError {
+    return new GraphDocumentError(
+        `Файл графа содержит ошибки (${issues.length}):\n` + issues.map(({ path, message }) => `${path}: ${message}`).join('\n'),
+        issues
+    );
+}
+
+/**
+ * Записывает граф документом текущей версии.
+ * @param {Graph} graph Граф
+ * @param {GraphDocumentMetadata} [metadata] Метаданные документа
+ * @returns {GraphDocument} Документ графа
+ */
+export function toGraphDocument(graph: Graph, metadata?: GraphDocumentMetadata): GraphDocument {
+    return {
+        version: graphDocumentVersion,
+        directed: graph.directed,
+        vertices: graph.vertices.map(id => ({
+            id,
+            ...(graph.labels[id] !== undefined ? { label: graph.labels[id] } : {}),
+            ...(graph.attributes[id] !== undefined ? { attributes: { ...graph.attributes[id] } } : {})
+        })),
+        edges: graph.edges.map(edge => ({ ...edge })),
+        ...(metadata ? { metadata } : {})
+    };
+}
+
+/**
+ * Строит граф по проверенному документу.
+ * @param {GraphDocument} document Документ графа
+ * @returns {Graph} Граф
+ */
+export function graphFromDocument(document: GraphDocument): Graph {
+    const labels: Record<Vertex, string> = {};
+    const attributes: Record<Vertex, VertexAttributes> = {};
+    for (const { id, label, attributes: values } of document.vertices) {
+        if (label !== undefined) labels[id] = label;
+        if (values !== undefined && Object.keys(values).length > 0) attributes[id] = values;
+    }
+    return new Graph({
+        vertices: document.vertices.map(({ id }) => id),
+        edges: document.edges.map(({ from, to, weight }): Edge => weight !== undefined ? { from, to, weight } : { from, to }),
+        directed: document.directed,
+        labels,
+        attributes
+    });
+}
+
+/**
+ * Прежний формат разобранного JSON или null, если это документ с полем version или формат не распознан.
+ */
+function legacyFormatOf(data: unknown): LegacyGraphFormat | null {
+    if (Array.isArray(data)) return 'matrix';
+    if (!isObject(data) || 'version' in data) return null;
+    if ('vertices' in data && 'edges' in data) return 'graph';
+    return Object.keys(data).every(key => /^\d+$/.test(key)) ? 'incList' : null;
+}
+
+/**
+ * Определяет прежний формат файла графа, чтобы спросить у пользователя недостающие
+ * сторону инцидентов и ориентированность (см. {@link migrateGraphDocument}).
+ * @param {string} content Содержимое файла
+ * @returns {LegacyGraphFormat | null} Прежний формат или null для документа текущей версии, не-JSON и нераспознанного формата
+ */
+export function legacyGraphFormat(content: string): LegacyGraphFormat | null {
+    try {
+        return legacyFormatOf(JSON.parse(content));
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Приводит разобранный JSON к документу текущей версии. Кроме документа с полем version,
+ * распознаются прежние форматы файлов:
+ * - массив массивов — матрица расстояний из DistanceMatrixInput;
+ * - объект с полями vertices и edges — граф в формате Graph.asJSON;
+ * - объект с номерами вершин в качестве ключей — список инцидентов из IncListInput.
+ * Прежние матрица и список инцидентов не хранят ориентированность и сторону инцидентов,
+ * поэтому они берутся из параметров.
+ * @param {unknown} data Разобранный JSON
+ * @param {LegacyGraphOptions} [options] Сторона инцидентов и ориентированность для прежних форматов
+ * @returns {GraphDocument} Документ графа
+ * @throws {GraphDocumentError} Если формат не распознан или документ содержит ошибки
+ */
+export function migrateGraphDocument(data: unknown, { incListSide = 'left', directed = true }: LegacyGraphOptions = {}): GraphDocument {
+    if (isObject(data) && 'version' in data) {
+        const issues = validateGraphDocument(data);
+        if (issues.length > 0) throw documentError(issues);
+        return data as GraphDocument;
+    }
+
+    let issues: GraphDocumentIssue[];
+    let build: () => Graph;
+    switch (legacyFormatOf(data)) {
+        case 'matrix':
+            issues = checkLegacyMatrix(data as unknown[]);
+            build = () => Graph.fromDisMatrix(data as (number | null)[][], directed);
+            break;
+        case 'graph':
+            issues = checkLegacyGraph(data as Record<string, unknown>);
+            build = () => Graph.fromJSON(JSON.stringify(data));
+            break;
+        case 'incList':
+            issues = checkLegacyIncList(data as Record<string, unknown>);
+            build = () => Graph.fromIncList(
+                Object.fromEntries(Object.entries(data as Record<string, unknown>).map(([vertex, list]) => [Number(vertex), list as number[]])),
+                incListSide,
+                directed
+            );
+            break;
+        default:
+            throw documentError([{ path: '$', message: 'Формат не распознан: ожидается документ графа с полем version, матрица расстояний или список инцидентов' }]);
+    }
+    if (issues.length > 0) throw documentError(issues);
+    return toGraphDocument(build());
+}
+
+/**
+ * Разбирает сохранённый файл графа в документ текущей версии.
+ * @param {string} content Содержимое файла
+ * @param {LegacyGraphOptions} [options] Сторона инцидентов и ориентированность для прежних форматов
+ * @returns {GraphDocument} Документ графа
+ * @throws {GraphArgumentError} Если содержимое не является JSON
+ * @throws {GraphDocumentError} Если формат не распознан или документ содержит ошибки
+ */
+export function parseGraphDocument(content: string, options?: LegacyGraphOptions): GraphDocument {
+    let data: unknown;
+    try {
+        data = JSON.parse(content);
+    } catch (e) {
+        throw new GraphArgumentError("Ошибка парсинга JSON: " + (e instanceof Error ? e.message : String(e)));
+    }
+    return migrateGraphDocument(data, options);
+}
+
+/**
+ * Восстанавливает граф из JSON-файла: документа текущей версии или файла прежнего формата
+ * (см. {@link migrateGraphDocument}).
+ * @param {string} content Содержимое файла
+ * @param {LegacyGraphOptions} [options] Сторона инцидентов и ориентированность для прежних форматов
+ * @returns {Graph} Граф
+ * @throws {GraphArgumentError} Если содержимое не является JSON
+ * @throws {GraphDocumentError} Если формат не распознан или документ содержит ошибки
+ */
+export function parseSavedGraph(content: string, options?: LegacyGraphOptions): Graph {
+    return graphFromDocument(parseGraphDocument(content, options));
+}
+
+/**
+ * Записывает граф в JSON-файл документа текущей версии.
+ * @param {Graph} graph Граф
+ * @param {GraphDocumentMetadata} [metadata] Метаданные документа
+ * @returns {string} Содержимое файла
+ */
+export function stringifyGraphDocument(graph: Graph, metadata?: GraphDocumentMetadata): string {
+    return JSON.stringify(toGraphDocument(graph, metadata), null, 2);
+}
+
+/**
+ * Расширения файлов форматов обмена, которые читает {@link parseGraphFile}.
+ */
+export const graphFileExtensions = ['.gv', '.dot', '.graphml', '.gexf', '.csv', '.tsv', '.mtx'];
+
+/**
+ * Восстанавливает граф из файла формата обмена, выбирая формат по расширению:
+ * .gv и .dot — Graphviz DOT, .graphml — GraphML (yEd), .gexf — GEXF (Gephi),
+ * .csv — список рёбер, .tsv — список рёбер, если первая строка — заголовок from/to, иначе матрица,
+ * .mtx — Matrix Market.
+ * @param {string} fileName Имя файла
+ * @param {string} content Содержимое файла
+ * @param {MatrixTableKind} [matrixKind='adjacency'] Вид матрицы в файле TSV
+ * @returns {Graph} Граф
+ * @throws {GraphArgumentError} Если расширение не поддерживается или содержимое не соответствует формату
+ */
+export function parseGraphFile(fileName: string, content: string, matrixKind: MatrixTableKind = 'adjacency'): Graph {
+    const extension = fileName.slice(fileName.lastIndexOf('.')).toLowerCase();
+    switch (extension) {
+        case '.gv':
+        case '.dot':
+            return Graph.fromDOT(content);
+        case '.graphml':
+            return Graph.fromGraphML(content);
+        case '.gexf':
+            return Graph.fromGEXF(content);
+        case '.csv':
+            return Graph.fromEdgeList(content);
+        case '.tsv':
+            return /^\s*"?(from|source)"?\t/i.test(content)
+                ? Graph.fromEdgeList(content, { delimiter: '\t' })
+                : Graph.fromMatrixTable(content, matrixKind);
+        case '.mtx':
+            return Graph.fromMatrixMarket(content);
+        default:
+            throw new GraphArgumentError(`Формат файла ${fileName} не поддерживается`);
+    }
+}
+
+export type GraphExportFormat = 'graphml' | 'gexf' | 'csv' | 'tsv' | 'mtx';
+
+/**
+ * Названия и MIME-типы форматов, в которые экспортирует {@link serializeGraph}.
+ */
+export const graphExportFormats: Record<GraphExportFormat, { label: string, type: string }> = {
+    graphml: { label: 'GraphML', type: 'application/xml' },
+    gexf: { label: 'GEXF', type: 'application/xml' },
+    csv: { label: 'CSV (список рёбер)', type: 'text/csv' },
+    tsv: { label: 'TSV (матрица)', type: 'text/tab-separated-values' },
+    mtx: { label: 'Matrix Market', type: 'text/plain' },
+};
+
+/**
+ * Записывает граф в формат обмена; расширение файла совпадает с названием формата.
+ * @param {Graph} graph Граф
+ * @param {GraphExportFormat} format Формат
+ * @param {MatrixTableKind} [matrixKind='adjacency'] Вид матрицы для формата TSV
+ * @returns {string} Содержимое файла
+ * @throws {GraphValidationError} Если матрицу TSV нельзя построить для пустого графа
+ */
+export function serializeGraph(graph: Graph, format: GraphExportFormat, matrixKind: MatrixTableKind = 'adjacency'): string {
+    switch (format) {
+        case 'graphml':
+            return graph.asGraphML;
+        case 'gexf':
+            return graph.asGEXF;
+        case 'csv':
+            return graph.toEdgeList();
+        case 'tsv':
+            return graph.toMatrixTable(matrixKind);
+        case 'mtx':
+            return graph.asMatrixMarket;
+    }
+}
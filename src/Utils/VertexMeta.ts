@@ -0,0 +1,65 @@
+import type { Graph, GraphBuilder } from "./Graph";
+import type { Vertex, VertexAttributes } from "../Types/GraphData.types";
+
+/**
+ * Удаляет метаданные вершины и сдвигает номера последующих вершин на единицу.
+ * Используется полями ввода, которые перенумеровывают вершины после удаления.
+ * @param {Record<Vertex, T>} meta Метаданные по номерам вершин
+ * @param {Vertex} removed Удаляемая вершина
+ * @returns {Record<Vertex, T>} Метаданные с новой нумерацией
+ */
+export function removeVertexMeta<T>(meta: Record<Vertex, T>, removed: Vertex): Record<Vertex, T> {
+    return Object.fromEntries(
+        Object.entries(meta)
+            .filter(([vertex]) => Number(vertex) !== removed)
+            .map(([vertex, value]) => [Number(vertex) > removed ? Number(vertex) - 1 : Number(vertex), value])
+    );
+}
+
+/**
+ * Задаёт или удаляет метаданные одной вершины.
+ * @param {Record<Vertex, T>} meta Метаданные по номерам вершин
+ * @param {Vertex} vertex Вершина
+ * @param {T | undefined} value Новое значение; undefined удаляет запись
+ * @returns {Record<Vertex, T>} Новые метаданные
+ */
+export function setVertexMeta<T>(meta: Record<Vertex, T>, vertex: Vertex, value: T | undefined): Record<Vertex, T> {
+    const result = { ...meta };
+    if (value === undefined) {
+        delete result[vertex];
+    } else {
+        result[vertex] = value;
+    }
+    return result;
+}
+
+/**
+ * Переносит названия и атрибуты вершин из состояния поля ввода в построитель графа.
+ * @param {GraphBuilder} draft Построитель графа
+ * @param {Record<Vertex, string>} labels Названия вершин
+ * @param {Record<Vertex, VertexAttributes>} attributes Атрибуты вершин
+ */
+export function applyVertexMeta(
+    draft: GraphBuilder,
+    labels: Record<Vertex, string>,
+    attributes: Record<Vertex, VertexAttributes>
+): void {
+    Object.entries(labels).forEach(([vertex, label]) => draft.setLabel(Number(vertex), label));
+    Object.entries(attributes).forEach(([vertex, values]) => draft.setAttributes(Number(vertex), values));
+}
+
+/**
+ * Названия и атрибуты вершин графа, перенумерованные по позициям вершин (0, 1, …),
+ * как их хранят поля ввода.
+ * @param {Graph} graph Граф
+ * @returns Названия и атрибуты по позициям вершин
+ */
+export function indexedVertexMeta(graph: Graph): {
+    labels: Record<Vertex, string>,
+    attributes: Record<Vertex, VertexAttributes>
+} {
+    const reindex = <T>(meta: Readonly<Record<Vertex, T>>): Record<Vertex, T> => Object.fromEntries(
+        graph.vertices.flatMap((vertex, index) => vertex in meta ? [[index, meta[vertex]]] : [])
+    );
+    return { labels: reindex(graph.labels), attributes: reindex(graph.attributes) };
+}
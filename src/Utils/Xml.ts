@@ -0,0 +1,135 @@
+/**
+ * Минимальный разбор XML для форматов обмена графами (GraphML, GEXF).
+ * Поддерживаются элементы, атрибуты, текст, секции CDATA, комментарии, инструкции обработки,
+ * объявление DOCTYPE без внутреннего подмножества и стандартные сущности.
+ * Префиксы пространств имён отбрасываются: y:NodeLabel читается как NodeLabel.
+ */
+
+/**
+ * Элемент XML-документа.
+ */
+export interface XmlElement {
+    name: string;
+    attributes: Record<string, string>;
+    children: XmlElement[];
+    text: string;
+    line: number;
+}
+
+const openingTag = /<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+const closingTag = /<\/([^\s>]+)\s*>/y;
+
+const entities: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+/**
+ * Заменяет ссылки на сущности их символами.
+ * @throws {SyntaxError} Если сущность неизвестна
+ */
+function decodeEntities(text: string, line: number): string {
+    return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (_, entity: string) => {
+        if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+        if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+        if (entity in entities) return entities[entity];
+        throw new SyntaxError(`Неизвестная сущность &${entity}; (строка ${line})`);
+    });
+}
+
+/**
+ * Локальное имя элемента или атрибута без префикса пространства имён.
+ */
+function localName(name: string): string {
+    return name.slice(name.indexOf(':') + 1);
+}
+
+/**
+ * Разбирает XML-документ.
+ * @param {string} text Текст документа
+ * @returns {XmlElement} Корневой элемент
+ * @throws {SyntaxError} Если документ не является корректным XML
+ */
+export function parseXml(text: string): XmlElement {
+    let position = 0;
+    let line = 1;
+    const stack: XmlElement[] = [];
+    let root: XmlElement | null = null;
+
+    const advance = (to: number) => {
+        for (let i = position; i < to; i++) if (text[i] === '\n') line++;
+        position = to;
+    };
+    const skipPast = (terminator: string, what: string) => {
+        const end = text.indexOf(terminator, position);
+        if (end === -1) throw new SyntaxError(`Незакрытый ${what} (строка ${line})`);
+        advance(end + terminator.length);
+    };
+
+    while (position < text.length) {
+        const open = text.indexOf('<', position);
+        const chunk = text.slice(position, open === -1 ? text.length : open);
+        if (stack.length > 0) {
+            stack[stack.length - 1].text += decodeEntities(chunk, line);
+        } else if (chunk.trim() !== '') {
+            throw new SyntaxError(`Текст вне корневого элемента (строка ${line})`);
+        }
+        if (open === -1) {
+            advance(text.length);
+            break;
+        }
+        advance(open);
+
+        if (text.startsWith('<!--', position)) {
+            skipPast('-->', 'комментарий');
+        } else if (text.startsWith('<![CDATA[', position)) {
+            const end = text.indexOf(']]>', position);
+            if (end === -1 || stack.length === 0) throw new SyntaxError(`Некорректная секция CDATA (строка ${line})`);
+            stack[stack.length - 1].text += text.slice(position + 9, end);
+            advance(end + 3);
+        } else if (text.startsWith('<?', position)) {
+            skipPast('?>', 'инструкция обработки');
+        } else if (text.startsWith('<!DOCTYPE', position)) {
+            skipPast('>', 'DOCTYPE');
+        } else if (text.startsWith('</', position)) {
+            closingTag.lastIndex = position;
+            const match = closingTag.exec(text);
+            const element = stack.pop();
+            if (!match || !element || localName(match[1]) !== element.name) {
+                throw new SyntaxError(`Неожиданный закрывающий тег (строка ${line})`);
+            }
+            advance(position + match[0].length);
+        } else {
+            openingTag.lastIndex = position;
+            const match = openingTag.exec(text);
+            if (!match) throw new SyntaxError(`Некорректный тег (строка ${line})`);
+            if (stack.length === 0 && root) throw new SyntaxError(`Второй корневой элемент (строка ${line})`);
+            const element: XmlElement = { name: localName(match[1]), attributes: {}, children: [], text: '', line };
+            for (const [, name, quoted] of match[2].matchAll(/([^\s=]+)\s*=\s*("[^"]*"|'[^']*')/g)) {
+                element.attributes[localName(name)] = decodeEntities(quoted.slice(1, -1), line);
+            }
+            if (stack.length > 0) {
+                stack[stack.length - 1].children.push(element);
+            } else {
+                root = element;
+            }
+            if (!match[3]) stack.push(element);
+            advance(position + match[0].length);
+        }
+    }
+
+    if (stack.length > 0) throw new SyntaxError(`Незакрытый элемент <${stack[stack.length - 1].name}> (строка ${stack[stack.length - 1].line})`);
+    if (!root) throw new SyntaxError("Документ не содержит корневого элемента");
+    return root;
+}
+
+/**
+ * Экранирует текст для записи в содержимое элемента или значение атрибута.
+ * @param {string} text Текст
+ * @returns {string} Экранированный текст
+ */
+export function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}